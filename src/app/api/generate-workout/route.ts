@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GenerateWorkoutRequest, GenerateWorkoutResponse, Workout, Segment, generateId } from "@/types/workout";
+import { GenerateWorkoutRequest, GenerateWorkoutResponse, Workout, WorkoutItem, isSegmentBlock, generateId } from "@/types/workout";
 import { calculateTSS, calculateIntensityFactor, calculateTotalDuration } from "@/lib/workout-utils";
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
@@ -55,6 +55,11 @@ For workout (PREFERRED):
         "duration": <seconds>,
         "targetPower": {"type": "percent_ftp", "value": <0-200>, "valueHigh": <optional>},
         "instructions": "Optional cue"
+      },
+      {
+        "type": "block",
+        "repeat": <number of sets>,
+        "segments": [<segments or nested blocks repeated together>]
       }
     ]
   }
@@ -73,6 +78,17 @@ SEGMENT EXAMPLES:
 - Sweetspot: {"type": "interval", "duration": 480, "targetPower": {"type": "percent_ftp", "value": 90}}
 - Recovery: {"type": "recovery", "duration": 120, "targetPower": {"type": "percent_ftp", "value": 50}}
 - Cool-down: {"type": "cooldown", "duration": 300, "targetPower": {"type": "percent_ftp", "value": 60, "valueHigh": 40}}
+- Climb in SIM mode (only when the user asks for a gradient): {"type": "steady", "duration": 600, "targetPower": {"type": "percent_ftp", "value": 85}, "simulation": {"grade": 8}} - targetPower is the expected effort
+- Heart-rate Zone 2 (only when the user asks for HR targets): {"type": "steady", "duration": 1800, "targetPower": {"type": "heart_rate", "value": 125, "valueHigh": 140, "heartRateUnit": "bpm", "fallbackPower": 65}}
+- 3 sets of (4x 30s on / 30s off) with 5 min between sets:
+  {"type": "block", "repeat": 3, "segments": [
+    {"type": "block", "repeat": 4, "segments": [
+      {"type": "interval", "duration": 30, "targetPower": {"type": "percent_ftp", "value": 120}},
+      {"type": "recovery", "duration": 30, "targetPower": {"type": "percent_ftp", "value": 50}}
+    ]},
+    {"type": "recovery", "duration": 300, "targetPower": {"type": "percent_ftp", "value": 50}}
+  ]}
+  Use blocks for repeated sets instead of writing every repeat out.
 
 OUTPUT VALID JSON ONLY. NO MARKDOWN. NO EXTRA TEXT.`;
 
@@ -192,11 +208,17 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateW
     if (parsed.workout) {
       const workoutData = parsed.workout;
 
-      // Add IDs to segments and build the full workout
-      const segments: Segment[] = workoutData.segments.map((seg: Segment, index: number) => ({
-        ...seg,
-        id: generateId(),
-      }));
+      const invalidReason = getInvalidItemsReason(workoutData.segments);
+      if (invalidReason) {
+        console.error("Invalid workout from AI:", invalidReason, workoutData);
+        return NextResponse.json(
+          { error: `Generated workout is invalid: ${invalidReason}. Please try again.` },
+          { status: 400 }
+        );
+      }
+
+      // Add IDs to segments (and segments nested in blocks) and build the full workout
+      const segments: WorkoutItem[] = workoutData.segments.map(withIds);
 
       const userFtp = ftp || 200;
       const workout: Workout = {
@@ -226,3 +248,41 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateW
     );
   }
 }
+
+/**
+ * Check the shape of AI-generated items before they're trusted as WorkoutItems -
+ * blocks need segments to repeat and a whole, positive repeat count.
+ * Positions are 1-based, nested ones dotted (block "2.1")
+ */
+function getInvalidItemsReason(items: unknown, path = ""): string | null {
+  const owner = path ? `block ${path}` : "the workout";
+  if (!Array.isArray(items) || items.length === 0) {
+    return `${owner} has no segments`;
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const position = path ? `${path}.${i + 1}` : `${i + 1}`;
+    if (typeof item !== "object" || item === null) {
+      return `item ${position} is not a segment`;
+    }
+    if (item.type !== "block") continue;
+
+    if (!Number.isInteger(item.repeat) || item.repeat < 1) {
+      return `block ${position} needs a positive whole repeat count`;
+    }
+    const nestedReason = getInvalidItemsReason(item.segments, position);
+    if (nestedReason) {
+      return nestedReason;
+    }
+  }
+
+  return null;
+}
+
+function withIds(item: WorkoutItem): WorkoutItem {
+  if (isSegmentBlock(item)) {
+    return { ...item, id: generateId(), segments: item.segments.map(withIds) };
+  }
+  return { ...item, id: generateId() };
+}
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(request: NextRequest) {
   try {
-    const { access_token, tcx_data, name, description } = await request.json();
+    const { access_token, tcx_data, file_data, data_type = "tcx", name, description } = await request.json();
+    // tcx_data is still accepted from clients that predate FIT uploads
+    const fileData = file_data ?? tcx_data;
 
     if (!access_token) {
       return NextResponse.json(
@@ -11,9 +13,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!tcx_data) {
+    if (!fileData) {
       return NextResponse.json(
-        { error: "tcx_data is required" },
+        { error: "file_data is required" },
+        { status: 400 }
+      );
+    }
+
+    if (data_type !== "tcx" && data_type !== "fit") {
+      return NextResponse.json(
+        { error: "data_type must be tcx or fit" },
         { status: 400 }
       );
     }
@@ -21,10 +30,15 @@ export async function POST(request: NextRequest) {
     // Create form data for multipart upload
     const formData = new FormData();
 
-    // Convert TCX string to a Blob
-    const tcxBlob = new Blob([tcx_data], { type: "application/vnd.garmin.tcx+xml" });
-    formData.append("file", tcxBlob, "workout.tcx");
-    formData.append("data_type", "tcx");
+    // Convert the file to a Blob - FIT files arrive base64 encoded
+    if (data_type === "fit") {
+      const fitBlob = new Blob([Buffer.from(fileData, "base64")], { type: "application/vnd.ant.fit" });
+      formData.append("file", fitBlob, "workout.fit");
+    } else {
+      const tcxBlob = new Blob([fileData], { type: "application/vnd.garmin.tcx+xml" });
+      formData.append("file", tcxBlob, "workout.tcx");
+    }
+    formData.append("data_type", data_type);
     formData.append("activity_type", "virtualride");
 
     if (name) {
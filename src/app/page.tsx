@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, Suspense } from "react";
+import { useState, useEffect, useCallback, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { WorkoutCreator } from "@/components/workout-creator";
 import { WorkoutView } from "@/components/workout-view";
@@ -9,24 +9,37 @@ import { CompletedWorkoutReview } from "@/components/completed-workout-review";
 import { StravaConnectModal } from "@/components/strava-connect-modal";
 import { RecentWorkouts } from "@/components/recent-workouts";
 import { SettingsModal } from "@/components/settings-modal";
+import { TrainingDashboard } from "@/components/training-dashboard";
 import { FTPSetup } from "@/components/ftp-setup";
-import { Workout, WorkoutCompletion, generateId } from "@/types/workout";
+import { Workout, WorkoutCompletion, FtpTestProtocol, generateId } from "@/types/workout";
 import { useStrava, PendingStravaUpload } from "@/hooks/use-strava";
 import { useAuth } from "@/components/auth-provider";
 import { useWorkouts } from "@/hooks/use-workouts";
-import { useRawFTP } from "@/hooks/use-ftp";
+import { useRawFTP, useFtpHistory } from "@/hooks/use-ftp";
 import { useDataMigration } from "@/hooks/use-data-migration";
+import { useHeartRateControlSettings, useHeartRateZoneBounds } from "@/hooks/use-heart-rate-control";
+import { createFtpTestWorkout } from "@/lib/ftp-tests";
+import { upsertFtpHistoryEntry } from "@/lib/ftp-history";
+import { createWorkoutCompletion } from "@/lib/workout-storage";
+import { ActiveRide, loadActiveRide, clearActiveRide } from "@/lib/ride-recovery";
+import { getDateKey, formatDuration } from "@/lib/workout-utils";
 
 function HomeWithCallback() {
   const [currentWorkout, setCurrentWorkout] = useState<Workout | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [showReview, setShowReview] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showDashboard, setShowDashboard] = useState(false);
   const [showStravaModal, setShowStravaModal] = useState(false);
   const [pendingStravaUpload, setPendingStravaUpload] = useState<PendingStravaUpload | null>(null);
   const { workouts: savedWorkouts, saveWorkout, deleteWorkout } = useWorkouts();
   const [ftp, setFtp] = useRawFTP();
+  const [ftpHistory, setFtpHistory] = useFtpHistory();
   const [isHydrated, setIsHydrated] = useState(false);
+  const [unfinishedRide, setUnfinishedRide] = useState<ActiveRide | null>(null);
+  const [resumeRide, setResumeRide] = useState<ActiveRide | null>(null);
+  const [heartRateControl] = useHeartRateControlSettings();
+  const heartRateZoneBounds = useHeartRateZoneBounds();
   const strava = useStrava();
   const { user, supabase } = useAuth();
   const migration = useDataMigration();
@@ -38,6 +51,24 @@ function HomeWithCallback() {
     setIsHydrated(true);
   }, []);
 
+  // Offer to resume or save a ride cut short by a crash or reload
+  const checkUnfinishedRide = useCallback(() => {
+    loadActiveRide()
+      .then((ride) => {
+        setUnfinishedRide(ride && ride.recordedData.length > 0 ? ride : null);
+        if (ride && ride.recordedData.length === 0) {
+          return clearActiveRide();
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load unfinished ride:", err);
+      });
+  }, []);
+
+  useEffect(() => {
+    checkUnfinishedRide();
+  }, [checkUnfinishedRide]);
+
   // Handle Strava OAuth callback - tokens come in URL fragment for security
   useEffect(() => {
     // Check URL fragment for auth data (more secure than query params)
@@ -90,7 +121,7 @@ function HomeWithCallback() {
       // Clear pending upload first to prevent re-triggering, then upload
       // (upload continues in background even if pending data is cleared)
       strava.clearPendingUpload();
-      strava.uploadActivity(pending.tcxData, pending.name, pending.description).catch((err) => {
+      strava.uploadActivity(pending.fileData, pending.name, pending.description, pending.dataType).catch((err) => {
         console.error("Auto-upload failed:", err);
       });
     }
@@ -98,6 +129,11 @@ function HomeWithCallback() {
 
   const handleFTPComplete = (newFtp: number) => {
     setFtp(newFtp);
+    setFtpHistory(upsertFtpHistoryEntry(ftpHistory, {
+      date: getDateKey(new Date()),
+      ftp: newFtp,
+      source: "manual",
+    }));
   };
 
   // Show nothing while hydrating to prevent flash
@@ -112,6 +148,7 @@ function HomeWithCallback() {
 
   const handleWorkoutCreated = (workout: Workout) => {
     setCurrentWorkout(workout);
+    setShowDashboard(false);
   };
 
   const handleSaveWorkout = (workout: Workout) => {
@@ -138,6 +175,7 @@ function HomeWithCallback() {
   const handleBack = () => {
     setCurrentWorkout(null);
     setShowReview(false);
+    setShowDashboard(false);
   };
 
   const handleStartWorkout = () => {
@@ -147,6 +185,57 @@ function HomeWithCallback() {
   const handleExitPlayer = () => {
     setIsPlaying(false);
     setCurrentWorkout(null);
+    setResumeRide(null);
+    // The player replaces or clears the stored ride once it starts recording
+    checkUnfinishedRide();
+  };
+
+  const handleResumeRide = (ride: ActiveRide) => {
+    setUnfinishedRide(null);
+    setShowReview(false);
+    setShowDashboard(false);
+    setCurrentWorkout(ride.workout);
+    setResumeRide(ride);
+    setIsPlaying(true);
+  };
+
+  const handleSavePartialRide = (ride: ActiveRide) => {
+    const completion = createWorkoutCompletion(
+      ride.workout.segments,
+      ride.recordedData,
+      ride.startedAt,
+      ride.ftp,
+      heartRateZoneBounds,
+      heartRateControl.lthr,
+      ride.updatedAt
+    );
+    const completedWorkout: Workout = {
+      ...ride.workout,
+      id: generateId(),
+      completion: ride.simulated ? { ...completion, simulated: true } : completion,
+    };
+    saveWorkout(completedWorkout);
+    setUnfinishedRide(null);
+    setShowDashboard(false);
+    setCurrentWorkout(completedWorkout);
+    setShowReview(true);
+    clearActiveRide().catch((err) => {
+      console.error("Failed to clear unfinished ride:", err);
+    });
+  };
+
+  const handleDiscardRide = () => {
+    setUnfinishedRide(null);
+    clearActiveRide().catch((err) => {
+      console.error("Failed to clear unfinished ride:", err);
+    });
+  };
+
+  const handleStartFtpTest = (protocol: FtpTestProtocol) => {
+    setShowSettings(false);
+    setShowReview(false);
+    setCurrentWorkout(createFtpTestWorkout(protocol, ftp));
+    setIsPlaying(true);
   };
 
   const handleDoAgain = () => {
@@ -189,6 +278,7 @@ function HomeWithCallback() {
         workout={currentWorkout}
         onExit={handleExitPlayer}
         onWorkoutComplete={handleWorkoutComplete}
+        resumeRide={resumeRide ?? undefined}
       />
     );
   }
@@ -206,6 +296,7 @@ function HomeWithCallback() {
             setShowStravaModal(true);
           }}
           onDoAgain={handleDoAgain}
+          workouts={savedWorkouts}
         />
         {showStravaModal && (
           <StravaConnectModal
@@ -259,6 +350,15 @@ function HomeWithCallback() {
                 Sign In
               </a>
             )}
+            <button
+              onClick={() => {
+                setCurrentWorkout(null);
+                setShowDashboard(true);
+              }}
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Progress
+            </button>
             <button
               onClick={() => setShowSettings(true)}
               className="text-sm text-muted-foreground hover:text-foreground transition-colors"
@@ -269,6 +369,37 @@ function HomeWithCallback() {
         </div>
       </header>
 
+      {unfinishedRide && (
+        <div className="bg-primary/5 border-b border-primary/10">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3 sm:gap-4">
+            <p className="text-sm text-foreground">
+              Your ride <span className="font-semibold">{unfinishedRide.workout.name}</span> was interrupted after{" "}
+              <span className="font-semibold">{formatDuration(Math.round(unfinishedRide.playerState.elapsedTime))}</span>.
+            </p>
+            <div className="flex items-center gap-2 shrink-0">
+              <button
+                onClick={() => handleResumeRide(unfinishedRide)}
+                className="px-3 py-1.5 bg-primary text-primary-foreground rounded-lg text-xs font-medium hover:opacity-90 transition-opacity"
+              >
+                Resume ride
+              </button>
+              <button
+                onClick={() => handleSavePartialRide(unfinishedRide)}
+                className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-lg text-xs font-medium hover:bg-secondary/80 transition-colors"
+              >
+                Save partial ride
+              </button>
+              <button
+                onClick={handleDiscardRide}
+                className="px-3 py-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {migration.hasPendingMigration && (
         <div className="bg-primary/5 border-b border-primary/10">
           <div className="max-w-5xl mx-auto px-4 sm:px-6 py-3 flex items-center justify-between gap-4">
@@ -303,6 +434,8 @@ function HomeWithCallback() {
             onUpdate={setCurrentWorkout}
             onStartWorkout={handleStartWorkout}
           />
+        ) : showDashboard ? (
+          <TrainingDashboard workouts={savedWorkouts} onBack={handleBack} />
         ) : (
           <div className="space-y-8 sm:space-y-12">
             <WorkoutCreator onWorkoutCreated={handleWorkoutCreated} />
@@ -316,7 +449,7 @@ function HomeWithCallback() {
       </div>
 
       {showSettings && (
-        <SettingsModal onClose={() => setShowSettings(false)} />
+        <SettingsModal onClose={() => setShowSettings(false)} onStartFtpTest={handleStartFtpTest} />
       )}
     </main>
   );
@@ -1,12 +1,20 @@
 "use client";
 
-import { useCallback } from "react";
-import { Workout } from "@/types/workout";
-import { UseStravaReturn, PendingStravaUpload } from "@/hooks/use-strava";
-import { useFTP } from "@/hooks/use-ftp";
+import { useCallback, useMemo } from "react";
+import { Workout, POWER_ZONES, HEART_RATE_ZONES } from "@/types/workout";
+import { UseStravaReturn, PendingStravaUpload, StravaUploadDataType } from "@/hooks/use-strava";
+import { useFTP, useFtpHistory, useWorkoutFTP } from "@/hooks/use-ftp";
 import { PowerGraph } from "./power-graph";
-import { expandRepeatedSegments, formatDuration } from "@/lib/workout-utils";
+import { expandRepeatedSegments, formatDuration, getBlockRanges } from "@/lib/workout-utils";
 import { generateTCX, downloadTCX } from "@/lib/tcx-export";
+import { generateFIT, downloadFIT, encodeFITBase64 } from "@/lib/fit-export";
+import { findPersonalBests, formatEffortDuration } from "@/lib/power-curve";
+import { calculatePowerZoneTimes, calculateHeartRateZoneTimes } from "@/lib/zones";
+import { calculateSegmentCompliance, calculateComplianceScore } from "@/lib/compliance";
+import { calculateAerobicDecoupling, getDecouplingTrend } from "@/lib/decoupling";
+import { useHeartRateControlSettings, useHeartRateZoneBounds } from "@/hooks/use-heart-rate-control";
+import { ZoneHistogram } from "./zone-histogram";
+import { ComplianceTable } from "./compliance-table";
 import {
   CheckCircle,
   Loader2,
@@ -21,6 +29,7 @@ import {
   Heart,
   TrendingUp,
   Play,
+  Trophy,
 } from "lucide-react";
 
 interface CompletedWorkoutReviewProps {
@@ -29,6 +38,7 @@ interface CompletedWorkoutReviewProps {
   onBack: () => void;
   onStravaConnect?: (pendingUpload: PendingStravaUpload) => void;
   onDoAgain?: () => void;
+  workouts?: Workout[]; // all saved workouts - for flagging personal bests
 }
 
 export function CompletedWorkoutReview({
@@ -37,13 +47,55 @@ export function CompletedWorkoutReview({
   onBack,
   onStravaConnect,
   onDoAgain,
+  workouts,
 }: CompletedWorkoutReviewProps) {
-  const [ftp] = useFTP();
+  // Measured against the FTP on the day it was ridden, not today's
+  const ftp = useWorkoutFTP(workout);
   const completion = workout.completion;
   const summary = completion?.summary;
 
   // Expand segments for the power graph
-  const expandedSegments = expandRepeatedSegments(workout.segments);
+  const expandedSegments = useMemo(() => expandRepeatedSegments(workout.segments), [workout.segments]);
+
+  // Durations where this ride beat every earlier one
+  const personalBests = useMemo(
+    () => (workouts ? findPersonalBests(workout, workouts) : []),
+    [workout, workouts]
+  );
+
+  // Per-interval compliance, from the stored 5-second data
+  const [heartRateControl] = useHeartRateControlSettings();
+  const compliance = useMemo(
+    () => (completion ? calculateSegmentCompliance(expandedSegments, completion.recordedData, ftp, heartRateControl.lthr) : []),
+    [expandedSegments, completion, ftp, heartRateControl.lthr]
+  );
+  const complianceScore = completion?.complianceScore ?? calculateComplianceScore(expandedSegments, compliance);
+
+  // Pa:HR decoupling, trended against rides of the same intensity
+  const [currentFtp] = useFTP();
+  const [ftpHistory] = useFtpHistory();
+  const decoupling = useMemo(
+    () => completion ? completion.summary.aerobicDecoupling ?? calculateAerobicDecoupling(completion.recordedData) : null,
+    [completion]
+  );
+  const decouplingTrend = useMemo(
+    () => (decoupling && workouts ? getDecouplingTrend(workout, workouts, ftpHistory, currentFtp).slice(-12) : []),
+    [decoupling, workout, workouts, ftpHistory, currentFtp]
+  );
+  const hasHeartRate = completion?.recordedData.some((point) => point.heartRate) ?? false;
+
+  // Rides saved before zone times were recorded get them worked out here
+  const heartRateZoneBounds = useHeartRateZoneBounds();
+  const zoneTimes = useMemo(() => {
+    if (!completion) return { power: null, heartRate: null };
+    const hasPower = completion.recordedData.some((point) => point.actualPower !== null);
+    return {
+      power: completion.summary.powerZoneTimes
+        ?? (hasPower ? calculatePowerZoneTimes(completion.recordedData, ftp) : null),
+      heartRate: completion.summary.heartRateZoneTimes
+        ?? (heartRateZoneBounds ? calculateHeartRateZoneTimes(completion.recordedData, heartRateZoneBounds) : null),
+    };
+  }, [completion, ftp, heartRateZoneBounds]);
 
   // TCX Export handler
   const handleExportTCX = useCallback(() => {
@@ -56,6 +108,7 @@ export function CompletedWorkoutReview({
         recordedData: completion.recordedData,
         segments: expandedSegments,
         ftp,
+        route: workout.route,
       });
       const filename = `${workout.name.replace(/[^a-z0-9]/gi, '_')}_${new Date(completion.completedAt).toISOString().split('T')[0]}.tcx`;
       downloadTCX(tcx, filename);
@@ -64,23 +117,48 @@ export function CompletedWorkoutReview({
     }
   }, [workout, completion, expandedSegments, ftp]);
 
-  // Strava upload handler
-  const handleStravaUpload = useCallback(async () => {
+  // FIT Export handler
+  const handleExportFIT = useCallback(() => {
     if (!completion) return;
 
     try {
-      const tcx = generateTCX({
+      const fit = generateFIT({
         workoutName: workout.name,
         startTime: new Date(completion.startedAt),
         recordedData: completion.recordedData,
         segments: expandedSegments,
         ftp,
       });
+      const filename = `${workout.name.replace(/[^a-z0-9]/gi, '_')}_${new Date(completion.completedAt).toISOString().split('T')[0]}.fit`;
+      downloadFIT(fit, filename);
+    } catch (err) {
+      console.error('Failed to export FIT:', err);
+    }
+  }, [workout, completion, expandedSegments, ftp]);
+
+  // Strava upload handler - FIT keeps laps and power metrics intact, route
+  // rides go as TCX so the activity gets the route's map
+  const handleStravaUpload = useCallback(async () => {
+    if (!completion) return;
+
+    try {
+      const options = {
+        workoutName: workout.name,
+        startTime: new Date(completion.startedAt),
+        recordedData: completion.recordedData,
+        segments: expandedSegments,
+        ftp,
+      };
+      const dataType: StravaUploadDataType = workout.route ? 'tcx' : 'fit';
+      const fileData = workout.route
+        ? generateTCX({ ...options, route: workout.route })
+        : encodeFITBase64(generateFIT(options));
 
       if (!strava.isConnected) {
         // Not connected, trigger OAuth flow with pending upload
         const pendingUpload: PendingStravaUpload = {
-          tcxData: tcx,
+          fileData,
+          dataType,
           name: workout.name,
           description: `Indoor cycling workout completed with BrowserTurbo`,
           workoutId: workout.id,
@@ -91,9 +169,10 @@ export function CompletedWorkoutReview({
       }
 
       await strava.uploadActivity(
-        tcx,
+        fileData,
         workout.name,
-        `Indoor cycling workout completed with BrowserTurbo`
+        `Indoor cycling workout completed with BrowserTurbo`,
+        dataType
       );
     } catch (err) {
       console.error('Failed to upload to Strava:', err);
@@ -138,6 +217,9 @@ export function CompletedWorkoutReview({
               </h1>
               <p className="text-[10px] sm:text-xs text-muted-foreground truncate">
                 Completed {formatCompletedDate(completion.completedAt)}
+                {completion.simulated && (
+                  <span className="text-amber-600"> · Simulated with virtual devices</span>
+                )}
               </p>
             </div>
           </div>
@@ -264,6 +346,30 @@ export function CompletedWorkoutReview({
             </div>
           </div>
 
+          {/* Personal bests */}
+          {personalBests.length > 0 && (
+            <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-border">
+              <div className="flex items-center gap-1.5 text-[10px] sm:text-xs font-medium text-[#e9a23b] uppercase tracking-wide mb-2 sm:mb-3">
+                <Trophy className="w-3.5 h-3.5" />
+                New Personal Best{personalBests.length > 1 ? 's' : ''}
+              </div>
+              <div className="grid grid-cols-3 sm:flex sm:flex-wrap gap-2">
+                {personalBests.map((best) => (
+                  <div
+                    key={best.duration}
+                    className="bg-[#e9a23b]/10 border border-[#e9a23b]/30 rounded-lg px-2 sm:px-3 py-1.5 sm:py-2 text-center sm:min-w-[70px]"
+                  >
+                    <div className="text-base sm:text-lg font-semibold tabular-nums">
+                      {best.power}
+                      <span className="text-[10px] sm:text-xs font-normal text-muted-foreground">W</span>
+                    </div>
+                    <div className="text-[9px] sm:text-[10px] text-muted-foreground">{formatEffortDuration(best.duration)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Peak Powers */}
           {summary?.peakPowers && summary.peakPowers.length > 0 && (
             <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-border">
@@ -295,6 +401,111 @@ export function CompletedWorkoutReview({
           )}
         </div>
 
+        {/* Interval compliance */}
+        {complianceScore !== null && (
+          <div className="bg-card rounded-2xl p-3 sm:p-6 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+                Intervals
+              </h2>
+              <span className="text-sm">
+                Compliance <span className="font-semibold tabular-nums">{complianceScore}%</span>
+              </span>
+            </div>
+            <ComplianceTable segments={expandedSegments} results={compliance} />
+          </div>
+        )}
+
+        {/* Aerobic decoupling */}
+        {decoupling ? (
+          <div className="bg-card rounded-2xl p-3 sm:p-6 shadow-sm">
+            <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+              Aerobic Decoupling
+            </h2>
+            <div className="grid grid-cols-3 gap-2 sm:gap-4">
+              <div className="bg-background rounded-xl p-3 sm:p-4 text-center">
+                <div className="text-lg sm:text-2xl font-semibold tabular-nums">{decoupling.efficiencyFactor.toFixed(2)}</div>
+                <div className="text-[10px] sm:text-xs text-muted-foreground mt-1">Efficiency Factor</div>
+              </div>
+              <div className="bg-background rounded-xl p-3 sm:p-4 text-center">
+                <div className={`text-lg sm:text-2xl font-semibold tabular-nums ${decoupling.decoupling < 5 ? 'text-green-600' : 'text-amber-600'}`}>
+                  {decoupling.decoupling.toFixed(1)}%
+                </div>
+                <div className="text-[10px] sm:text-xs text-muted-foreground mt-1">Pa:HR</div>
+              </div>
+              <div className="bg-background rounded-xl p-3 sm:p-4 text-center">
+                <div className="text-lg sm:text-2xl font-semibold tabular-nums">
+                  {decoupling.heartRateDrift > 0 ? '+' : ''}{decoupling.heartRateDrift.toFixed(1)}%
+                </div>
+                <div className="text-[10px] sm:text-xs text-muted-foreground mt-1">HR Drift</div>
+              </div>
+            </div>
+
+            {/* Trend across rides of the same intensity */}
+            {decouplingTrend.length > 1 && (
+              <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-border">
+                <div className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wide mb-3">
+                  Similar rides
+                </div>
+                <div className="flex items-end gap-1.5 h-20">
+                  {decouplingTrend.map((point) => {
+                    const maxDecoupling = Math.max(10, ...decouplingTrend.map((p) => Math.abs(p.decoupling)));
+                    return (
+                      <div
+                        key={point.workoutId}
+                        className="flex-1 flex flex-col items-center justify-end h-full"
+                        title={`${new Date(point.date).toLocaleDateString()}: ${point.decoupling.toFixed(1)}% Pa:HR, EF ${point.efficiencyFactor.toFixed(2)}`}
+                      >
+                        <div
+                          className={`w-full rounded-t ${point.workoutId === workout.id ? 'bg-primary' : point.decoupling < 5 ? 'bg-green-500/40' : 'bg-amber-500/40'}`}
+                          style={{ height: `${Math.max(4, (Math.abs(point.decoupling) / maxDecoupling) * 100)}%` }}
+                        />
+                        <div className="text-[9px] text-muted-foreground tabular-nums mt-1">
+                          {point.efficiencyFactor.toFixed(2)}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-[10px] text-muted-foreground mt-2">Bars show Pa:HR decoupling, labels the efficiency factor.</p>
+              </div>
+            )}
+          </div>
+        ) : !hasHeartRate && summary && summary.actualDuration >= 1200 && (
+          <p className="text-xs text-muted-foreground text-center">
+            Ride with a heart-rate monitor to see aerobic decoupling and efficiency factor.
+          </p>
+        )}
+
+        {/* Time in Zones */}
+        {(zoneTimes.power || zoneTimes.heartRate) && (
+          <div className="bg-card rounded-2xl p-3 sm:p-6 shadow-sm">
+            <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+              Time in Zones
+            </h2>
+            <div className="grid md:grid-cols-2 gap-6">
+              {zoneTimes.power && (
+                <div>
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground mb-2">
+                    <Zap className="w-3.5 h-3.5" />
+                    Power
+                  </div>
+                  <ZoneHistogram times={zoneTimes.power} zones={Object.values(POWER_ZONES)} />
+                </div>
+              )}
+              {zoneTimes.heartRate && (
+                <div>
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground mb-2">
+                    <Heart className="w-3.5 h-3.5" />
+                    Heart Rate
+                  </div>
+                  <ZoneHistogram times={zoneTimes.heartRate} zones={Object.values(HEART_RATE_ZONES)} />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Power Graph */}
         <div className="bg-card rounded-2xl p-3 sm:p-6 shadow-sm">
           <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
@@ -304,6 +515,7 @@ export function CompletedWorkoutReview({
             segments={expandedSegments}
             ftp={ftp}
             height={250}
+            blocks={getBlockRanges(workout.segments)}
             recordedData={completion.recordedData}
           />
         </div>
@@ -353,6 +565,16 @@ export function CompletedWorkoutReview({
               Export TCX
             </button>
 
+            {/* FIT Export */}
+            <button
+              onClick={handleExportFIT}
+              disabled={completion.recordedData.length === 0}
+              className="flex-1 px-6 py-3 bg-primary text-primary-foreground rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-40 flex items-center justify-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Export FIT
+            </button>
+
             {/* Strava Upload */}
             {strava.uploadStatus === 'success' ? (
               <button
@@ -373,7 +595,8 @@ export function CompletedWorkoutReview({
             ) : (
               <button
                 onClick={handleStravaUpload}
-                disabled={completion.recordedData.length === 0}
+                disabled={completion.recordedData.length === 0 || completion.simulated}
+                title={completion.simulated ? 'Simulated rides are not uploaded' : undefined}
                 className="flex-1 px-6 py-3 bg-[#FC4C02] text-white rounded-lg font-medium hover:bg-[#e04502] transition-colors disabled:opacity-40 flex items-center justify-center gap-2"
               >
                 <Upload className="w-4 h-4" />
@@ -0,0 +1,81 @@
+"use client";
+
+import { Segment } from "@/types/workout";
+import { SegmentCompliance, ComplianceStatus } from "@/lib/compliance";
+import { formatDuration, getSegmentTypeName } from "@/lib/workout-utils";
+import { cn } from "@/lib/utils";
+
+interface ComplianceTableProps {
+  segments: Segment[];
+  results: SegmentCompliance[];
+}
+
+const STATUS_STYLES: Record<ComplianceStatus, { label: string; className: string }> = {
+  pass: { label: "Pass", className: "bg-green-500/10 text-green-600" },
+  partial: { label: "Partial", className: "bg-amber-500/10 text-amber-600" },
+  fail: { label: "Fail", className: "bg-destructive/10 text-destructive" },
+};
+
+export function ComplianceTable({ segments, results }: ComplianceTableProps) {
+  return (
+    <div className="overflow-x-auto -mx-3 sm:mx-0">
+      <table className="w-full text-xs sm:text-sm tabular-nums">
+        <thead>
+          <tr className="text-[10px] sm:text-xs text-muted-foreground uppercase tracking-wide text-right">
+            <th className="text-left font-medium px-2 py-2">Segment</th>
+            <th className="font-medium px-2 py-2">Time</th>
+            <th className="font-medium px-2 py-2">Target</th>
+            <th className="font-medium px-2 py-2">Avg</th>
+            <th className="font-medium px-2 py-2 hidden sm:table-cell">NP</th>
+            <th className="font-medium px-2 py-2 hidden sm:table-cell">Cad</th>
+            <th className="font-medium px-2 py-2 hidden sm:table-cell">HR</th>
+            <th className="font-medium px-2 py-2">%</th>
+            <th className="font-medium px-2 py-2">In range</th>
+            <th className="font-medium px-2 py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result) => {
+            const segment = segments[result.segmentIndex];
+            const isHeartRate = segment.targetPower.type === "heart_rate";
+            return (
+              <tr key={result.segmentIndex} className="border-t border-border text-right">
+                <td className="text-left px-2 py-2">
+                  <span className="text-muted-foreground mr-1.5">{result.segmentIndex + 1}</span>
+                  {getSegmentTypeName(segment.type)}
+                </td>
+                <td className="px-2 py-2">{formatDuration(result.recordedSeconds)}</td>
+                <td className="px-2 py-2">
+                  {result.target !== null ? `${result.target}${isHeartRate ? " bpm" : "W"}` : "--"}
+                </td>
+                <td className="px-2 py-2">
+                  {isHeartRate
+                    ? (result.avgHeartRate ?? "--")
+                    : result.avgPower !== null ? `${result.avgPower}W` : "--"}
+                </td>
+                <td className="px-2 py-2 hidden sm:table-cell">
+                  {result.normalizedPower !== null ? `${result.normalizedPower}W` : "--"}
+                </td>
+                <td className="px-2 py-2 hidden sm:table-cell">{result.avgCadence ?? "--"}</td>
+                <td className="px-2 py-2 hidden sm:table-cell">{result.avgHeartRate ?? "--"}</td>
+                <td className="px-2 py-2">{result.compliance !== null ? `${result.compliance}%` : "--"}</td>
+                <td className="px-2 py-2">
+                  {result.timeInRange !== null ? `${Math.round(result.timeInRange * 100)}%` : "--"}
+                </td>
+                <td className="px-2 py-2">
+                  {result.status ? (
+                    <span className={cn("inline-block px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium", STATUS_STYLES[result.status].className)}>
+                      {STATUS_STYLES[result.status].label}
+                    </span>
+                  ) : (
+                    <span className="text-[10px] sm:text-xs text-muted-foreground">Not scored</span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
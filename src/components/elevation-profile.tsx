@@ -0,0 +1,120 @@
+"use client";
+
+import { useRef, useEffect, useState } from "react";
+import { Route } from "@/types/workout";
+
+interface ElevationProfileProps {
+  route: Route;
+  height?: number;
+  currentDistance?: number; // metres - draws the rider's position when set
+}
+
+export function ElevationProfile({
+  route,
+  height = 120,
+  currentDistance,
+}: ElevationProfileProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) {
+        setWidth(containerRef.current.clientWidth);
+      }
+    };
+
+    updateWidth();
+    window.addEventListener("resize", updateWidth);
+    return () => window.removeEventListener("resize", updateWidth);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0 || route.points.length < 2) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const graphHeight = height - 20; // Leave space for distance labels
+    const elevations = route.points.map((point) => point.elevation);
+    const minElevation = Math.min(...elevations);
+    // Keep at least 50m of vertical range so flat routes don't look mountainous
+    const range = Math.max(50, Math.max(...elevations) - minElevation);
+
+    const distanceToX = (distance: number) => (distance / route.totalDistance) * width;
+    const elevationToY = (elevation: number) =>
+      graphHeight - ((elevation - minElevation) / range) * (graphHeight - 10);
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Profile fill - ridden part darker
+    const drawProfile = (toDistance: number, fillStyle: string) => {
+      ctx.fillStyle = fillStyle;
+      ctx.beginPath();
+      ctx.moveTo(0, graphHeight);
+      for (const point of route.points) {
+        if (point.distance > toDistance) break;
+        ctx.lineTo(distanceToX(point.distance), elevationToY(point.elevation));
+      }
+      ctx.lineTo(distanceToX(Math.min(toDistance, route.totalDistance)), graphHeight);
+      ctx.closePath();
+      ctx.fill();
+    };
+
+    drawProfile(route.totalDistance, "rgba(42, 157, 143, 0.25)");
+    if (currentDistance !== undefined && currentDistance > 0) {
+      drawProfile(currentDistance, "rgba(42, 157, 143, 0.6)");
+    }
+
+    // Outline
+    ctx.strokeStyle = "#2a9d8f";
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    route.points.forEach((point, i) => {
+      const x = distanceToX(point.distance);
+      const y = elevationToY(point.elevation);
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    });
+    ctx.stroke();
+
+    // Rider position
+    if (currentDistance !== undefined) {
+      const x = distanceToX(Math.min(currentDistance, route.totalDistance));
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.7)";
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, graphHeight);
+      ctx.stroke();
+    }
+
+    // Distance axis
+    ctx.fillStyle = "rgba(0, 0, 0, 0.4)";
+    ctx.font = "11px system-ui, sans-serif";
+    const markers = 5;
+    for (let i = 0; i <= markers; i++) {
+      const x = (i / markers) * width;
+      const label = `${((i / markers) * route.totalDistance / 1000).toFixed(1)} km`;
+      const labelWidth = ctx.measureText(label).width;
+      ctx.fillText(label, Math.max(0, Math.min(x - labelWidth / 2, width - labelWidth)), height - 5);
+    }
+
+    // Elevation range
+    ctx.fillStyle = "rgba(0, 0, 0, 0.35)";
+    ctx.font = "10px system-ui, sans-serif";
+    ctx.fillText(`${Math.round(minElevation + range)} m`, 4, 12);
+    ctx.fillText(`${Math.round(minElevation)} m`, 4, graphHeight - 3);
+  }, [route, width, height, currentDistance]);
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <canvas ref={canvasRef} width={width} height={height} className="w-full" />
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { useState } from "react";
 import { Workout } from "@/types/workout";
-import { exportToZwo } from "@/lib/exporters/zwo-exporter";
+import { exportToZwo, getZwoExportWarnings } from "@/lib/exporters/zwo-exporter";
+import { exportToErgMrc, getErgMrcFormat, getErgMrcUnsupportedReason } from "@/lib/exporters/erg-mrc-exporter";
 import { Download, Share2, ChevronDown, Check, Copy } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -15,6 +16,9 @@ export function ExportMenu({ workout, ftp }: ExportMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [copied, setCopied] = useState(false);
 
+  // Segments ZWO can't hold - shown on the menu item before exporting
+  const zwoWarnings = getZwoExportWarnings(workout);
+
   const handleExportZwo = () => {
     const zwoContent = exportToZwo(workout, ftp);
     const blob = new Blob([zwoContent], { type: "application/xml" });
@@ -29,6 +33,24 @@ export function ExportMenu({ workout, ftp }: ExportMenuProps) {
     setIsOpen(false);
   };
 
+  // ERG for absolute-watt workouts, MRC (percent FTP) otherwise
+  const ergMrcFormat = getErgMrcFormat(workout);
+  const ergMrcUnsupported = getErgMrcUnsupportedReason(workout);
+
+  const handleExportErgMrc = () => {
+    const { content, format } = exportToErgMrc(workout, ftp);
+    const blob = new Blob([content], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${workout.name.replace(/[^a-z0-9]/gi, "_")}.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    setIsOpen(false);
+  };
+
   const handleCopyLink = async () => {
     // Encode workout as base64 JSON for sharing
     const workoutData = JSON.stringify(workout);
@@ -87,6 +109,26 @@ export function ExportMenu({ workout, ftp }: ExportMenuProps) {
               <div>
                 <div className="font-medium">Export .zwo</div>
                 <div className="text-xs text-muted-foreground">Zwift workout file</div>
+                {zwoWarnings.length > 0 && (
+                  <div className="text-xs text-amber-500">{zwoWarnings.join(", ")}</div>
+                )}
+              </div>
+            </button>
+
+            <button
+              onClick={handleExportErgMrc}
+              disabled={ergMrcUnsupported !== null}
+              className="w-full flex items-center gap-3 px-4 py-3 hover:bg-accent transition-colors text-left border-t border-border disabled:opacity-60 disabled:hover:bg-transparent"
+            >
+              <Download className="w-4 h-4 text-muted-foreground" />
+              <div>
+                <div className="font-medium">Export .{ergMrcFormat}</div>
+                <div className="text-xs text-muted-foreground">
+                  {ergMrcFormat === "erg" ? "ERG file (watts)" : "MRC file (% FTP)"}
+                </div>
+                {ergMrcUnsupported && (
+                  <div className="text-xs text-amber-500">{ergMrcUnsupported} - not available</div>
+                )}
               </div>
             </button>
 
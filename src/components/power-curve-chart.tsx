@@ -0,0 +1,166 @@
+"use client";
+
+import { useRef, useEffect, useState } from "react";
+import { PowerCurvePoint, POWER_CURVE_DURATIONS, formatEffortDuration } from "@/lib/power-curve";
+
+export interface PowerCurveSeries {
+  label: string;
+  color: string;
+  points: PowerCurvePoint[];
+}
+
+interface PowerCurveChartProps {
+  series: PowerCurveSeries[];
+  height?: number;
+}
+
+// Durations labelled on the (log-scale) time axis
+const AXIS_DURATIONS = [5, 30, 60, 300, 1200, 3600, 7200];
+
+export function PowerCurveChart({ series, height = 240 }: PowerCurveChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hovered, setHovered] = useState<{ duration: number; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) {
+        setWidth(containerRef.current.clientWidth);
+      }
+    };
+
+    updateWidth();
+    window.addEventListener("resize", updateWidth);
+    return () => window.removeEventListener("resize", updateWidth);
+  }, []);
+
+  const minLog = Math.log(POWER_CURVE_DURATIONS[0]);
+  const maxLog = Math.log(POWER_CURVE_DURATIONS[POWER_CURVE_DURATIONS.length - 1]);
+  const durationToX = (duration: number) => ((Math.log(duration) - minLog) / (maxLog - minLog)) * width;
+  const graphHeight = height - 20; // Leave space for duration labels
+  const maxPower = Math.max(100, ...series.flatMap((s) => s.points.map((p) => p.power))) * 1.1;
+  const powerToY = (power: number) => graphHeight - (power / maxPower) * (graphHeight - 5);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Duration grid
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.06)";
+    ctx.lineWidth = 1;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.4)";
+    ctx.font = "11px system-ui, sans-serif";
+    for (const duration of AXIS_DURATIONS) {
+      const x = durationToX(duration);
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, graphHeight);
+      ctx.stroke();
+
+      const label = formatEffortDuration(duration);
+      const labelWidth = ctx.measureText(label).width;
+      ctx.fillText(label, Math.max(0, Math.min(x - labelWidth / 2, width - labelWidth)), height - 5);
+    }
+
+    // Curves
+    for (const s of series) {
+      if (s.points.length === 0) continue;
+      ctx.strokeStyle = s.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      s.points.forEach((point, i) => {
+        const x = durationToX(point.duration);
+        const y = powerToY(point.power);
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+    }
+
+    // Hovered duration
+    if (hovered) {
+      const x = durationToX(hovered.duration);
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.3)";
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, graphHeight);
+      ctx.stroke();
+    }
+
+    // Power scale
+    ctx.fillStyle = "rgba(0, 0, 0, 0.35)";
+    ctx.font = "10px system-ui, sans-serif";
+    ctx.fillText(`${Math.round(maxPower)} W`, 4, 12);
+  }, [series, width, height, hovered]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    // Snap to the nearest duration on the curve
+    let nearest = POWER_CURVE_DURATIONS[0];
+    for (const duration of POWER_CURVE_DURATIONS) {
+      if (Math.abs(durationToX(duration) - x) < Math.abs(durationToX(nearest) - x)) {
+        nearest = duration;
+      }
+    }
+    setHovered({ duration: nearest, x, y: e.clientY - rect.top });
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHovered(null)}
+        className="w-full cursor-crosshair"
+      />
+
+      {/* Tooltip */}
+      {hovered && (
+        <div
+          className="absolute z-10 bg-popover border border-border rounded-lg shadow-lg p-3 pointer-events-none"
+          style={{
+            left: Math.min(hovered.x + 10, width - 150),
+            top: Math.max(hovered.y - 80, 0),
+          }}
+        >
+          <div className="font-medium">{formatEffortDuration(hovered.duration)}</div>
+          <div className="text-sm text-muted-foreground space-y-0.5 mt-1 tabular-nums">
+            {series.map((s) => {
+              const point = s.points.find((p) => p.duration === hovered.duration);
+              return (
+                <div key={s.label}>
+                  {s.label}: {point ? `${point.power}W` : "--"}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center justify-center gap-4 mt-4 text-xs text-muted-foreground">
+        {series.map((s) => (
+          <div key={s.label} className="flex items-center gap-2">
+            <div className="w-6 h-0.5 rounded" style={{ backgroundColor: s.color }} />
+            <span>{s.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useRef, useEffect, useState } from "react";
 import { Segment, getZoneColor } from "@/types/workout";
 import { RecordedDataPoint } from "@/types/trainer";
-import { getPowerAsPercentFTP, formatDuration, getSegmentTypeName } from "@/lib/workout-utils";
+import { getPowerRangeAsPercentFTP, formatDuration, getSegmentTypeName, formatHeartRateTarget, BlockRange } from "@/lib/workout-utils";
 
 interface PowerGraphProps {
   segments: Segment[];
@@ -11,6 +11,7 @@ interface PowerGraphProps {
   height?: number;
   onSegmentClick?: (index: number) => void;
   highlightedIndex?: number | null;
+  blocks?: BlockRange[]; // Repeat brackets drawn above the segments
   // Player mode props
   playerMode?: boolean;
   currentTime?: number;
@@ -25,6 +26,7 @@ export function PowerGraph({
   height = 200,
   onSegmentClick,
   highlightedIndex,
+  blocks,
   playerMode = false,
   currentTime = 0,
   realTimePower = null,
@@ -44,7 +46,10 @@ export function PowerGraph({
 
   // Calculate max power from segments, with minimum of 150%
   const segmentMaxPower = Math.max(
-    ...segments.map(seg => Math.max(seg.targetPower.value, seg.targetPower.valueHigh ?? 0))
+    ...segments.map(seg => {
+      const { start, end } = getPowerRangeAsPercentFTP(seg, ftp);
+      return Math.max(start, end);
+    })
   );
   const maxPower = Math.max(150, Math.ceil(segmentMaxPower / 10) * 10 + 10); // Round up to nearest 10 + padding
 
@@ -106,8 +111,7 @@ export function PowerGraph({
 
     segments.forEach((segment, index) => {
       const segmentWidth = (segment.duration / totalDuration) * width;
-      const powerStart = segment.targetPower.value;
-      const powerEnd = segment.targetPower.valueHigh ?? powerStart;
+      const { start: powerStart, end: powerEnd } = getPowerRangeAsPercentFTP(segment, ftp);
 
       // Determine if this is a ramp (warmup/cooldown with different start/end powers)
       const isRamp = powerStart !== powerEnd;
@@ -120,7 +124,7 @@ export function PowerGraph({
       const isHighlighted = highlightedIndex === index;
       const isHovered = hoveredSegment?.index === index;
 
-      ctx.fillStyle = color;
+      ctx.fillStyle = segment.type === "freeride" ? createHatchPattern(ctx) ?? "#d1d5db" : color;
       ctx.beginPath();
 
       if (isRamp) {
@@ -154,6 +158,32 @@ export function PowerGraph({
       currentX += segmentWidth;
     });
 
+    // Draw block brackets along the top, nested blocks stacked below
+    if (blocks && blocks.length > 0) {
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.45)";
+      ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+      ctx.lineWidth = 1;
+      ctx.font = "bold 10px system-ui, sans-serif";
+
+      blocks.forEach((block) => {
+        const startX = (block.startTime / totalDuration) * width + 1;
+        const endX = (block.endTime / totalDuration) * width - 1;
+        const y = 6 + block.depth * 12;
+
+        ctx.beginPath();
+        ctx.moveTo(startX, y + 4);
+        ctx.lineTo(startX, y);
+        ctx.lineTo(endX, y);
+        ctx.lineTo(endX, y + 4);
+        ctx.stroke();
+
+        const label = `${block.repeat}x`;
+        if (ctx.measureText(label).width + 6 < endX - startX) {
+          ctx.fillText(label, startX + 3, y + 11);
+        }
+      });
+    }
+
     // Draw FTP line - subtle but visible
     const ftpY = powerToY(100);
     ctx.strokeStyle = "rgba(0, 0, 0, 0.35)";
@@ -183,10 +213,15 @@ export function PowerGraph({
         const firstX = (firstPoint.elapsedTime / totalDuration) * width;
         ctx.moveTo(firstX, graphHeight);
 
-        powerPoints.forEach((point) => {
+        powerPoints.forEach((point, i) => {
           const x = (point.elapsedTime / totalDuration) * width;
           const powerPercent = ((point.actualPower as number) / ftp) * 100;
           const y = powerToY(powerPercent);
+          // Drop to the baseline across gaps in recording
+          if (point.gap && i > 0) {
+            ctx.lineTo((powerPoints[i - 1].elapsedTime / totalDuration) * width, graphHeight);
+            ctx.lineTo(x, graphHeight);
+          }
           ctx.lineTo(x, y);
         });
 
@@ -206,7 +241,7 @@ export function PowerGraph({
           const powerPercent = ((point.actualPower as number) / ftp) * 100;
           const y = powerToY(powerPercent);
 
-          if (i === 0) {
+          if (i === 0 || point.gap) {
             ctx.moveTo(x, y);
           } else {
             ctx.lineTo(x, y);
@@ -268,7 +303,7 @@ export function PowerGraph({
         ctx.fillText(powerLabel, labelX, labelY);
       }
     }
-  }, [segments, ftp, dimensions, totalDuration, height, highlightedIndex, hoveredSegment, maxPower, playerMode, currentTime, realTimePower, recordedData]);
+  }, [segments, ftp, dimensions, totalDuration, height, highlightedIndex, hoveredSegment, maxPower, blocks, playerMode, currentTime, realTimePower, recordedData]);
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
@@ -318,6 +353,8 @@ export function PowerGraph({
     }
   };
 
+  const hoveredRange = hoveredSegment ? getPowerRangeAsPercentFTP(hoveredSegment.segment, ftp) : null;
+
   return (
     <div ref={containerRef} className="relative w-full">
       <canvas
@@ -345,9 +382,15 @@ export function PowerGraph({
           <div className="text-sm text-muted-foreground space-y-1 mt-1">
             <div>
               Power:{" "}
-              {hoveredSegment.segment.targetPower.valueHigh
-                ? `${hoveredSegment.segment.targetPower.value}-${hoveredSegment.segment.targetPower.valueHigh}% (${Math.round(hoveredSegment.segment.targetPower.value * ftp / 100)}-${Math.round(hoveredSegment.segment.targetPower.valueHigh * ftp / 100)}W)`
-                : `${Math.round(getPowerAsPercentFTP(hoveredSegment.segment, ftp))}% (${Math.round(getPowerAsPercentFTP(hoveredSegment.segment, ftp) * ftp / 100)}W)`}
+              {hoveredSegment.segment.simulation
+                ? `${hoveredSegment.segment.simulation.grade}% grade (assumed ${Math.round(hoveredRange?.start ?? 0)}%)`
+                : hoveredSegment.segment.type === "freeride"
+                ? `Free ride (assumed ${Math.round(hoveredRange?.start ?? 0)}%)`
+                : hoveredSegment.segment.targetPower.type === "heart_rate"
+                ? `${formatHeartRateTarget(hoveredSegment.segment)} (from ${Math.round(hoveredRange?.start ?? 0)}%)`
+                : hoveredRange && hoveredRange.start !== hoveredRange.end
+                ? `${Math.round(hoveredRange.start)}-${Math.round(hoveredRange.end)}% (${Math.round(hoveredRange.start * ftp / 100)}-${Math.round(hoveredRange.end * ftp / 100)}W)`
+                : `${Math.round(hoveredRange?.start ?? 0)}% (${Math.round((hoveredRange?.start ?? 0) * ftp / 100)}W)`}
             </div>
             <div>Duration: {formatDuration(hoveredSegment.segment.duration)}</div>
             {hoveredSegment.segment.instructions && (
@@ -373,3 +416,28 @@ export function PowerGraph({
     </div>
   );
 }
+
+// Free-ride segments have no target - draw them as a grey hatched band at
+// their assumed intensity
+function createHatchPattern(ctx: CanvasRenderingContext2D): CanvasPattern | null {
+  const tile = document.createElement("canvas");
+  tile.width = 8;
+  tile.height = 8;
+  const tileCtx = tile.getContext("2d");
+  if (!tileCtx) return null;
+
+  tileCtx.fillStyle = "#e5e7eb";
+  tileCtx.fillRect(0, 0, 8, 8);
+  tileCtx.strokeStyle = "#9ca3af";
+  tileCtx.lineWidth = 2;
+  tileCtx.beginPath();
+  tileCtx.moveTo(0, 8);
+  tileCtx.lineTo(8, 0);
+  tileCtx.moveTo(-2, 2);
+  tileCtx.lineTo(2, -2);
+  tileCtx.moveTo(6, 10);
+  tileCtx.lineTo(10, 6);
+  tileCtx.stroke();
+
+  return ctx.createPattern(tile, "repeat");
+}
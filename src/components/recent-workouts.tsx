@@ -68,6 +68,23 @@ export function RecentWorkouts({ workouts, onLoad, onDelete }: RecentWorkoutsPro
                         {summary.actualTSS !== null && (
                           <span className="text-green-600">TSS {summary.actualTSS}</span>
                         )}
+                        {workout.completion?.complianceScore !== undefined && (
+                          <span
+                            className={cn(
+                              workout.completion.complianceScore >= 80
+                                ? "text-green-600"
+                                : workout.completion.complianceScore >= 50
+                                  ? "text-amber-600"
+                                  : "text-destructive"
+                            )}
+                            title="Time inside the target range"
+                          >
+                            {workout.completion.complianceScore}% compliance
+                          </span>
+                        )}
+                        {workout.completion?.simulated && (
+                          <span className="text-amber-600">Simulated</span>
+                        )}
                       </>
                     ) : (
                       <span>TSS {workout.estimatedTSS}</span>
@@ -0,0 +1,59 @@
+"use client";
+
+import { LucideIcon } from "lucide-react";
+import { UseSensorReturn } from "@/hooks/use-sensors";
+import { cn } from "@/lib/utils";
+
+interface SensorConnectionRowProps {
+  sensor: UseSensorReturn;
+  label: string;
+  icon: LucideIcon;
+}
+
+export function SensorConnectionRow({ sensor, label, icon: Icon }: SensorConnectionRowProps) {
+  const isConnected = sensor.connectionState === 'connected';
+
+  return (
+    <div className="flex items-center justify-between py-2 border-b border-border">
+      <div className="flex items-center gap-3">
+        <div className={cn(
+          "p-2 rounded-lg",
+          isConnected ? "bg-primary/10" : "bg-muted"
+        )}>
+          <Icon className={cn(
+            "w-4 h-4",
+            isConnected ? "text-primary" : "text-muted-foreground"
+          )} />
+        </div>
+        <div className="min-w-0">
+          <div className="text-sm font-medium truncate">
+            {isConnected ? sensor.deviceName : label}
+          </div>
+          <div className="text-xs text-muted-foreground truncate">
+            {isConnected ? 'Connected' :
+             sensor.connectionState === 'connecting' ? 'Connecting...' :
+             sensor.connectionState === 'error' ? sensor.errorMessage : 'Not connected'}
+          </div>
+        </div>
+      </div>
+      {sensor.connectionState === 'disconnected' || sensor.connectionState === 'error' ? (
+        <button
+          onClick={sensor.connect}
+          disabled={!sensor.isSupported}
+          className="px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity disabled:opacity-40 flex-shrink-0"
+        >
+          Connect
+        </button>
+      ) : isConnected ? (
+        <button
+          onClick={sensor.disconnect}
+          className="px-3 py-1.5 text-xs border border-border rounded-lg hover:bg-accent transition-colors flex-shrink-0"
+        >
+          Disconnect
+        </button>
+      ) : (
+        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin flex-shrink-0" />
+      )}
+    </div>
+  );
+}
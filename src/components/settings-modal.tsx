@@ -1,18 +1,62 @@
 "use client";
 
 import { useState } from "react";
-import { useFTP } from "@/hooks/use-ftp";
+import { useFTP, useFtpHistory } from "@/hooks/use-ftp";
+import { useHeartRateControlSettings, useHeartRateZoneSettings } from "@/hooks/use-heart-rate-control";
+import { useVirtualDeviceSettings } from "@/hooks/use-virtual-devices";
+import { usePowerMatchSettings } from "@/hooks/use-power-match";
+import { useKnownDevices } from "@/hooks/use-known-devices";
 import { useAuth } from "@/components/auth-provider";
-import { X } from "lucide-react";
+import { FTP_TEST_PROTOCOLS } from "@/lib/ftp-tests";
+import { VIRTUAL_RIDER_MODELS } from "@/lib/virtual-rider";
+import { upsertFtpHistoryEntry } from "@/lib/ftp-history";
+import { getDateKey } from "@/lib/workout-utils";
+import { forgetPermittedDevice } from "@/lib/ble-reconnect";
+import { FtpHistoryEntry, FtpTestProtocol } from "@/types/workout";
+import { HeartRateZoneBasis, KnownDevice, KnownDeviceKind, VirtualRiderModel } from "@/types/trainer";
+import { X, Plus } from "lucide-react";
+
+// History row being edited - FTP stays a string until saved
+interface FtpHistoryDraft extends Omit<FtpHistoryEntry, "ftp"> {
+  ftp: string;
+}
+
+const KNOWN_DEVICE_KIND_LABELS: Record<KnownDeviceKind, string> = {
+  trainer: "Trainer",
+  heart_rate_monitor: "HR monitor",
+};
 
 interface SettingsModalProps {
   onClose: () => void;
+  onStartFtpTest?: (protocol: FtpTestProtocol) => void;
 }
 
-export function SettingsModal({ onClose }: SettingsModalProps) {
+export function SettingsModal({ onClose, onStartFtpTest }: SettingsModalProps) {
   const [ftp, setFtp] = useFTP();
   const { user } = useAuth();
   const [inputValue, setInputValue] = useState(ftp.toString());
+  const [ftpHistory, setFtpHistory] = useFtpHistory();
+  const [historyDraft, setHistoryDraft] = useState<FtpHistoryDraft[]>(() =>
+    ftpHistory.map((entry) => ({ ...entry, ftp: entry.ftp.toString() }))
+  );
+  const [historyEdited, setHistoryEdited] = useState(false);
+  const [heartRateControl, setHeartRateControl] = useHeartRateControlSettings();
+  const [lthrValue, setLthrValue] = useState(heartRateControl.lthr?.toString() ?? "");
+  const [maxStepValue, setMaxStepValue] = useState(heartRateControl.maxStepWatts.toString());
+  const [ceilingValue, setCeilingValue] = useState(heartRateControl.ceilingPercentFTP.toString());
+  const [heartRateZones, setHeartRateZones] = useHeartRateZoneSettings();
+  const [zoneBasis, setZoneBasis] = useState<HeartRateZoneBasis>(heartRateZones.basis);
+  const [maxHrValue, setMaxHrValue] = useState(heartRateZones.maxHeartRate?.toString() ?? "");
+  const [virtualDevices, setVirtualDevices] = useVirtualDeviceSettings();
+  const [virtualEnabled, setVirtualEnabled] = useState(virtualDevices.enabled);
+  const [virtualModel, setVirtualModel] = useState<VirtualRiderModel>(virtualDevices.model);
+  const [powerMatch, setPowerMatch] = usePowerMatchSettings();
+  const [powerMatchEnabled, setPowerMatchEnabled] = useState(powerMatch.enabled);
+  const [smoothingValue, setSmoothingValue] = useState(powerMatch.smoothingSeconds.toString());
+  const [maxCorrectionValue, setMaxCorrectionValue] = useState(powerMatch.maxCorrectionPercent.toString());
+  const [knownDevices, setKnownDevices] = useKnownDevices();
+  const [devicesDraft, setDevicesDraft] = useState<KnownDevice[]>(knownDevices);
+  const [devicesEdited, setDevicesEdited] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -23,10 +67,120 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
       setError("Please enter a valid FTP between 50 and 500 watts");
       return;
     }
+
+    const lthr = lthrValue.trim() ? parseInt(lthrValue) : null;
+    if (lthr !== null && (isNaN(lthr) || lthr < 80 || lthr > 220)) {
+      setError("Please enter a valid LTHR between 80 and 220 bpm");
+      return;
+    }
+    const maxStepWatts = parseInt(maxStepValue);
+    if (isNaN(maxStepWatts) || maxStepWatts < 1 || maxStepWatts > 50) {
+      setError("Please enter an HR step limit between 1 and 50 watts");
+      return;
+    }
+    const ceilingPercentFTP = parseInt(ceilingValue);
+    if (isNaN(ceilingPercentFTP) || ceilingPercentFTP < 30 || ceilingPercentFTP > 150) {
+      setError("Please enter an HR power ceiling between 30 and 150% FTP");
+      return;
+    }
+
+    const smoothingSeconds = parseInt(smoothingValue);
+    if (isNaN(smoothingSeconds) || smoothingSeconds < 1 || smoothingSeconds > 60) {
+      setError("Please enter a power match smoothing between 1 and 60 seconds");
+      return;
+    }
+    const maxCorrectionPercent = parseInt(maxCorrectionValue);
+    if (isNaN(maxCorrectionPercent) || maxCorrectionPercent < 1 || maxCorrectionPercent > 25) {
+      setError("Please enter a power match correction limit between 1 and 25%");
+      return;
+    }
+
+    const maxHeartRate = maxHrValue.trim() ? parseInt(maxHrValue) : null;
+    if (maxHeartRate !== null && (isNaN(maxHeartRate) || maxHeartRate < 100 || maxHeartRate > 230)) {
+      setError("Please enter a valid max HR between 100 and 230 bpm");
+      return;
+    }
+
+    // Only write the history back when it was touched, so a list loaded
+    // after the modal opened isn't overwritten
+    let history = ftpHistory;
+    if (historyEdited) {
+      const dates = new Set<string>();
+      history = [];
+      for (const row of historyDraft) {
+        const rowFtp = parseInt(row.ftp);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(row.date) || isNaN(rowFtp) || rowFtp < 50 || rowFtp > 500) {
+          setError("Each FTP history entry needs a date and an FTP between 50 and 500 watts");
+          return;
+        }
+        if (dates.has(row.date)) {
+          setError(`FTP history has more than one entry on ${row.date}`);
+          return;
+        }
+        dates.add(row.date);
+        history.push({ ...row, ftp: rowFtp });
+      }
+    }
+    // A new FTP applies from today
+    if (value !== ftp) {
+      history = upsertFtpHistoryEntry(history, { date: getDateKey(new Date()), ftp: value, source: "manual" });
+    }
+
     setFtp(value);
+    if (history !== ftpHistory) {
+      setFtpHistory(history);
+    }
+    setHeartRateControl({ lthr, maxStepWatts, ceilingPercentFTP });
+    setHeartRateZones({ basis: zoneBasis, maxHeartRate });
+    setPowerMatch({ enabled: powerMatchEnabled, smoothingSeconds, maxCorrectionPercent });
+    setVirtualDevices({ enabled: virtualEnabled, model: virtualModel });
+    if (devicesEdited) {
+      // Apply to the current list, which may have picked up a connection
+      // since the modal opened
+      const drafts = new Map(devicesDraft.map((device) => [`${device.kind}:${device.id}`, device]));
+      const kept: KnownDevice[] = [];
+      for (const device of knownDevices) {
+        const draft = drafts.get(`${device.kind}:${device.id}`);
+        if (draft) {
+          kept.push({ ...device, nickname: draft.nickname?.trim() || null });
+        } else if (!devicesDraft.some((d) => d.id === device.id)) {
+          // Kept under its other kind (a trainer that also sends HR) keeps the permission
+          forgetPermittedDevice(device.id);
+        }
+      }
+      setKnownDevices(kept);
+    }
     onClose();
   };
 
+  const updateHistoryRow = (index: number, changes: Partial<FtpHistoryDraft>) => {
+    setHistoryDraft((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setHistoryEdited(true);
+    setError(null);
+  };
+
+  const removeHistoryRow = (index: number) => {
+    setHistoryDraft((prev) => prev.filter((_, i) => i !== index));
+    setHistoryEdited(true);
+    setError(null);
+  };
+
+  const addHistoryRow = () => {
+    setHistoryDraft((prev) => [...prev, { date: getDateKey(new Date()), ftp: inputValue, source: "manual" }]);
+    setHistoryEdited(true);
+    setError(null);
+  };
+
+  const updateDeviceNickname = (index: number, nickname: string) => {
+    setDevicesDraft((prev) => prev.map((device, i) => (i === index ? { ...device, nickname } : device)));
+    setDevicesEdited(true);
+  };
+
+  const removeDevice = (index: number) => {
+    setDevicesDraft((prev) => prev.filter((_, i) => i !== index));
+    setDevicesEdited(true);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       handleSave();
@@ -44,7 +198,7 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
       />
 
       {/* Modal */}
-      <div className="relative bg-card rounded-2xl shadow-xl w-full max-w-sm p-6">
+      <div className="relative bg-card rounded-2xl shadow-xl w-full max-w-sm max-h-[90vh] overflow-y-auto p-6">
         {/* Header */}
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-lg font-semibold">Settings</h2>
@@ -75,10 +229,281 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
               max={500}
               className="w-full px-4 py-3 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-lg tabular-nums"
             />
-            {error && (
-              <p className="text-sm text-destructive mt-2">{error}</p>
+          </div>
+
+          {/* Heart-rate zones - for time in zone */}
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+              Heart-rate zones
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="block text-xs text-muted-foreground mb-1">Based on</span>
+                <select
+                  value={zoneBasis}
+                  onChange={(e) => {
+                    setZoneBasis(e.target.value as HeartRateZoneBasis);
+                    setError(null);
+                  }}
+                  className="w-full px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm"
+                >
+                  <option value="lthr">LTHR</option>
+                  <option value="max_hr">Max HR</option>
+                </select>
+              </div>
+              <div>
+                <span className="block text-xs text-muted-foreground mb-1">Max HR (bpm)</span>
+                <input
+                  type="number"
+                  value={maxHrValue}
+                  onChange={(e) => {
+                    setMaxHrValue(e.target.value);
+                    setError(null);
+                  }}
+                  onKeyDown={handleKeyDown}
+                  placeholder="--"
+                  className="w-full px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm tabular-nums"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* FTP history - completed workouts use the FTP in effect on their date */}
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+              FTP history
+            </label>
+            <div className="space-y-2">
+              {historyDraft.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={row.date}
+                    onChange={(e) => updateHistoryRow(index, { date: e.target.value })}
+                    className="flex-1 min-w-0 px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm tabular-nums"
+                  />
+                  <input
+                    type="number"
+                    value={row.ftp}
+                    onChange={(e) => updateHistoryRow(index, { ftp: e.target.value })}
+                    onKeyDown={handleKeyDown}
+                    className="w-20 px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm tabular-nums"
+                  />
+                  <span className="w-8 text-xs text-muted-foreground">
+                    {row.source === "manual" ? "W" : row.source}
+                  </span>
+                  <button
+                    onClick={() => removeHistoryRow(index)}
+                    className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                    title="Delete entry"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={addHistoryRow}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add entry
+              </button>
+            </div>
+          </div>
+
+          {/* FTP tests - ridden in the player, which offers to save the result */}
+          {onStartFtpTest && (
+            <div>
+              <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+                Test your FTP
+              </label>
+              <div className="space-y-2">
+                {(Object.keys(FTP_TEST_PROTOCOLS) as FtpTestProtocol[]).map((protocol) => (
+                  <button
+                    key={protocol}
+                    onClick={() => onStartFtpTest(protocol)}
+                    className="w-full text-left px-3 py-2 bg-background rounded-xl hover:bg-muted transition-colors"
+                  >
+                    <span className="block text-sm font-medium">{FTP_TEST_PROTOCOLS[protocol].name}</span>
+                    <span className="block text-xs text-muted-foreground">{FTP_TEST_PROTOCOLS[protocol].description}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Heart-rate targets - closed-loop ERG for HR segments */}
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+              Heart-rate targets
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <span className="block text-xs text-muted-foreground mb-1">LTHR (bpm)</span>
+                <input
+                  type="number"
+                  value={lthrValue}
+                  onChange={(e) => {
+                    setLthrValue(e.target.value);
+                    setError(null);
+                  }}
+                  onKeyDown={handleKeyDown}
+                  placeholder="--"
+                  className="w-full px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm tabular-nums"
+                />
+              </div>
+              <div>
+                <span className="block text-xs text-muted-foreground mb-1">Max step (W)</span>
+                <input
+                  type="number"
+                  value={maxStepValue}
+                  onChange={(e) => {
+                    setMaxStepValue(e.target.value);
+                    setError(null);
+                  }}
+                  onKeyDown={handleKeyDown}
+                  className="w-full px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm tabular-nums"
+                />
+              </div>
+              <div>
+                <span className="block text-xs text-muted-foreground mb-1">Ceiling (% FTP)</span>
+                <input
+                  type="number"
+                  value={ceilingValue}
+                  onChange={(e) => {
+                    setCeilingValue(e.target.value);
+                    setError(null);
+                  }}
+                  onKeyDown={handleKeyDown}
+                  className="w-full px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm tabular-nums"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Power match - steer ERG from a paired power meter */}
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+              Power match
+            </label>
+            <label className="flex items-center gap-2 text-sm mb-2">
+              <input
+                type="checkbox"
+                checked={powerMatchEnabled}
+                onChange={(e) => setPowerMatchEnabled(e.target.checked)}
+                className="rounded"
+              />
+              Hold ERG targets on the power meter&apos;s reading
+            </label>
+            {powerMatchEnabled && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <span className="block text-xs text-muted-foreground mb-1">Smoothing (s)</span>
+                    <input
+                      type="number"
+                      value={smoothingValue}
+                      onChange={(e) => {
+                        setSmoothingValue(e.target.value);
+                        setError(null);
+                      }}
+                      onKeyDown={handleKeyDown}
+                      className="w-full px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm tabular-nums"
+                    />
+                  </div>
+                  <div>
+                    <span className="block text-xs text-muted-foreground mb-1">Max correction (%)</span>
+                    <input
+                      type="number"
+                      value={maxCorrectionValue}
+                      onChange={(e) => {
+                        setMaxCorrectionValue(e.target.value);
+                        setError(null);
+                      }}
+                      onKeyDown={handleKeyDown}
+                      className="w-full px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm tabular-nums"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Applies while a power meter is paired alongside the trainer.
+                </p>
+              </>
+            )}
+          </div>
+
+          {/* Remembered devices - renamed or forgotten here */}
+          {knownDevices.length > 0 && (
+            <div>
+              <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+                Devices
+              </label>
+              <div className="space-y-2">
+                {devicesDraft.map((device, index) => (
+                  <div key={`${device.kind}:${device.id}`} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <input
+                        type="text"
+                        value={device.nickname ?? ""}
+                        onChange={(e) => updateDeviceNickname(index, e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder={device.name}
+                        className="w-full px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm"
+                      />
+                      <span className="block text-xs text-muted-foreground mt-0.5 truncate">
+                        {KNOWN_DEVICE_KIND_LABELS[device.kind]} · last used {new Date(device.lastSeenAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => removeDevice(index)}
+                      className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                      title="Forget device"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Virtual devices - simulated trainer and HR monitor for testing */}
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+              Virtual devices
+            </label>
+            <label className="flex items-center gap-2 text-sm mb-2">
+              <input
+                type="checkbox"
+                checked={virtualEnabled}
+                onChange={(e) => setVirtualEnabled(e.target.checked)}
+                className="rounded"
+              />
+              Use a simulated trainer and HR monitor
+            </label>
+            {virtualEnabled && (
+              <>
+                <select
+                  value={virtualModel}
+                  onChange={(e) => setVirtualModel(e.target.value as VirtualRiderModel)}
+                  className="w-full px-3 py-2 bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 text-sm"
+                >
+                  {(Object.keys(VIRTUAL_RIDER_MODELS) as VirtualRiderModel[]).map((model) => (
+                    <option key={model} value={model}>
+                      {VIRTUAL_RIDER_MODELS[model].name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {VIRTUAL_RIDER_MODELS[virtualModel].description}. Rides are marked as simulated.
+                </p>
+              </>
             )}
           </div>
+
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
         </div>
 
         {/* Footer */}
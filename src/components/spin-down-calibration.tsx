@@ -0,0 +1,100 @@
+"use client";
+
+import { UseTrainerReturn } from "@/hooks/use-trainer";
+import { Gauge, CheckCircle, AlertTriangle, Loader2 } from "lucide-react";
+
+interface SpinDownCalibrationProps {
+  trainer: UseTrainerReturn;
+  disabled?: boolean; // calibrating mid-workout would fight ERG
+}
+
+export function SpinDownCalibration({ trainer, disabled }: SpinDownCalibrationProps) {
+  const { spinDown } = trainer;
+  const speed = trainer.metrics.speed;
+
+  if (spinDown.status === 'idle' || spinDown.status === 'requested') {
+    return (
+      <div className="py-2 border-b border-border">
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-sm font-medium">Spin-down calibration</div>
+            <div className="text-xs text-muted-foreground">
+              {spinDown.status === 'requested'
+                ? 'The trainer is asking to be calibrated'
+                : disabled
+                ? 'Pause the workout to calibrate'
+                : 'Warm up for 10 minutes first'}
+            </div>
+          </div>
+          <button
+            onClick={trainer.startSpinDown}
+            disabled={disabled}
+            className="px-3 py-1.5 text-xs border border-border rounded-lg hover:bg-accent transition-colors disabled:opacity-40 flex-shrink-0"
+          >
+            Calibrate
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-2 border-b border-border space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        {spinDown.status === 'success' ? (
+          <CheckCircle className="w-4 h-4 text-green-500" />
+        ) : spinDown.status === 'error' ? (
+          <AlertTriangle className="w-4 h-4 text-amber-500" />
+        ) : spinDown.status === 'starting' ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        ) : (
+          <Gauge className="w-4 h-4 text-primary" />
+        )}
+        <span>
+          {spinDown.status === 'starting' ? 'Starting calibration...' :
+           spinDown.status === 'speed_up' ? 'Speed up' :
+           spinDown.status === 'stop_pedaling' ? 'Stop pedalling' :
+           spinDown.status === 'success' ? 'Calibration complete' : 'Calibration failed'}
+        </span>
+      </div>
+
+      {spinDown.status === 'speed_up' && (
+        <div className="text-xs text-muted-foreground">
+          {spinDown.targetSpeedHigh !== null
+            ? `Pedal up past ${spinDown.targetSpeedHigh.toFixed(1)} km/h, then hold it until the trainer asks you to stop.`
+            : 'Pedal up to speed and hold it until the trainer asks you to stop.'}
+          <div className="mt-1 text-base font-semibold tabular-nums text-foreground">
+            {speed !== null ? `${speed.toFixed(1)} km/h` : '-- km/h'}
+          </div>
+        </div>
+      )}
+      {spinDown.status === 'stop_pedaling' && (
+        <div className="text-xs text-muted-foreground">
+          Stop pedalling and let the flywheel coast down on its own.
+        </div>
+      )}
+      {spinDown.status === 'error' && (
+        <div className="text-xs text-muted-foreground">
+          The trainer couldn&apos;t finish the spin-down. Check it&apos;s not in use by another app and try again.
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {spinDown.status === 'error' && (
+          <button
+            onClick={trainer.startSpinDown}
+            className="px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity"
+          >
+            Try again
+          </button>
+        )}
+        <button
+          onClick={trainer.cancelSpinDown}
+          className="px-3 py-1.5 text-xs border border-border rounded-lg hover:bg-accent transition-colors"
+        >
+          {spinDown.status === 'success' || spinDown.status === 'error' ? 'Done' : 'Cancel'}
+        </button>
+      </div>
+    </div>
+  );
+}
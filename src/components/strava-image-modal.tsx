@@ -18,6 +18,7 @@ interface StravaImageModalProps {
 const IMAGE_OPTIONS: { type: WorkoutImageType; label: string; icon: typeof Image; description: string }[] = [
   { type: "summary", label: "Summary", icon: BarChart3, description: "Duration, power, NP, TSS" },
   { type: "peaks", label: "Peak Power", icon: BarChart3, description: "Best efforts by duration" },
+  { type: "zones", label: "Zones", icon: BarChart3, description: "Time in power and HR zones" },
   { type: "logo", label: "App Logo", icon: Type, description: "BrowserTurbo branding" },
   { type: "none", label: "No Image", icon: Ban, description: "Upload without image" },
 ];
@@ -99,7 +100,7 @@ export function StravaImageModal({
             <label className="text-sm font-medium text-muted-foreground mb-2 block">
               Choose an image to share
             </label>
-            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
               {IMAGE_OPTIONS.map((option) => (
                 <button
                   key={option.type}
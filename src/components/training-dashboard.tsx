@@ -0,0 +1,288 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Workout, POWER_ZONES, HEART_RATE_ZONES } from "@/types/workout";
+import { calculateTrainingLoad } from "@/lib/training-load";
+import { buildPowerCurve, fitCriticalPower, formatEffortDuration } from "@/lib/power-curve";
+import { upsertFtpHistoryEntry, getWorkoutFtp } from "@/lib/ftp-history";
+import {
+  aggregateWeeklyZoneTimes,
+  calculatePowerZoneTimes,
+  calculateHeartRateZoneTimes,
+  POWER_ZONE_COUNT,
+  HEART_RATE_ZONE_COUNT,
+} from "@/lib/zones";
+import { getDateKey, formatDuration } from "@/lib/workout-utils";
+import { useFTP, useFtpHistory } from "@/hooks/use-ftp";
+import { useHeartRateZoneBounds } from "@/hooks/use-heart-rate-control";
+import { TrainingLoadChart } from "./training-load-chart";
+import { PowerCurveChart } from "./power-curve-chart";
+import { ArrowLeft, Activity, TrendingUp, Battery, CheckCircle, Save } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TrainingDashboardProps {
+  workouts: Workout[];
+  onBack: () => void;
+}
+
+const RANGES = [
+  { label: "6W", days: 42 },
+  { label: "3M", days: 90 },
+  { label: "1Y", days: 365 },
+  { label: "All", days: null },
+] as const;
+
+// Best efforts listed under the power curve
+const HIGHLIGHT_DURATIONS = [5, 60, 300, 1200, 3600];
+
+const ZONE_WEEKS = 8;
+
+export function TrainingDashboard({ workouts, onBack }: TrainingDashboardProps) {
+  const [rangeDays, setRangeDays] = useState<number | null>(90);
+
+  // Load is computed over the whole history so the range only trims the view
+  const trainingLoad = useMemo(() => calculateTrainingLoad(workouts), [workouts]);
+  const visibleDays = rangeDays ? trainingLoad.slice(-rangeDays) : trainingLoad;
+  const today = trainingLoad[trainingLoad.length - 1];
+
+  const [ftp, setFtp] = useFTP();
+  const [ftpHistory, setFtpHistory] = useFtpHistory();
+  const [ftpSaved, setFtpSaved] = useState(false);
+
+  const powerCurves = useMemo(() => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    return {
+      allTime: buildPowerCurve(workouts),
+      last90: buildPowerCurve(workouts, daysAgo(90)),
+      last42: buildPowerCurve(workouts, daysAgo(42)),
+    };
+  }, [workouts]);
+  // Fitted to recent rides so the suggestion tracks current form
+  const criticalPower = useMemo(() => fitCriticalPower(powerCurves.last90), [powerCurves]);
+
+  // Weekly time in zone - rides saved before zone times were recorded get
+  // them worked out from their data
+  const [zoneType, setZoneType] = useState<"power" | "heart_rate">("power");
+  const heartRateZoneBounds = useHeartRateZoneBounds();
+  const weeklyZones = useMemo(() => {
+    if (zoneType === "power") {
+      return aggregateWeeklyZoneTimes(workouts, (workout) => {
+        const completion = workout.completion!;
+        if (completion.summary.powerZoneTimes) return completion.summary.powerZoneTimes;
+        if (!completion.recordedData.some((point) => point.actualPower !== null)) return null;
+        return calculatePowerZoneTimes(completion.recordedData, getWorkoutFtp(workout, ftpHistory, ftp));
+      }, POWER_ZONE_COUNT, ZONE_WEEKS);
+    }
+    return aggregateWeeklyZoneTimes(workouts, (workout) => {
+      const completion = workout.completion!;
+      if (completion.summary.heartRateZoneTimes) return completion.summary.heartRateZoneTimes;
+      return heartRateZoneBounds ? calculateHeartRateZoneTimes(completion.recordedData, heartRateZoneBounds) : null;
+    }, HEART_RATE_ZONE_COUNT, ZONE_WEEKS);
+  }, [workouts, zoneType, ftpHistory, ftp, heartRateZoneBounds]);
+  const zoneDefinitions = Object.values(zoneType === "power" ? POWER_ZONES : HEART_RATE_ZONES);
+  const longestWeek = Math.max(1, ...weeklyZones.map((week) => week.times.reduce((a, b) => a + b, 0)));
+
+  const handleSaveSuggestedFtp = () => {
+    if (!criticalPower) return;
+    setFtp(criticalPower.suggestedFtp);
+    setFtpHistory(upsertFtpHistoryEntry(ftpHistory, {
+      date: getDateKey(new Date()),
+      ftp: criticalPower.suggestedFtp,
+      source: "model",
+    }));
+    setFtpSaved(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <h1 className="text-lg sm:text-xl font-semibold tracking-tight">Training Load</h1>
+        <div className="w-14" />
+      </div>
+
+      {!today ? (
+        <p className="text-sm text-muted-foreground text-center py-12">
+          Complete a workout to start tracking fitness, fatigue and form.
+        </p>
+      ) : (
+        <>
+          {/* Today's values */}
+          <div className="grid grid-cols-3 gap-2 sm:gap-4">
+            <div className="bg-card rounded-2xl p-3 sm:p-4 text-center shadow-sm">
+              <TrendingUp className="w-4 h-4 sm:w-5 sm:h-5 mx-auto mb-1.5 sm:mb-2 text-blue-600" />
+              <div className="text-lg sm:text-2xl font-semibold tabular-nums">{Math.round(today.ctl)}</div>
+              <div className="text-[10px] sm:text-xs text-muted-foreground mt-1">Fitness (CTL)</div>
+            </div>
+            <div className="bg-card rounded-2xl p-3 sm:p-4 text-center shadow-sm">
+              <Activity className="w-4 h-4 sm:w-5 sm:h-5 mx-auto mb-1.5 sm:mb-2 text-[#c44da8]" />
+              <div className="text-lg sm:text-2xl font-semibold tabular-nums">{Math.round(today.atl)}</div>
+              <div className="text-[10px] sm:text-xs text-muted-foreground mt-1">Fatigue (ATL)</div>
+            </div>
+            <div className="bg-card rounded-2xl p-3 sm:p-4 text-center shadow-sm">
+              <Battery className="w-4 h-4 sm:w-5 sm:h-5 mx-auto mb-1.5 sm:mb-2 text-[#e9a23b]" />
+              <div className="text-lg sm:text-2xl font-semibold tabular-nums">{Math.round(today.tsb)}</div>
+              <div className="text-[10px] sm:text-xs text-muted-foreground mt-1">Form (TSB)</div>
+            </div>
+          </div>
+
+          {/* Chart */}
+          <div className="bg-card rounded-2xl p-3 sm:p-6 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+                Performance Management
+              </h2>
+              <div className="flex gap-1">
+                {RANGES.map((range) => (
+                  <button
+                    key={range.label}
+                    onClick={() => setRangeDays(range.days)}
+                    className={cn(
+                      "px-2.5 py-1 text-xs rounded-lg transition-colors",
+                      rangeDays === range.days
+                        ? "bg-primary text-primary-foreground"
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {range.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <TrainingLoadChart days={visibleDays} />
+          </div>
+
+          {/* Weekly time in zone */}
+          <div className="bg-card rounded-2xl p-3 sm:p-6 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+                Weekly Time in Zones
+              </h2>
+              <div className="flex gap-1">
+                {([["power", "Power"], ["heart_rate", "HR"]] as const).map(([type, label]) => (
+                  <button
+                    key={type}
+                    onClick={() => setZoneType(type)}
+                    className={cn(
+                      "px-2.5 py-1 text-xs rounded-lg transition-colors",
+                      zoneType === type
+                        ? "bg-primary text-primary-foreground"
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              {weeklyZones.map((week) => {
+                const total = week.times.reduce((a, b) => a + b, 0);
+                const [year, month, day] = week.weekStart.split("-").map(Number);
+                return (
+                  <div key={week.weekStart} className="flex items-center gap-3 text-xs">
+                    <span className="w-14 text-muted-foreground tabular-nums">
+                      {new Date(year, month - 1, day).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                    </span>
+                    <div className="flex-1 h-4 flex">
+                      {week.times.map((seconds, i) => seconds > 0 && (
+                        <div
+                          key={i}
+                          className="h-full first:rounded-l-full last:rounded-r-full"
+                          style={{ width: `${(seconds / longestWeek) * 100}%`, backgroundColor: zoneDefinitions[i].color }}
+                          title={`Z${i + 1} ${zoneDefinitions[i].name}: ${formatDuration(seconds)}`}
+                        />
+                      ))}
+                    </div>
+                    <span className="w-14 text-right tabular-nums">{total > 0 ? formatDuration(total) : "--"}</span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex flex-wrap items-center justify-center gap-3 mt-4 text-xs text-muted-foreground">
+              {zoneDefinitions.map((zone, i) => (
+                <div key={zone.name} className="flex items-center gap-1.5">
+                  <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: zone.color }} />
+                  <span>Z{i + 1} {zone.name}</span>
+                </div>
+              ))}
+            </div>
+            {zoneType === "heart_rate" && !heartRateZoneBounds && (
+              <p className="text-xs text-muted-foreground text-center mt-3">
+                Set your LTHR or max HR in Settings to see heart-rate zones for older rides.
+              </p>
+            )}
+          </div>
+
+          {/* Power curve */}
+          {powerCurves.allTime.length > 0 && (
+            <div className="bg-card rounded-2xl p-3 sm:p-6 shadow-sm">
+              <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+                Power Curve
+              </h2>
+              <PowerCurveChart
+                series={[
+                  { label: "All time", color: "#6b7a8a", points: powerCurves.allTime },
+                  { label: "90 days", color: "#2a9d8f", points: powerCurves.last90 },
+                  { label: "42 days", color: "#e9a23b", points: powerCurves.last42 },
+                ]}
+              />
+
+              {/* All-time best efforts */}
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 mt-6">
+                {powerCurves.allTime
+                  .filter((effort) => HIGHLIGHT_DURATIONS.includes(effort.duration))
+                  .map((effort) => (
+                    <div key={effort.duration} className="bg-background rounded-lg px-3 py-2 text-center">
+                      <div className="text-lg font-semibold tabular-nums">
+                        {effort.power}
+                        <span className="text-xs font-normal text-muted-foreground">W</span>
+                      </div>
+                      <div className="text-[10px] text-muted-foreground">{formatEffortDuration(effort.duration)} best</div>
+                      <div className="text-[10px] text-muted-foreground/70 truncate" title={effort.workoutName}>
+                        {new Date(effort.date).toLocaleDateString()}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+
+              {/* Critical power model */}
+              {criticalPower && (
+                <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mt-6 pt-6 border-t border-border">
+                  <div className="flex gap-6 text-center sm:text-left">
+                    <div>
+                      <div className="text-lg font-semibold tabular-nums">{criticalPower.cp}W</div>
+                      <div className="text-[10px] sm:text-xs text-muted-foreground">Critical power</div>
+                    </div>
+                    <div>
+                      <div className="text-lg font-semibold tabular-nums">{(criticalPower.wPrime / 1000).toFixed(1)} kJ</div>
+                      <div className="text-[10px] sm:text-xs text-muted-foreground">W&prime;</div>
+                    </div>
+                    <div>
+                      <div className="text-lg font-semibold tabular-nums">{criticalPower.suggestedFtp}W</div>
+                      <div className="text-[10px] sm:text-xs text-muted-foreground">Suggested FTP (now {ftp}W)</div>
+                    </div>
+                  </div>
+                  <button
+                    onClick={handleSaveSuggestedFtp}
+                    disabled={ftpSaved || criticalPower.suggestedFtp === ftp}
+                    className="flex items-center gap-2 px-4 py-2 text-sm bg-primary text-primary-foreground rounded-xl hover:opacity-90 transition-opacity font-medium disabled:opacity-40"
+                  >
+                    {ftpSaved ? <CheckCircle className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+                    {ftpSaved ? "FTP saved" : "Use as FTP"}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
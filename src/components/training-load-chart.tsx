@@ -0,0 +1,182 @@
+"use client";
+
+import { useRef, useEffect, useState } from "react";
+import { TrainingLoadDay } from "@/lib/training-load";
+
+interface TrainingLoadChartProps {
+  days: TrainingLoadDay[];
+  height?: number;
+}
+
+const SERIES = [
+  { key: "ctl", label: "Fitness (CTL)", color: "#2563eb" },
+  { key: "atl", label: "Fatigue (ATL)", color: "#c44da8" },
+  { key: "tsb", label: "Form (TSB)", color: "#e9a23b" },
+] as const;
+
+export function TrainingLoadChart({ days, height = 260 }: TrainingLoadChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hovered, setHovered] = useState<{ day: TrainingLoadDay; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) {
+        setWidth(containerRef.current.clientWidth);
+      }
+    };
+
+    updateWidth();
+    window.addEventListener("resize", updateWidth);
+    return () => window.removeEventListener("resize", updateWidth);
+  }, []);
+
+  // Shared scale - TSB dips below zero, daily TSS bars sit on zero
+  const maxValue = Math.max(50, ...days.map((d) => Math.max(d.tss, d.ctl, d.atl, d.tsb)));
+  const minValue = Math.min(0, ...days.map((d) => d.tsb));
+  const graphHeight = height - 20; // Leave space for date labels
+  const range = maxValue - minValue;
+  const valueToY = (value: number) => ((maxValue - value) / range) * (graphHeight - 10) + 5;
+  const dayWidth = days.length > 0 ? width / days.length : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0 || days.length === 0) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Daily TSS bars
+    ctx.fillStyle = "rgba(107, 122, 138, 0.25)";
+    days.forEach((day, i) => {
+      if (day.tss <= 0) return;
+      const y = valueToY(day.tss);
+      ctx.fillRect(i * dayWidth + dayWidth * 0.15, y, Math.max(1, dayWidth * 0.7), valueToY(0) - y);
+    });
+
+    // Zero line
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.15)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, valueToY(0));
+    ctx.lineTo(width, valueToY(0));
+    ctx.stroke();
+
+    // Load lines
+    for (const series of SERIES) {
+      ctx.strokeStyle = series.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      days.forEach((day, i) => {
+        const x = i * dayWidth + dayWidth / 2;
+        const y = valueToY(day[series.key]);
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+    }
+
+    // Hovered day
+    if (hovered) {
+      const index = days.indexOf(hovered.day);
+      const x = index * dayWidth + dayWidth / 2;
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.3)";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, graphHeight);
+      ctx.stroke();
+    }
+
+    // Date axis
+    ctx.fillStyle = "rgba(0, 0, 0, 0.4)";
+    ctx.font = "11px system-ui, sans-serif";
+    const markers = Math.min(5, days.length - 1);
+    for (let m = 0; m <= markers; m++) {
+      const index = markers === 0 ? 0 : Math.round((m / markers) * (days.length - 1));
+      const label = formatDayLabel(days[index].date);
+      const labelWidth = ctx.measureText(label).width;
+      const x = index * dayWidth + dayWidth / 2;
+      ctx.fillText(label, Math.max(0, Math.min(x - labelWidth / 2, width - labelWidth)), height - 5);
+    }
+
+    // Value scale
+    ctx.fillStyle = "rgba(0, 0, 0, 0.35)";
+    ctx.font = "10px system-ui, sans-serif";
+    ctx.fillText(`${Math.round(maxValue)}`, 4, 12);
+    if (minValue < 0) {
+      ctx.fillText(`${Math.round(minValue)}`, 4, graphHeight - 3);
+    }
+  }, [days, width, height, hovered]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || days.length === 0) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const index = Math.max(0, Math.min(days.length - 1, Math.floor(x / dayWidth)));
+    setHovered({ day: days[index], x, y: e.clientY - rect.top });
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHovered(null)}
+        className="w-full cursor-crosshair"
+      />
+
+      {/* Tooltip */}
+      {hovered && (
+        <div
+          className="absolute z-10 bg-popover border border-border rounded-lg shadow-lg p-3 pointer-events-none"
+          style={{
+            left: Math.min(hovered.x + 10, width - 170),
+            top: Math.max(hovered.y - 90, 0),
+          }}
+        >
+          <div className="font-medium">{formatDayLabel(hovered.day.date, true)}</div>
+          <div className="text-sm text-muted-foreground space-y-0.5 mt-1 tabular-nums">
+            <div>TSS: {Math.round(hovered.day.tss)}</div>
+            <div>Fitness: {Math.round(hovered.day.ctl)}</div>
+            <div>Fatigue: {Math.round(hovered.day.atl)}</div>
+            <div>Form: {Math.round(hovered.day.tsb)}</div>
+          </div>
+        </div>
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center justify-center gap-4 mt-4 text-xs text-muted-foreground">
+        {SERIES.map((series) => (
+          <div key={series.key} className="flex items-center gap-2">
+            <div className="w-6 h-0.5 rounded" style={{ backgroundColor: series.color }} />
+            <span>{series.label}</span>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded-sm bg-[rgba(107,122,138,0.25)]" />
+          <span>Daily TSS</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatDayLabel(date: string, withYear = false): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    ...(withYear ? { year: "numeric" } : {}),
+  });
+}
@@ -7,6 +7,8 @@ import { useFTP } from "@/hooks/use-ftp";
 import { Upload, Image, FileText, Loader2, Send } from "lucide-react";
 import { parseZwoFile } from "@/lib/parsers/zwo-parser";
 import { parseFitFile } from "@/lib/parsers/fit-parser";
+import { parseErgMrcFile } from "@/lib/parsers/erg-mrc-parser";
+import { parseGpxFile } from "@/lib/parsers/gpx-parser";
 
 interface WorkoutCreatorProps {
   onWorkoutCreated: (workout: Workout) => void;
@@ -103,8 +105,14 @@ export function WorkoutCreator({ onWorkoutCreated }: WorkoutCreatorProps) {
       } else if (extension === "fit") {
         const buffer = await file.arrayBuffer();
         workout = await parseFitFile(buffer, ftp);
+      } else if (extension === "erg" || extension === "mrc") {
+        const text = await file.text();
+        workout = parseErgMrcFile(text, ftp);
+      } else if (extension === "gpx") {
+        const text = await file.text();
+        workout = parseGpxFile(text, ftp);
       } else {
-        setError("Unsupported file format. Please upload a .zwo or .fit file.");
+        setError("Unsupported file format. Please upload a .zwo, .fit, .erg, .mrc or .gpx file.");
         return;
       }
 
@@ -112,7 +120,11 @@ export function WorkoutCreator({ onWorkoutCreated }: WorkoutCreatorProps) {
         onWorkoutCreated(workout);
       }
     } catch (err) {
-      setError("Failed to parse workout file. Please check the file format.");
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to parse workout file. Please check the file format."
+      );
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -262,7 +274,7 @@ export function WorkoutCreator({ onWorkoutCreated }: WorkoutCreatorProps) {
             className="flex-1 flex items-center justify-center gap-2 py-3 text-sm text-muted-foreground bg-card rounded-xl hover:bg-accent transition-colors disabled:opacity-40 shadow-sm"
           >
             <FileText className="w-4 h-4" />
-            <span>.zwo / .fit</span>
+            <span>.zwo / .fit / .erg / .mrc / .gpx</span>
           </button>
           <button
             onClick={() => imageInputRef.current?.click()}
@@ -278,7 +290,7 @@ export function WorkoutCreator({ onWorkoutCreated }: WorkoutCreatorProps) {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".zwo,.fit"
+          accept=".zwo,.fit,.erg,.mrc,.gpx"
           onChange={handleFileUpload}
           className="hidden"
         />
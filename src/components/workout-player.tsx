@@ -2,22 +2,57 @@
 
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { Workout, WorkoutCompletion, CompletedWorkoutSummary, getZoneColor } from "@/types/workout";
-import { TrainerConnectionState, ControlMode, RecordedDataPoint } from "@/types/trainer";
-import { downsampleRecordedData, calculateWorkoutSummary } from "@/lib/workout-storage";
+import {
+  TrainerConnectionState,
+  ControlMode,
+  RecordedDataPoint,
+  PowerSource,
+  CadenceSource,
+  HeartRateSource,
+  PlayerStatus,
+} from "@/types/trainer";
+import { createWorkoutCompletion } from "@/lib/workout-storage";
+import { ActiveRide, saveActiveRideInfo, saveActiveRideProgress, clearActiveRide } from "@/lib/ride-recovery";
 import { useTrainer } from "@/hooks/use-trainer";
-import { useWorkoutPlayer } from "@/hooks/use-workout-player";
+import { useWorkoutPlayer, ReconnectingMetrics } from "@/hooks/use-workout-player";
 import { useHeartRateMonitor } from "@/hooks/use-heart-rate-monitor";
-import { useFTP } from "@/hooks/use-ftp";
-import { useStrava, PendingStravaUpload } from "@/hooks/use-strava";
+import { useVirtualDeviceSettings, useVirtualDevices } from "@/hooks/use-virtual-devices";
+import { useSensor, useSensorSources } from "@/hooks/use-sensors";
+import { usePowerMatch, usePowerMatchSettings } from "@/hooks/use-power-match";
+import { useHeartRateControlSettings, useHeartRateZoneBounds } from "@/hooks/use-heart-rate-control";
+import { useFTP, useFtpHistory } from "@/hooks/use-ftp";
+import { useStrava, PendingStravaUpload, StravaUploadDataType } from "@/hooks/use-strava";
 import { PowerGraph } from "./power-graph";
+import { ElevationProfile } from "./elevation-profile";
 import { StravaConnectModal } from "./strava-connect-modal";
+import { SensorConnectionRow } from "./sensor-connection-row";
+import { SpinDownCalibration } from "./spin-down-calibration";
 import { generateTCX, downloadTCX } from "@/lib/tcx-export";
+import {
+  POWER_SOURCE_LABELS,
+  CADENCE_SOURCE_LABELS,
+  HEART_RATE_SOURCE_LABELS,
+  combineSensorMetrics,
+} from "@/lib/sensor-sources";
+import { generateFIT, encodeFITBase64 } from "@/lib/fit-export";
 import {
   formatDuration,
   getSegmentTypeName,
   getPowerAsPercentFTP,
   expandRepeatedSegments,
+  getBlockRanges,
+  formatHeartRateTarget,
+  getDateKey,
 } from "@/lib/workout-utils";
+import {
+  FTP_TEST_PROTOCOLS,
+  FtpTestResult,
+  detectTestFailure,
+  estimateFtpFromTest,
+} from "@/lib/ftp-tests";
+import { upsertFtpHistoryEntry } from "@/lib/ftp-history";
+import { canConnectWithoutChooser } from "@/lib/ble-reconnect";
+import { getKnownDeviceName } from "@/lib/known-devices";
 import {
   Play,
   Pause,
@@ -44,17 +79,25 @@ import {
   Trash2,
   Minus,
   Plus,
+  RotateCw,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+// How often a ride in progress is saved while nothing else changes
+const RIDE_SAVE_INTERVAL_MS = 5000;
+
 interface WorkoutPlayerProps {
   workout: Workout;
   onExit: () => void;
   onWorkoutComplete?: (completion: WorkoutCompletion) => void;
+  resumeRide?: ActiveRide; // ride recovered after a crash or reload
 }
 
-export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPlayerProps) {
-  const [ftp] = useFTP();
+export function WorkoutPlayer({ workout, onExit, onWorkoutComplete, resumeRide }: WorkoutPlayerProps) {
+  const [savedFtp, setFtp] = useFTP();
+  // A resumed ride keeps the FTP its targets were worked out from
+  const ftp = resumeRide?.ftp ?? savedFtp;
+  const [ftpHistory, setFtpHistory] = useFtpHistory();
   const [showExitConfirm, setShowExitConfirm] = useState(false);
   const [showConnectivity, setShowConnectivity] = useState(false);
   const connectivityTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -69,57 +112,230 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
   const [pendingUploadData, setPendingUploadData] = useState<PendingStravaUpload | null>(null);
   const [workoutSummary, setWorkoutSummary] = useState<CompletedWorkoutSummary | null>(null);
   const [showAutoPauseNotice, setShowAutoPauseNotice] = useState(false);
-  const workoutStartTimeRef = useRef<Date>(new Date());
+  const [trainerNotice, setTrainerNotice] = useState<string | null>(null);
+  const handledMachineStatusRef = useRef<number | null>(null);
+  const [ftpTestResult, setFtpTestResult] = useState<FtpTestResult | null>(null);
+  const [ftpTestFailed, setFtpTestFailed] = useState(false);
+  const [showTestFailurePrompt, setShowTestFailurePrompt] = useState(false);
+  const testCarryOnFromRef = useRef(0); // elapsed seconds the rider chose to carry on from
+  const [ftpTestSaved, setFtpTestSaved] = useState(false);
+  const workoutStartTimeRef = useRef<Date>(resumeRide ? new Date(resumeRide.startedAt) : new Date());
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
 
   // Strava hook
   const strava = useStrava();
 
-  // Trainer hook
-  const trainer = useTrainer();
-
-  // HR Monitor hook
-  const hrMonitor = useHeartRateMonitor();
-
-  // Combined heart rate - prefer HR monitor, fallback to trainer
-  const currentHeartRate = hrMonitor.heartRate ?? trainer.metrics.heartRate;
-
-  // Combined metrics with HR monitor data - memoized to prevent unnecessary effect runs
-  const combinedMetrics = useMemo(() => ({
-    ...trainer.metrics,
-    heartRate: currentHeartRate,
-  }), [trainer.metrics, currentHeartRate]);
+  // Trainer and HR monitor - virtual devices stand in when enabled in settings
+  const [virtualDeviceSettings] = useVirtualDeviceSettings();
+  const virtualDevices = useVirtualDevices(virtualDeviceSettings.model, ftp);
+  const bluetoothTrainer = useTrainer({ autoConnect: !virtualDeviceSettings.enabled });
+  const bluetoothHrMonitor = useHeartRateMonitor({ autoConnect: !virtualDeviceSettings.enabled });
+  const trainer = virtualDeviceSettings.enabled ? virtualDevices.trainer : bluetoothTrainer;
+  const hrMonitor = virtualDeviceSettings.enabled ? virtualDevices.heartRateMonitor : bluetoothHrMonitor;
+  // Remembered devices get a one-tap connect where the browser can reach them
+  // without the chooser
+  const knownTrainer = canConnectWithoutChooser() ? trainer.knownDevices[0] : undefined;
+  const knownHrMonitor = canConnectWithoutChooser() ? hrMonitor.knownDevices[0] : undefined;
+  const isTrainerReconnecting = trainer.connectionState === 'reconnecting';
+  const isHrMonitorReconnecting = hrMonitor.connectionState === 'reconnecting';
+  const isReconnecting = isTrainerReconnecting || isHrMonitorReconnecting;
+  const isUsingVirtualDevices = virtualDeviceSettings.enabled &&
+    (trainer.connectionState === 'connected' || hrMonitor.connectionState === 'connected');
+  const [isSimulatedRide, setIsSimulatedRide] = useState(resumeRide?.simulated ?? false);
+  const [heartRateControl] = useHeartRateControlSettings();
+  const heartRateZoneBounds = useHeartRateZoneBounds();
+
+  // Separate power meter and cadence sensor, each metric read from its chosen source
+  const powerMeter = useSensor("power_meter");
+  const speedCadenceSensor = useSensor("speed_cadence");
+  const [sensorSources, setSensorSources] = useSensorSources();
+
+  // Combined metrics - memoized to prevent unnecessary effect runs
+  const combinedMetrics = useMemo(() => combineSensorMetrics(sensorSources, {
+    trainer: trainer.metrics,
+    powerMeter: powerMeter.metrics,
+    speedCadence: speedCadenceSensor.metrics,
+    heartRateMonitor: hrMonitor.heartRate,
+  }), [sensorSources, trainer.metrics, powerMeter.metrics, speedCadenceSensor.metrics, hrMonitor.heartRate]);
+  const currentHeartRate = combinedMetrics.heartRate;
+
+  // Metrics left without data by a reconnecting device - another source
+  // filling in keeps the metric recorded
+  const reconnectingMetrics = useMemo<ReconnectingMetrics>(() => ({
+    power: isTrainerReconnecting && combinedMetrics.power === null,
+    cadence: isTrainerReconnecting && combinedMetrics.cadence === null,
+    heartRate: (isHrMonitorReconnecting || (isTrainerReconnecting && sensorSources.heartRate === 'trainer')) &&
+      combinedMetrics.heartRate === null,
+  }), [isTrainerReconnecting, isHrMonitorReconnecting, sensorSources.heartRate,
+    combinedMetrics.power, combinedMetrics.cadence, combinedMetrics.heartRate]);
+
+  // Power match - ERG targets corrected so the power meter reads them
+  const [powerMatchSettings] = usePowerMatchSettings();
+  const isTrainerConnected = trainer.connectionState === 'connected';
+  const powerMatch = usePowerMatch({
+    settings: powerMatchSettings,
+    trainerPower: trainer.metrics.power,
+    meterPower: powerMeter.connectionState === 'connected' ? powerMeter.metrics.power : null,
+    setTargetPower: isTrainerConnected ? trainer.setTargetPower : undefined,
+    setResistanceMode: isTrainerConnected ? trainer.setResistanceMode : undefined,
+    setSimulation: isTrainerConnected ? trainer.setSimulation : undefined,
+  });
 
   // Autopause handler
   const handleAutoPause = useCallback(() => {
     setShowAutoPauseNotice(true);
   }, []);
 
+  // Ride in progress saved to IndexedDB - a resumed ride already has its samples there
+  const recordingStartedRef = useRef(!!resumeRide);
+  const savedSampleCountRef = useRef(resumeRide?.recordedData.length ?? 0);
+  const lastRideSaveRef = useRef<{ at: number; status: PlayerStatus } | null>(null);
+
   // Player hook
   const player = useWorkoutPlayer({
     segments: workout.segments,
     ftp,
+    route: workout.route,
     onSegmentChange: (index, targetWatts) => {
       console.log(`Segment ${index}: ${targetWatts}W`);
     },
     onWorkoutComplete: (recordedData) => {
       // Create completion object with summary and downsampled data
-      const summary = calculateWorkoutSummary(recordedData, ftp);
-      setWorkoutSummary(summary); // Store locally for display
-      const completion: WorkoutCompletion = {
-        completedAt: new Date().toISOString(),
-        startedAt: workoutStartTimeRef.current.toISOString(),
-        summary,
-        recordedData: downsampleRecordedData(recordedData, 5),
-      };
-      onWorkoutComplete?.(completion);
+      const completion = createWorkoutCompletion(
+        workout.segments,
+        recordedData,
+        workoutStartTimeRef.current.toISOString(),
+        ftp,
+        heartRateZoneBounds,
+        heartRateControl.lthr
+      );
+      setWorkoutSummary(completion.summary); // Store locally for display
+      if (workout.ftpTest) {
+        setFtpTestResult(
+          estimateFtpFromTest(workout.ftpTest, expandRepeatedSegments(workout.segments), recordedData)
+        );
+      }
+      clearActiveRide().catch((err) => {
+        console.error('Failed to clear recovered ride:', err);
+      });
+      recordingStartedRef.current = false;
+      savedSampleCountRef.current = 0;
+      onWorkoutComplete?.(isSimulatedRide ? { ...completion, simulated: true } : completion);
     },
-    setTargetPower: trainer.connectionState === 'connected' ? trainer.setTargetPower : undefined,
-    setResistanceMode: trainer.connectionState === 'connected' ? trainer.setResistanceMode : undefined,
+    setTargetPower: powerMatch.setTargetPower,
+    setResistanceMode: powerMatch.setResistanceMode,
+    setSimulation: powerMatch.setSimulation,
     metrics: combinedMetrics,
+    heartRateControl,
     onAutoPause: handleAutoPause,
+    resume: resumeRide,
+    reconnecting: reconnectingMetrics,
   });
 
+  // Keep the ride in IndexedDB as it goes so a crash or reload can resume it.
+  // The fixed details are written when recording starts (and again if the
+  // ride turns out to be simulated)
+  const isRecording = player.playerState.status === 'playing' || player.playerState.status === 'paused';
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const restart = !recordingStartedRef.current;
+    recordingStartedRef.current = true;
+    saveActiveRideInfo({
+      workout,
+      startedAt: workoutStartTimeRef.current.toISOString(),
+      ftp,
+      ...(isSimulatedRide ? { simulated: true } : {}),
+    }, restart).catch((err) => {
+      console.error('Failed to save ride in progress:', err);
+    });
+  }, [isRecording, workout, ftp, isSimulatedRide]);
+
+  // Progress and the samples recorded since the last save go in every few
+  // seconds, and straight away when the ride pauses or resumes
+  useEffect(() => {
+    const status = player.playerState.status;
+    if (status !== 'playing' && status !== 'paused') return;
+
+    const now = Date.now();
+    const lastSave = lastRideSaveRef.current;
+    if (lastSave && lastSave.status === status && now - lastSave.at < RIDE_SAVE_INTERVAL_MS) return;
+    lastRideSaveRef.current = { at: now, status };
+
+    const newSamples = player.recordedData.slice(savedSampleCountRef.current);
+    savedSampleCountRef.current = player.recordedData.length;
+
+    saveActiveRideProgress({
+      updatedAt: new Date(now).toISOString(),
+      playerState: player.playerState,
+      virtualDistance: player.virtualDistance,
+      intensityOffset: player.intensityOffset,
+    }, newSamples).catch((err) => {
+      console.error('Failed to save ride in progress:', err);
+    });
+  }, [
+    player.playerState,
+    player.recordedData,
+    player.virtualDistance,
+    player.intensityOffset,
+  ]);
+
+  // A ride counts as simulated once virtual devices feed it any data
+  useEffect(() => {
+    if (isUsingVirtualDevices && player.playerState.status === 'playing') {
+      setIsSimulatedRide(true);
+    }
+  }, [isUsingVirtualDevices, player.playerState.status]);
+
+  // The trainer stopping or pausing itself (its own button, a safety key)
+  // pauses the workout too. Each status event is acted on once
+  useEffect(() => {
+    const status = trainer.machineStatus;
+    if (!status || handledMachineStatusRef.current === status.timestamp) return;
+    handledMachineStatusRef.current = status.timestamp;
+
+    if ((status.event === 'stopped' || status.event === 'paused') && player.playerState.status === 'playing') {
+      player.pause();
+      setTrainerNotice(`Paused - the trainer ${status.event === 'stopped' ? 'stopped' : 'paused'} the workout`);
+    } else if (status.event === 'started') {
+      setTrainerNotice(null);
+    }
+  }, [trainer.machineStatus, player]);
+
+  // FTP tests pause and ask the rider when they look to have cracked - power
+  // or cadence collapsing in an effort
+  useEffect(() => {
+    if (!workout.ftpTest || player.playerState.status !== 'playing') return;
+    if (detectTestFailure(player.recordedData, player.expandedSegments, testCarryOnFromRef.current)) {
+      player.pause();
+      setShowTestFailurePrompt(true);
+    }
+  }, [workout.ftpTest, player]);
+
+  const handleEndFailedTest = useCallback(() => {
+    setShowTestFailurePrompt(false);
+    setFtpTestFailed(true);
+    player.endWorkout();
+  }, [player]);
+
+  const handleContinueTest = useCallback(() => {
+    setShowTestFailurePrompt(false);
+    testCarryOnFromRef.current = player.playerState.elapsedTime;
+    player.play();
+  }, [player]);
+
+  const handleSaveTestFtp = useCallback(() => {
+    if (!ftpTestResult) return;
+    setFtp(ftpTestResult.ftp);
+    setFtpHistory(upsertFtpHistoryEntry(ftpHistory, {
+      date: getDateKey(new Date()),
+      ftp: ftpTestResult.ftp,
+      source: 'test',
+      protocol: ftpTestResult.protocol,
+    }));
+    setFtpTestSaved(true);
+  }, [ftpTestResult, setFtp, ftpHistory, setFtpHistory]);
+
   // Wake Lock - prevent screen from sleeping during workout
   useEffect(() => {
     const requestWakeLock = async () => {
@@ -191,6 +407,7 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
         recordedData: player.recordedData,
         segments: expandedSegments,
         ftp,
+        route: workout.route,
       });
       const filename = `${workout.name.replace(/[^a-z0-9]/gi, '_')}_${workoutStartTimeRef.current.toISOString().split('T')[0]}.tcx`;
       downloadTCX(tcx, filename);
@@ -199,27 +416,33 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
     }
   }, [workout, player.recordedData, ftp]);
 
-  // Generate TCX data helper
-  const generateWorkoutTCX = useCallback(() => {
+  // Strava upload file - FIT keeps laps and power metrics intact, route
+  // rides go as TCX so the activity gets the route's map
+  const generateStravaFile = useCallback((): { fileData: string; dataType: StravaUploadDataType } => {
     const expandedSegments = expandRepeatedSegments(workout.segments);
-    return generateTCX({
+    const options = {
       workoutName: workout.name,
       startTime: workoutStartTimeRef.current,
       recordedData: player.recordedData,
       segments: expandedSegments,
       ftp,
-    });
+    };
+    if (workout.route) {
+      return { fileData: generateTCX({ ...options, route: workout.route }), dataType: 'tcx' };
+    }
+    return { fileData: encodeFITBase64(generateFIT(options)), dataType: 'fit' };
   }, [workout, player.recordedData, ftp]);
 
   // Strava upload handler
   const handleStravaUpload = useCallback(async () => {
     if (!strava.isConnected) {
-      // Generate TCX data and store it before showing modal
+      // Generate the upload file and store it before showing modal
       // This ensures the workout data is preserved if user goes through OAuth
       try {
-        const tcx = generateWorkoutTCX();
+        const { fileData, dataType } = generateStravaFile();
         const pendingData: PendingStravaUpload = {
-          tcxData: tcx,
+          fileData,
+          dataType,
           name: workout.name,
           description: `Indoor cycling workout completed with BrowserTurbo`,
           workoutId: workout.id, // Include workout ID to restore view after OAuth
@@ -228,22 +451,23 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
         setPendingUploadData(pendingData);
         setShowStravaModal(true);
       } catch (err) {
-        console.error('Failed to generate TCX for Strava:', err);
+        console.error('Failed to generate file for Strava:', err);
       }
       return;
     }
 
     try {
-      const tcx = generateWorkoutTCX();
+      const { fileData, dataType } = generateStravaFile();
       await strava.uploadActivity(
-        tcx,
+        fileData,
         workout.name,
-        `Indoor cycling workout completed with BrowserTurbo`
+        `Indoor cycling workout completed with BrowserTurbo`,
+        dataType
       );
     } catch (err) {
       console.error('Failed to upload to Strava:', err);
     }
-  }, [workout, strava, generateWorkoutTCX]);
+  }, [workout, strava, generateStravaFile]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -293,9 +517,11 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
     } else {
       trainer.disconnect();
       hrMonitor.disconnect();
+      powerMeter.disconnect();
+      speedCadenceSensor.disconnect();
       onExit();
     }
-  }, [player.playerState.status, trainer, hrMonitor, onExit]);
+  }, [player.playerState.status, trainer, hrMonitor, powerMeter, speedCadenceSensor, onExit]);
 
   const confirmExitWithSave = useCallback(() => {
     // End workout triggers completion callback with recorded data
@@ -306,13 +532,20 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
 
   const confirmExitWithoutSave = useCallback(() => {
     player.stop();
+    clearActiveRide().catch((err) => {
+      console.error('Failed to clear recovered ride:', err);
+    });
     trainer.disconnect();
     hrMonitor.disconnect();
+    powerMeter.disconnect();
+    speedCadenceSensor.disconnect();
     onExit();
-  }, [player, trainer, hrMonitor, onExit]);
+  }, [player, trainer, hrMonitor, powerMeter, speedCadenceSensor, onExit]);
+
+  const hasSimulation = player.expandedSegments.some((segment) => segment.simulation);
 
   // Get current segment color
-  const currentSegmentColor = player.currentSegment
+  const currentSegmentColor = player.currentSegment && !player.isFreeRide && !player.isSimulation
     ? getZoneColor(getPowerAsPercentFTP(player.currentSegment, ftp))
     : "#808080";
 
@@ -321,6 +554,7 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
     disconnected: BluetoothOff,
     connecting: BluetoothSearching,
     connected: Bluetooth,
+    reconnecting: BluetoothSearching,
     error: BluetoothOff,
   }[trainer.connectionState];
 
@@ -338,7 +572,14 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
               <X className="w-5 h-5" />
             </button>
             <div className="min-w-0">
-              <h1 className="font-medium text-sm sm:text-base truncate">{workout.name}</h1>
+              <div className="flex items-center gap-2 min-w-0">
+                <h1 className="font-medium text-sm sm:text-base truncate">{workout.name}</h1>
+                {(isUsingVirtualDevices || isSimulatedRide) && (
+                  <span className="px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-600 text-[10px] font-medium uppercase tracking-wide flex-shrink-0">
+                    Simulated
+                  </span>
+                )}
+              </div>
               <p className="text-xs text-muted-foreground hidden sm:block">
                 {formatDuration(workout.totalDuration)}
               </p>
@@ -409,16 +650,35 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
                       </div>
                       <div className="min-w-0">
                         <div className="text-sm font-medium truncate">
-                          {trainer.connectionState === 'connected' ? trainer.trainerName : 'Smart Trainer'}
+                          {trainer.connectionState === 'connected' ? trainer.trainerName : knownTrainer ? getKnownDeviceName(knownTrainer) : 'Smart Trainer'}
                         </div>
                         <div className="text-xs text-muted-foreground truncate">
                           {trainer.connectionState === 'connected' ? 'Connected' :
                            trainer.connectionState === 'connecting' ? 'Connecting...' :
-                           trainer.connectionState === 'error' ? trainer.errorMessage : 'Not connected'}
+                           trainer.connectionState === 'reconnecting' ? 'Reconnecting...' :
+                           trainer.connectionState === 'error' ? trainer.errorMessage :
+                           knownTrainer ? 'Last used' : 'Not connected'}
                         </div>
                       </div>
                     </div>
-                    {trainer.connectionState === 'disconnected' || trainer.connectionState === 'error' ? (
+                    {(trainer.connectionState === 'disconnected' || trainer.connectionState === 'error') && knownTrainer ? (
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => trainer.connect()}
+                          disabled={!trainer.isSupported}
+                          className="text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+                        >
+                          New
+                        </button>
+                        <button
+                          onClick={() => trainer.connectKnown(knownTrainer.id)}
+                          disabled={!trainer.isSupported}
+                          className="px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity disabled:opacity-40"
+                        >
+                          Connect
+                        </button>
+                      </div>
+                    ) : trainer.connectionState === 'disconnected' || trainer.connectionState === 'error' ? (
                       <button
                         onClick={trainer.connect}
                         disabled={!trainer.isSupported}
@@ -438,8 +698,16 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
                     )}
                   </div>
 
+                  {/* Spin-down calibration, for trainers that support it */}
+                  {trainer.connectionState === 'connected' && trainer.capabilities.hasSpinDown && (
+                    <SpinDownCalibration
+                      trainer={trainer}
+                      disabled={player.playerState.status === 'playing'}
+                    />
+                  )}
+
                   {/* HR Monitor Connection */}
-                  <div className="flex items-center justify-between py-2">
+                  <div className="flex items-center justify-between py-2 border-b border-border">
                     <div className="flex items-center gap-3">
                       <div className={cn(
                         "p-2 rounded-lg",
@@ -452,16 +720,35 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
                       </div>
                       <div className="min-w-0">
                         <div className="text-sm font-medium truncate">
-                          {hrMonitor.connectionState === 'connected' ? hrMonitor.deviceName : 'HR Monitor'}
+                          {hrMonitor.connectionState === 'connected' ? hrMonitor.deviceName : knownHrMonitor ? getKnownDeviceName(knownHrMonitor) : 'HR Monitor'}
                         </div>
                         <div className="text-xs text-muted-foreground truncate">
                           {hrMonitor.connectionState === 'connected' ? 'Connected' :
                            hrMonitor.connectionState === 'connecting' ? 'Connecting...' :
-                           hrMonitor.connectionState === 'error' ? hrMonitor.errorMessage : 'Not connected'}
+                           hrMonitor.connectionState === 'reconnecting' ? 'Reconnecting...' :
+                           hrMonitor.connectionState === 'error' ? hrMonitor.errorMessage :
+                           knownHrMonitor ? 'Last used' : 'Not connected'}
                         </div>
                       </div>
                     </div>
-                    {hrMonitor.connectionState === 'disconnected' || hrMonitor.connectionState === 'error' ? (
+                    {(hrMonitor.connectionState === 'disconnected' || hrMonitor.connectionState === 'error') && knownHrMonitor ? (
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => hrMonitor.connect()}
+                          disabled={!hrMonitor.isSupported}
+                          className="text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+                        >
+                          New
+                        </button>
+                        <button
+                          onClick={() => hrMonitor.connectKnown(knownHrMonitor.id)}
+                          disabled={!hrMonitor.isSupported}
+                          className="px-3 py-1.5 text-xs bg-red-500 text-white rounded-lg hover:opacity-90 transition-opacity disabled:opacity-40"
+                        >
+                          Connect
+                        </button>
+                      </div>
+                    ) : hrMonitor.connectionState === 'disconnected' || hrMonitor.connectionState === 'error' ? (
                       <button
                         onClick={hrMonitor.connect}
                         disabled={!hrMonitor.isSupported}
@@ -481,6 +768,53 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
                     )}
                   </div>
 
+                  {/* Separate power meter and cadence sensor */}
+                  <SensorConnectionRow sensor={powerMeter} label="Power Meter" icon={Zap} />
+                  <SensorConnectionRow sensor={speedCadenceSensor} label="Cadence Sensor" icon={RotateCw} />
+
+                  {/* Source per metric */}
+                  <div className="space-y-2 pt-1">
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-muted-foreground">Power from</span>
+                      <select
+                        value={sensorSources.power}
+                        onChange={(e) => setSensorSources({ power: e.target.value as PowerSource })}
+                        className="px-2 py-1 bg-background rounded-lg border border-border focus:outline-none focus:ring-2 focus:ring-primary/20"
+                      >
+                        {(Object.keys(POWER_SOURCE_LABELS) as PowerSource[]).map((source) => (
+                          <option key={source} value={source}>{POWER_SOURCE_LABELS[source]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-muted-foreground">Cadence from</span>
+                      <select
+                        value={sensorSources.cadence}
+                        onChange={(e) => setSensorSources({ cadence: e.target.value as CadenceSource })}
+                        className="px-2 py-1 bg-background rounded-lg border border-border focus:outline-none focus:ring-2 focus:ring-primary/20"
+                      >
+                        {(Object.keys(CADENCE_SOURCE_LABELS) as CadenceSource[]).map((source) => (
+                          <option key={source} value={source}>{CADENCE_SOURCE_LABELS[source]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-muted-foreground">Heart rate from</span>
+                      <select
+                        value={sensorSources.heartRate}
+                        onChange={(e) => setSensorSources({ heartRate: e.target.value as HeartRateSource })}
+                        className="px-2 py-1 bg-background rounded-lg border border-border focus:outline-none focus:ring-2 focus:ring-primary/20"
+                      >
+                        {(Object.keys(HEART_RATE_SOURCE_LABELS) as HeartRateSource[]).map((source) => (
+                          <option key={source} value={source}>{HEART_RATE_SOURCE_LABELS[source]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Falls back to another source when the chosen one has no data
+                    </p>
+                  </div>
+
                   {!trainer.isSupported && !hrMonitor.isSupported && (
                     <p className="text-xs text-muted-foreground text-center py-2">
                       Web Bluetooth not supported
@@ -495,6 +829,41 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
 
       {/* Main Content */}
       <main className="flex-1 w-full max-w-7xl mx-auto px-4 sm:px-6 py-4 sm:py-6 lg:py-8">
+        {/* Devices dropped mid-ride - the ride carries on while they reconnect */}
+        {isReconnecting && (
+          <div className="mb-4 flex items-center gap-3 px-4 py-3 rounded-xl border border-border bg-card text-sm">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground flex-shrink-0" />
+            <span className="flex-1">
+              Reconnecting to {[
+                trainer.connectionState === 'reconnecting' && (trainer.trainerName ?? 'trainer'),
+                hrMonitor.connectionState === 'reconnecting' && (hrMonitor.deviceName ?? 'HR monitor'),
+              ].filter(Boolean).join(' and ')}...
+              <span className="text-muted-foreground">
+                {reconnectingMetrics.power
+                  ? ' Recording resumes once it\'s back.'
+                  : ' Recording carries on meanwhile.'}
+              </span>
+            </span>
+          </div>
+        )}
+
+        {/* Trainer control problems and stops reported by the trainer */}
+        {(trainer.controlError || trainerNotice) && player.playerState.status !== 'completed' && (
+          <div className="mb-4 flex items-center gap-3 px-4 py-3 rounded-xl border border-amber-500/30 bg-amber-500/10 text-sm">
+            <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+            <span className="flex-1">{trainer.controlError ?? trainerNotice}</span>
+            {!trainer.controlError && (
+              <button
+                onClick={() => setTrainerNotice(null)}
+                className="p-1 rounded hover:bg-accent transition-colors"
+                aria-label="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Workout Complete - shown at top */}
         {player.playerState.status === 'completed' && (
           <div className="mb-4 lg:mb-6 bg-card border border-border rounded-xl p-6 shadow-sm">
@@ -503,6 +872,11 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
               <p className="text-muted-foreground">
                 Great job finishing {workout.name}!
               </p>
+              {isSimulatedRide && (
+                <p className="text-xs text-amber-600 mt-2">
+                  Recorded with virtual devices - kept out of your progress and not uploaded to Strava
+                </p>
+              )}
             </div>
 
             {/* Summary Stats */}
@@ -566,6 +940,44 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
               </div>
             )}
 
+            {/* FTP test result */}
+            {workout.ftpTest && (
+              <div className="mb-6 pt-6 border-t border-border">
+                <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-3">
+                  {FTP_TEST_PROTOCOLS[workout.ftpTest].name} Result
+                </div>
+                {ftpTestResult ? (
+                  <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-background rounded-xl p-4">
+                    <div className="text-center sm:text-left">
+                      <div className="text-3xl font-semibold tabular-nums">
+                        {ftpTestResult.ftp}
+                        <span className="text-sm font-normal text-muted-foreground ml-1">W FTP</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {Math.round(FTP_TEST_PROTOCOLS[workout.ftpTest].factor * 100)}% of {ftpTestResult.testPower}W
+                        {workout.ftpTest === 'ramp' ? ' best minute' : ' test average'}
+                        {' '}&middot; current FTP {ftp}W
+                      </div>
+                    </div>
+                    <button
+                      onClick={handleSaveTestFtp}
+                      disabled={ftpTestSaved}
+                      className="flex items-center gap-2 px-4 py-2.5 text-sm bg-primary text-primary-foreground rounded-xl hover:opacity-90 transition-opacity font-medium disabled:opacity-60"
+                    >
+                      {ftpTestSaved ? <CheckCircle className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+                      {ftpTestSaved ? 'FTP saved' : 'Save as my FTP'}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {ftpTestFailed
+                      ? 'The test ended before the effort was complete, so there is no FTP estimate.'
+                      : 'Not enough test data was recorded to estimate FTP.'}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Peak Powers */}
             {workoutSummary && workoutSummary.peakPowers && workoutSummary.peakPowers.length > 0 && (
               <div className="mb-6 pt-6 border-t border-border">
@@ -647,7 +1059,7 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
               ) : (
                 <button
                   onClick={handleStravaUpload}
-                  disabled={player.recordedData.length === 0}
+                  disabled={player.recordedData.length === 0 || isSimulatedRide}
                   className="px-6 py-3 bg-[#FC4C02] text-white rounded-lg font-medium hover:bg-[#e04502] transition-colors disabled:opacity-40 flex items-center justify-center gap-2"
                 >
                   <Upload className="w-4 h-4" />
@@ -671,15 +1083,25 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
           <div className="flex-1 flex flex-col gap-4 lg:gap-6 min-w-0">
             {/* Power Graph with Progress - Primary focus area */}
             <div className="bg-card rounded-2xl p-4 sm:p-6 shadow-sm flex-1">
-              <PowerGraph
-                segments={player.expandedSegments}
-                ftp={ftp}
-                playerMode={true}
-                currentTime={player.playerState.elapsedTime}
-                realTimePower={trainer.metrics.power}
-                highlightedIndex={player.playerState.currentSegmentIndex}
-                recordedData={player.recordedData}
-              />
+              {/* Route rides follow the elevation profile by distance */}
+              {workout.route ? (
+                <ElevationProfile
+                  route={workout.route}
+                  height={200}
+                  currentDistance={player.virtualDistance}
+                />
+              ) : (
+                <PowerGraph
+                  segments={player.expandedSegments}
+                  ftp={ftp}
+                  playerMode={true}
+                  currentTime={player.playerState.elapsedTime}
+                  realTimePower={combinedMetrics.power}
+                  highlightedIndex={player.playerState.currentSegmentIndex}
+                  blocks={getBlockRanges(workout.segments)}
+                  recordedData={player.recordedData}
+                />
+              )}
 
               {/* Compact Controls Bar - Under graph */}
               <div className="flex items-center justify-between mt-4 pt-4 border-t border-border">
@@ -844,6 +1266,13 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
                 />
               </div>
 
+              {/* Text event */}
+              {player.currentTextEvent && (
+                <p className="mt-3 sm:mt-4 text-base sm:text-lg font-medium">
+                  {player.currentTextEvent.message}
+                </p>
+              )}
+
               {/* Instructions */}
               {player.currentSegment?.instructions && (
                 <p className="mt-3 sm:mt-4 text-sm opacity-70 italic">
@@ -864,25 +1293,51 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
                   className="text-2xl sm:text-3xl lg:text-4xl font-semibold tabular-nums"
                   style={{ color: currentSegmentColor }}
                 >
-                  {player.playerState.targetPower}
+                  {player.isSimulation
+                    ? `${player.currentSegment?.simulation?.grade ?? 0}%`
+                    : player.isFreeRide ? '--' : player.playerState.targetPower}
                 </div>
-                <div className="text-xs text-muted-foreground mt-0.5">watts</div>
+                <div className="text-xs text-muted-foreground mt-0.5">
+                  {player.isSimulation ? 'grade' : player.isFreeRide ? 'free ride' : 'watts'}
+                </div>
+                {player.currentSegment?.targetPower.type === 'heart_rate' && (
+                  <div
+                    className={cn(
+                      "text-xs mt-1",
+                      player.isHeartRateFallback ? "text-amber-500" : "text-red-500"
+                    )}
+                  >
+                    {player.isHeartRateFallback
+                      ? 'No HR - holding watts'
+                      : player.heartRateBand
+                      ? `HR ${player.heartRateBand.low}-${player.heartRateBand.high}`
+                      : formatHeartRateTarget(player.currentSegment)}
+                  </div>
+                )}
               </div>
 
               {/* Actual Power */}
               <div className="bg-card rounded-2xl p-3 sm:p-4 lg:p-5 text-center shadow-sm">
                 <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Power</div>
                 <div className="text-2xl sm:text-3xl lg:text-4xl font-semibold tabular-nums">
-                  {trainer.metrics.power !== null ? trainer.metrics.power : '--'}
+                  {combinedMetrics.power !== null ? combinedMetrics.power : '--'}
                 </div>
                 <div className="text-xs text-muted-foreground mt-0.5">watts</div>
+                {powerMatch.isActive && (
+                  <div
+                    className="text-xs font-medium text-primary mt-0.5 tabular-nums"
+                    title="Trainer target corrected so the power meter reads the target"
+                  >
+                    Match {powerMatch.offset >= 0 ? '+' : ''}{powerMatch.offset}W
+                  </div>
+                )}
               </div>
 
               {/* Cadence */}
               <div className="bg-card rounded-2xl p-3 sm:p-4 lg:p-5 text-center shadow-sm">
                 <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Cadence</div>
                 <div className="text-2xl sm:text-3xl lg:text-4xl font-semibold tabular-nums">
-                  {trainer.metrics.cadence !== null ? trainer.metrics.cadence : '--'}
+                  {combinedMetrics.cadence !== null ? combinedMetrics.cadence : '--'}
                 </div>
                 <div className="text-xs text-muted-foreground mt-0.5">rpm</div>
               </div>
@@ -903,6 +1358,26 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
               </div>
             </div>
 
+            {/* Virtual speed and distance - for workouts with slope segments */}
+            {hasSimulation && (
+              <div className="grid grid-cols-2 gap-3 lg:gap-4">
+                <div className="bg-card rounded-2xl p-3 sm:p-4 text-center shadow-sm">
+                  <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Speed</div>
+                  <div className="text-xl sm:text-2xl font-semibold tabular-nums">
+                    {player.virtualSpeed.toFixed(1)}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-0.5">km/h</div>
+                </div>
+                <div className="bg-card rounded-2xl p-3 sm:p-4 text-center shadow-sm">
+                  <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Distance</div>
+                  <div className="text-xl sm:text-2xl font-semibold tabular-nums">
+                    {(player.virtualDistance / 1000).toFixed(2)}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-0.5">km</div>
+                </div>
+              </div>
+            )}
+
           </div>
         </div>
 
@@ -944,6 +1419,36 @@ export function WorkoutPlayer({ workout, onExit, onWorkoutComplete }: WorkoutPla
         </div>
       )}
 
+      {/* FTP test looks finished - the rider decides */}
+      {showTestFailurePrompt && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card rounded-xl border border-border p-6 max-w-sm mx-4 shadow-xl">
+            <div className="flex items-center gap-3 mb-4 text-amber-500">
+              <AlertTriangle className="w-6 h-6" />
+              <h3 className="text-lg font-semibold">End the test?</h3>
+            </div>
+            <p className="text-muted-foreground mb-6">
+              Your power has dropped well below what you were holding. End the test here, or keep going if you still have more.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handleContinueTest}
+                className="flex-1 px-4 py-2 rounded-lg border border-border hover:bg-accent transition-colors flex items-center justify-center gap-2"
+              >
+                <Play className="w-4 h-4" />
+                Keep going
+              </button>
+              <button
+                onClick={handleEndFailedTest}
+                className="flex-1 px-4 py-2 rounded-lg bg-primary text-primary-foreground hover:opacity-90 transition-opacity"
+              >
+                End test
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Exit Confirmation Dialog */}
       {showExitConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -1,7 +1,15 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Workout, Segment, getZoneColor, generateId } from "@/types/workout";
+import {
+  Workout,
+  Segment,
+  SegmentBlock,
+  WorkoutItem,
+  isSegmentBlock,
+  getZoneColor,
+  generateId,
+} from "@/types/workout";
 import {
   formatDuration,
   getPowerAsPercentFTP,
@@ -10,11 +18,17 @@ import {
   expandRepeatedSegments,
   recalculateWorkoutStats,
   parseDuration,
+  mapSegments,
+  calculateTotalDuration,
+  getBlockRanges,
+  formatHeartRateTarget,
+  placeTextEvents,
 } from "@/lib/workout-utils";
-import { useFTP } from "@/hooks/use-ftp";
+import { useWorkoutFTP } from "@/hooks/use-ftp";
 import { PowerGraph } from "./power-graph";
+import { ElevationProfile } from "./elevation-profile";
 import { ExportMenu } from "./export-menu";
-import { ArrowLeft, Save, Edit2, Check, X, Trash2, Plus, Minus, Clock, Zap, Play } from "lucide-react";
+import { ArrowLeft, Save, Edit2, Check, X, Trash2, Plus, Minus, Clock, Zap, Play, Repeat, Ungroup } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface WorkoutViewProps {
@@ -26,7 +40,7 @@ interface WorkoutViewProps {
 }
 
 export function WorkoutView({ workout, onBack, onSave, onUpdate, onStartWorkout }: WorkoutViewProps) {
-  const [ftp] = useFTP();
+  const ftp = useWorkoutFTP(workout);
   const prevFtpRef = useRef(ftp);
 
   useEffect(() => {
@@ -46,38 +60,24 @@ export function WorkoutView({ workout, onBack, onSave, onUpdate, onStartWorkout
 
   const expandedSegments = expandRepeatedSegments(workout.segments);
 
-  // Create mapping from expanded index to original segment index
-  const expandedToOriginalMap: number[] = [];
-  // Create reverse mapping from original index to first expanded index
-  const originalToExpandedMap: number[] = [];
-  let expandedIdx = 0;
-  workout.segments.forEach((segment, originalIndex) => {
-    originalToExpandedMap.push(expandedIdx);
-    const repeat = segment.repeat || 1;
-    for (let i = 0; i < repeat; i++) {
-      expandedToOriginalMap.push(originalIndex);
-      expandedIdx++;
-    }
-  });
+  // Source segment id for each expanded index (nested segments included)
+  const expandedSourceIds = getExpandedSourceIds(workout.segments);
 
   const handleGraphSegmentClick = (expandedIndex: number) => {
-    const originalIndex = expandedToOriginalMap[expandedIndex];
-    if (originalIndex === undefined) return;
-
-    const segment = workout.segments[originalIndex];
-    if (!segment) return;
+    const segmentId = expandedSourceIds[expandedIndex];
+    if (!segmentId) return;
 
     // Highlight the segment on the graph
     setHighlightedSegmentIndex(expandedIndex);
 
     // Only open editor if already in edit mode
     if (showQuickEdit) {
-      setEditingSegmentId(segment.id);
+      setEditingSegmentId(segmentId);
     }
 
     // Scroll to the segment after a short delay
     setTimeout(() => {
-      const ref = segmentRefs.current.get(segment.id);
+      const ref = segmentRefs.current.get(segmentId);
       if (ref) {
         ref.scrollIntoView({ behavior: "smooth", block: "center" });
       }
@@ -98,46 +98,66 @@ export function WorkoutView({ workout, onBack, onSave, onUpdate, onStartWorkout
     setIsEditingName(false);
   };
 
-  const handleSegmentUpdate = (index: number, updates: Partial<Segment>) => {
-    const newSegments = [...workout.segments];
-    newSegments[index] = { ...newSegments[index], ...updates };
+  const commitSegments = (newSegments: WorkoutItem[]) => {
     const updated = recalculateWorkoutStats(
       { ...workout, segments: newSegments },
       ftp
     );
     onUpdate(updated);
-    setEditingSegmentId(null);
   };
 
-  const handleDeleteSegment = (index: number) => {
-    if (workout.segments.length <= 1) return;
-    const newSegments = workout.segments.filter((_, i) => i !== index);
-    const updated = recalculateWorkoutStats(
-      { ...workout, segments: newSegments },
-      ftp
+  const handleSegmentUpdate = (path: ItemPath, updates: Partial<Segment>) => {
+    commitSegments(
+      replaceAtPath(workout.segments, path, (item) => [{ ...(item as Segment), ...updates }])
     );
-    onUpdate(updated);
+    setEditingSegmentId(null);
+  };
+
+  const handleDeleteSegment = (path: ItemPath) => {
+    commitSegments(replaceAtPath(workout.segments, path, () => []));
   };
 
-  const handleAddSegment = (afterIndex: number) => {
+  const handleAddSegment = (afterPath: ItemPath) => {
     const newSegment: Segment = {
       id: generateId(),
       type: "steady",
       duration: 300,
       targetPower: { type: "percent_ftp", value: 75 },
     };
-    const newSegments = [...workout.segments];
-    newSegments.splice(afterIndex + 1, 0, newSegment);
-    const updated = recalculateWorkoutStats(
-      { ...workout, segments: newSegments },
-      ftp
-    );
-    onUpdate(updated);
+    commitSegments(replaceAtPath(workout.segments, afterPath, (item) => [item, newSegment]));
     setEditingSegmentId(newSegment.id);
   };
 
+  // Wrap a segment in a block so more segments can be added to the repeat
+  const handleGroupSegment = (path: ItemPath) => {
+    commitSegments(
+      replaceAtPath(workout.segments, path, (item) => [
+        { id: generateId(), type: "block", repeat: 2, segments: [item] },
+      ])
+    );
+  };
+
+  const handleBlockRepeatChange = (path: ItemPath, repeat: number) => {
+    commitSegments(
+      replaceAtPath(workout.segments, path, (item) => [
+        { ...(item as SegmentBlock), repeat: Math.max(1, Math.min(50, repeat)) },
+      ])
+    );
+  };
+
+  // Unroll the block in place so the workout itself doesn't change
+  const handleUngroupBlock = (path: ItemPath) => {
+    commitSegments(
+      replaceAtPath(workout.segments, path, (item) => {
+        const block = item as SegmentBlock;
+        const unrolled = Array.from({ length: block.repeat }, () => block.segments.map(withNewIds)).flat();
+        return placeTextEvents(unrolled, block.textEvents ?? []);
+      })
+    );
+  };
+
   const handleScaleWorkout = (factor: number) => {
-    const newSegments = workout.segments.map((seg) => ({
+    const newSegments = mapSegments(workout.segments, (seg) => ({
       ...seg,
       duration: Math.max(30, Math.round(seg.duration * factor)),
     }));
@@ -149,16 +169,24 @@ export function WorkoutView({ workout, onBack, onSave, onUpdate, onStartWorkout
   };
 
   const handleScalePower = (delta: number) => {
-    const newSegments = workout.segments.map((seg) => ({
-      ...seg,
-      targetPower: {
-        ...seg.targetPower,
-        value: Math.max(30, Math.min(200, seg.targetPower.value + delta)),
-        valueHigh: seg.targetPower.valueHigh
-          ? Math.max(30, Math.min(200, seg.targetPower.valueHigh + delta))
-          : undefined,
-      },
-    }));
+    const scale = (value: number) => Math.max(30, Math.min(200, value + delta));
+    const newSegments = mapSegments(workout.segments, (seg) => {
+      // Heart-rate bands aren't power - only their fallback wattage moves
+      if (seg.targetPower.type === "heart_rate") {
+        return {
+          ...seg,
+          targetPower: { ...seg.targetPower, fallbackPower: scale(getPowerAsPercentFTP(seg, ftp)) },
+        };
+      }
+      return {
+        ...seg,
+        targetPower: {
+          ...seg.targetPower,
+          value: scale(seg.targetPower.value),
+          valueHigh: seg.targetPower.valueHigh ? scale(seg.targetPower.valueHigh) : undefined,
+        },
+      };
+    });
     const updated = recalculateWorkoutStats(
       { ...workout, segments: newSegments },
       ftp
@@ -166,6 +194,72 @@ export function WorkoutView({ workout, onBack, onSave, onUpdate, onStartWorkout
     onUpdate(updated);
   };
 
+  const renderItems = (items: WorkoutItem[], parentPath: ItemPath): React.ReactNode =>
+    items.map((item, index) => {
+      const path = [...parentPath, index];
+      const expandedIndex = getExpandedIndex(workout.segments, path);
+      const canDelete = items.length > 1;
+      const rowRef = (el: HTMLDivElement | null) => {
+        if (el) {
+          segmentRefs.current.set(item.id, el);
+        } else {
+          segmentRefs.current.delete(item.id);
+        }
+      };
+      const onHover = (hovering: boolean) => {
+        setHighlightedSegmentIndex(hovering ? expandedIndex : null);
+      };
+
+      if (isSegmentBlock(item)) {
+        return (
+          <BlockRow
+            key={item.id}
+            block={item}
+            showEditControls={showQuickEdit}
+            onRepeatChange={(repeat) => handleBlockRepeatChange(path, repeat)}
+            onUngroup={() => handleUngroupBlock(path)}
+            onDelete={() => handleDeleteSegment(path)}
+            onAddAfter={() => handleAddSegment(path)}
+            canDelete={canDelete}
+            rowRef={rowRef}
+            onHover={onHover}
+          >
+            {renderItems(item.segments, path)}
+          </BlockRow>
+        );
+      }
+
+      return (
+        <SegmentRow
+          key={item.id}
+          segment={item}
+          index={index}
+          ftp={ftp}
+          isEditing={editingSegmentId === item.id}
+          showEditControls={showQuickEdit}
+          onEdit={() => {
+            setEditingSegmentId(item.id);
+            setHighlightedSegmentIndex(expandedIndex);
+            // Scroll to the segment after a short delay
+            setTimeout(() => {
+              const ref = segmentRefs.current.get(item.id);
+              if (ref) {
+                ref.scrollIntoView({ behavior: "smooth", block: "center" });
+              }
+            }, 100);
+          }}
+          onCancelEdit={() => setEditingSegmentId(null)}
+          onUpdate={(updates) => handleSegmentUpdate(path, updates)}
+          onDelete={() => handleDeleteSegment(path)}
+          onAddAfter={() => handleAddSegment(path)}
+          onGroup={() => handleGroupSegment(path)}
+          canDelete={canDelete}
+          rowRef={rowRef}
+          onHover={onHover}
+        />
+      );
+    });
+
   return (
     <div className={cn(
       "max-w-4xl mx-auto space-y-6 transition-all duration-300",
@@ -431,7 +525,13 @@ export function WorkoutView({ workout, onBack, onSave, onUpdate, onStartWorkout
           ftp={ftp}
           onSegmentClick={handleGraphSegmentClick}
           highlightedIndex={highlightedSegmentIndex}
+          blocks={getBlockRanges(workout.segments)}
         />
+        {workout.route && (
+          <div className="mt-4">
+            <ElevationProfile route={workout.route} />
+          </div>
+        )}
       </div>
 
       {/* Stats */}
@@ -471,42 +571,7 @@ export function WorkoutView({ workout, onBack, onSave, onUpdate, onStartWorkout
           )}
         </div>
         <div className="divide-y divide-border">
-          {workout.segments.map((segment, index) => (
-            <SegmentRow
-              key={segment.id}
-              segment={segment}
-              index={index}
-              ftp={ftp}
-              isEditing={editingSegmentId === segment.id}
-              showEditControls={showQuickEdit}
-              onEdit={() => {
-                setEditingSegmentId(segment.id);
-                setHighlightedSegmentIndex(originalToExpandedMap[index]);
-                // Scroll to the segment after a short delay
-                setTimeout(() => {
-                  const ref = segmentRefs.current.get(segment.id);
-                  if (ref) {
-                    ref.scrollIntoView({ behavior: "smooth", block: "center" });
-                  }
-                }, 100);
-              }}
-              onCancelEdit={() => setEditingSegmentId(null)}
-              onUpdate={(updates) => handleSegmentUpdate(index, updates)}
-              onDelete={() => handleDeleteSegment(index)}
-              onAddAfter={() => handleAddSegment(index)}
-              canDelete={workout.segments.length > 1}
-              rowRef={(el) => {
-                if (el) {
-                  segmentRefs.current.set(segment.id, el);
-                } else {
-                  segmentRefs.current.delete(segment.id);
-                }
-              }}
-              onHover={(hovering) => {
-                setHighlightedSegmentIndex(hovering ? originalToExpandedMap[index] : null);
-              }}
-            />
-          ))}
+          {renderItems(workout.segments, [])}
         </div>
       </div>
 
@@ -518,6 +583,160 @@ export function WorkoutView({ workout, onBack, onSave, onUpdate, onStartWorkout
   );
 }
 
+// Index path into nested workout items, e.g. [2, 0] = first child of the third item
+type ItemPath = number[];
+
+function replaceAtPath(
+  items: WorkoutItem[],
+  path: ItemPath,
+  replace: (item: WorkoutItem) => WorkoutItem[]
+): WorkoutItem[] {
+  const [index, ...rest] = path;
+  return items.flatMap((item, i) => {
+    if (i !== index) return [item];
+    if (rest.length === 0) return replace(item);
+    if (!isSegmentBlock(item)) return [item];
+    return [{ ...item, segments: replaceAtPath(item.segments, rest, replace) }];
+  });
+}
+
+/**
+ * Index of the item's first expanded segment (first repeat of any parent block)
+ */
+function getExpandedIndex(items: WorkoutItem[], path: ItemPath): number {
+  let index = 0;
+  let level = items;
+  for (const position of path) {
+    index += expandRepeatedSegments(level.slice(0, position)).length;
+    const item = level[position];
+    if (!item || !isSegmentBlock(item)) break;
+    level = item.segments;
+  }
+  return index;
+}
+
+function getExpandedSourceIds(items: WorkoutItem[]): string[] {
+  return items.flatMap((item) => {
+    if (isSegmentBlock(item)) {
+      const inner = getExpandedSourceIds(item.segments);
+      return Array.from({ length: item.repeat }, () => inner).flat();
+    }
+    return Array.from({ length: item.repeat || 1 }, () => item.id);
+  });
+}
+
+function withNewIds(item: WorkoutItem): WorkoutItem {
+  if (isSegmentBlock(item)) {
+    return { ...item, id: generateId(), segments: item.segments.map(withNewIds) };
+  }
+  return { ...item, id: generateId() };
+}
+
+interface BlockRowProps {
+  block: SegmentBlock;
+  showEditControls: boolean;
+  onRepeatChange: (repeat: number) => void;
+  onUngroup: () => void;
+  onDelete: () => void;
+  onAddAfter: () => void;
+  canDelete: boolean;
+  rowRef?: (el: HTMLDivElement | null) => void;
+  onHover: (hovering: boolean) => void;
+  children: React.ReactNode;
+}
+
+function BlockRow({
+  block,
+  showEditControls,
+  onRepeatChange,
+  onUngroup,
+  onDelete,
+  onAddAfter,
+  canDelete,
+  rowRef,
+  onHover,
+  children,
+}: BlockRowProps) {
+  return (
+    <div ref={rowRef}>
+      <div
+        className="flex items-center gap-2 sm:gap-4 px-3 sm:px-4 pt-3 sm:pt-4 pb-2"
+        onMouseEnter={() => onHover(true)}
+        onMouseLeave={() => onHover(false)}
+      >
+        <Repeat className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+        <div className="flex-1 min-w-0 flex items-center gap-1.5 sm:gap-2">
+          <span className="font-medium text-sm sm:text-base">Repeat</span>
+          {showEditControls ? (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onRepeatChange(block.repeat - 1)}
+                disabled={block.repeat <= 1}
+                className="p-1 text-muted-foreground hover:text-foreground hover:bg-accent rounded disabled:opacity-30"
+                title="Fewer repeats"
+              >
+                <Minus className="w-3.5 h-3.5" />
+              </button>
+              <span className="text-xs sm:text-sm font-medium tabular-nums min-w-[2ch] text-center">
+                {block.repeat}
+              </span>
+              <button
+                onClick={() => onRepeatChange(block.repeat + 1)}
+                className="p-1 text-muted-foreground hover:text-foreground hover:bg-accent rounded"
+                title="More repeats"
+              >
+                <Plus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ) : (
+            <span className="text-[10px] sm:text-xs bg-muted px-1.5 sm:px-2 py-0.5 rounded">
+              x{block.repeat}
+            </span>
+          )}
+        </div>
+        <div className="text-right min-w-[48px] sm:min-w-[60px] flex-shrink-0">
+          <div className="font-medium text-sm sm:text-base">
+            {formatDuration(calculateTotalDuration([block]))}
+          </div>
+        </div>
+
+        {/* Edit controls */}
+        {showEditControls && (
+          <div className="flex items-center gap-0.5 sm:gap-1 flex-shrink-0">
+            <button
+              onClick={onAddAfter}
+              className="p-1 sm:p-1.5 text-muted-foreground hover:text-foreground hover:bg-accent rounded"
+              title="Add segment after"
+            >
+              <Plus className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+            </button>
+            <button
+              onClick={onUngroup}
+              className="p-1 sm:p-1.5 text-muted-foreground hover:text-foreground hover:bg-accent rounded"
+              title="Ungroup block"
+            >
+              <Ungroup className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+            </button>
+            {canDelete && (
+              <button
+                onClick={onDelete}
+                className="p-1 sm:p-1.5 text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded"
+                title="Delete block"
+              >
+                <Trash2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="ml-4 sm:ml-6 mb-3 border-l-2 border-border divide-y divide-border">
+        {children}
+      </div>
+    </div>
+  );
+}
+
 interface SegmentRowProps {
   segment: Segment;
   index: number;
@@ -529,6 +748,7 @@ interface SegmentRowProps {
   onUpdate: (updates: Partial<Segment>) => void;
   onDelete: () => void;
   onAddAfter: () => void;
+  onGroup: () => void;
   canDelete: boolean;
   rowRef?: (el: HTMLDivElement | null) => void;
   onHover: (hovering: boolean) => void;
@@ -545,6 +765,7 @@ function SegmentRow({
   onUpdate,
   onDelete,
   onAddAfter,
+  onGroup,
   canDelete,
   rowRef,
   onHover,
@@ -555,19 +776,27 @@ function SegmentRow({
     segment.targetPower.valueHigh?.toString() || ""
   );
   const [editType, setEditType] = useState(segment.type);
+  const [editGrade, setEditGrade] = useState(segment.simulation?.grade.toString() ?? "");
 
   const powerPercent = getPowerAsPercentFTP(segment, ftp);
   const powerWatts = getPowerAsWatts(segment, ftp);
   const zoneColor = getZoneColor(powerPercent);
+  const isHeartRate = segment.targetPower.type === "heart_rate";
+  const heartRateLabel = segment.targetPower.heartRateUnit === "percent_lthr" ? "HR % LTHR" : "HR bpm";
 
   const handleSave = () => {
     const durationSeconds = parseDuration(editDuration);
     const power = parseInt(editPower) || segment.targetPower.value;
-    const powerHigh = editPowerHigh ? parseInt(editPowerHigh) : undefined;
+    // Free ride has no target to ramp - its power is only the assumed intensity
+    const powerHigh = editPowerHigh && editType !== "freeride" ? parseInt(editPowerHigh) : undefined;
 
     onUpdate({
       type: editType,
       duration: durationSeconds,
+      // A grade turns the segment into a SIM-mode slope; clearing it goes back to ERG
+      simulation: editGrade.trim() && !isNaN(parseFloat(editGrade))
+        ? { ...segment.simulation, grade: Math.max(-20, Math.min(25, parseFloat(editGrade))) }
+        : undefined,
       targetPower: {
         ...segment.targetPower,
         value: Math.max(30, Math.min(200, power)),
@@ -603,6 +832,7 @@ function SegmentRow({
               <option value="interval">Interval</option>
               <option value="recovery">Recovery</option>
               <option value="cooldown">Cool Down</option>
+              <option value="freeride">Free Ride</option>
             </select>
           </div>
 
@@ -620,7 +850,9 @@ function SegmentRow({
 
           {/* Power */}
           <div>
-            <label className="text-xs text-muted-foreground block mb-1">Power %</label>
+            <label className="text-xs text-muted-foreground block mb-1">
+              {editType === "freeride" || editGrade.trim() ? "Assumed %" : isHeartRate ? heartRateLabel : "Power %"}
+            </label>
             <input
               type="number"
               value={editPower}
@@ -633,7 +865,9 @@ function SegmentRow({
 
           {/* Power High (for ramps) */}
           <div>
-            <label className="text-xs text-muted-foreground block mb-1">End % (ramp)</label>
+            <label className="text-xs text-muted-foreground block mb-1">
+              {isHeartRate ? `${heartRateLabel} high` : "End % (ramp)"}
+            </label>
             <input
               type="number"
               value={editPowerHigh}
@@ -641,6 +875,22 @@ function SegmentRow({
               min={30}
               max={200}
               placeholder="Optional"
+              disabled={editType === "freeride"}
+              className="w-full px-2 py-1.5 text-sm border border-border rounded bg-background"
+            />
+          </div>
+
+          {/* Grade (slope segments ridden in SIM mode) */}
+          <div>
+            <label className="text-xs text-muted-foreground block mb-1">Grade % (SIM)</label>
+            <input
+              type="number"
+              value={editGrade}
+              onChange={(e) => setEditGrade(e.target.value)}
+              min={-20}
+              max={25}
+              step={0.5}
+              placeholder="ERG"
               className="w-full px-2 py-1.5 text-sm border border-border rounded bg-background"
             />
           </div>
@@ -707,12 +957,20 @@ function SegmentRow({
       {/* Power */}
       <div className="text-right flex-shrink-0">
         <div className="font-medium text-sm sm:text-base">
-          {segment.targetPower.valueHigh
+          {segment.simulation
+            ? `${segment.simulation.grade}% grade`
+            : isHeartRate
+            ? formatHeartRateTarget(segment)
+            : segment.targetPower.valueHigh
             ? `${segment.targetPower.value}-${segment.targetPower.valueHigh}%`
             : `${Math.round(powerPercent)}%`}
         </div>
         <div className="text-xs sm:text-sm text-muted-foreground">
-          {segment.targetPower.valueHigh
+          {segment.type === "freeride" || segment.simulation
+            ? "assumed"
+            : isHeartRate
+            ? `from ${powerWatts}W`
+            : segment.targetPower.valueHigh
             ? `${Math.round((segment.targetPower.value / 100) * ftp)}-${Math.round((segment.targetPower.valueHigh / 100) * ftp)}W`
             : `${powerWatts}W`}
         </div>
@@ -735,6 +993,13 @@ function SegmentRow({
           >
             <Plus className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
           </button>
+          <button
+            onClick={onGroup}
+            className="p-1 sm:p-1.5 text-muted-foreground hover:text-foreground hover:bg-accent rounded"
+            title="Repeat as block"
+          >
+            <Repeat className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+          </button>
           {canDelete && (
             <button
               onClick={onDelete}
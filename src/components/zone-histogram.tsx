@@ -0,0 +1,37 @@
+"use client";
+
+import { formatDuration } from "@/lib/workout-utils";
+
+interface ZoneHistogramProps {
+  times: number[]; // seconds per zone, zone 1 first
+  zones: { name: string; color: string }[];
+}
+
+export function ZoneHistogram({ times, zones }: ZoneHistogramProps) {
+  const total = times.reduce((sum, seconds) => sum + seconds, 0);
+  const longest = Math.max(1, ...times);
+
+  return (
+    <div className="space-y-1.5">
+      {zones.map((zone, i) => {
+        const seconds = times[i] ?? 0;
+        return (
+          <div key={zone.name} className="flex items-center gap-2 text-xs">
+            <span className="w-6 font-medium tabular-nums">Z{i + 1}</span>
+            <span className="w-24 text-muted-foreground truncate hidden sm:inline">{zone.name}</span>
+            <div className="flex-1 h-3 bg-background rounded-full overflow-hidden">
+              <div
+                className="h-full rounded-full"
+                style={{ width: `${(seconds / longest) * 100}%`, backgroundColor: zone.color }}
+              />
+            </div>
+            <span className="w-14 text-right tabular-nums">{formatDuration(seconds)}</span>
+            <span className="w-10 text-right tabular-nums text-muted-foreground">
+              {total > 0 ? Math.round((seconds / total) * 100) : 0}%
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
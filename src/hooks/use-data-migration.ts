@@ -63,6 +63,7 @@ export function useDataMigration() {
           created_at: w.createdAt,
           source: w.source,
           completion: w.completion ?? null,
+          route: w.route ?? null,
         }));
 
         // upsert to avoid conflicts if some were already synced
@@ -83,6 +84,15 @@ export function useDataMigration() {
         }
       }
 
+      // Migrate FTP history
+      const localFtpHistory = localStorage.getItem("ftp-history");
+      if (localFtpHistory) {
+        const history = JSON.parse(localFtpHistory);
+        if (Array.isArray(history) && history.length > 0) {
+          await supabase.from("profiles").update({ ftp_history: history }).eq("id", user.id);
+        }
+      }
+
       // Migrate Strava tokens
       const localStrava = localStorage.getItem("strava-auth");
       if (localStrava) {
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/components/auth-provider";
 import { useLocalStorage } from "./use-local-storage";
+import { FtpHistoryEntry, Workout } from "@/types/workout";
+import { getWorkoutFtp, sortFtpHistory } from "@/lib/ftp-history";
 
 const DEFAULT_FTP = 200;
 
@@ -64,3 +66,67 @@ export function useRawFTP(): [number | null, (ftp: number | null) => void] {
 
   return [ftp, setFtp];
 }
+
+export function useFtpHistory(): [FtpHistoryEntry[], (history: FtpHistoryEntry[]) => void] {
+  const { user, supabase } = useAuth();
+  const [localHistory, setLocalHistory] = useLocalStorage<FtpHistoryEntry[]>("ftp-history", []);
+  const [dbHistory, setDbHistory] = useState<FtpHistoryEntry[] | null>(null);
+  const [dbLoaded, setDbLoaded] = useState(false);
+
+  // Fetch FTP history from Supabase when logged in
+  useEffect(() => {
+    if (!user) {
+      setDbHistory(null);
+      setDbLoaded(false);
+      return;
+    }
+
+    supabase
+      .from("profiles")
+      .select("ftp_history")
+      .eq("id", user.id)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching FTP history:", error);
+        } else if (data) {
+          setDbHistory((data.ftp_history as FtpHistoryEntry[] | null) ?? null);
+        }
+        setDbLoaded(true);
+      });
+  }, [user, supabase]);
+
+  const setHistory = useCallback(
+    (value: FtpHistoryEntry[]) => {
+      const sorted = sortFtpHistory(value);
+      // Also update localStorage as cache
+      setLocalHistory(sorted);
+      if (!user) return;
+
+      setDbHistory(sorted);
+      supabase
+        .from("profiles")
+        .update({ ftp_history: sorted })
+        .eq("id", user.id)
+        .then(({ error }) => {
+          if (error) console.error("Error saving FTP history:", error);
+        });
+    },
+    [user, supabase, setLocalHistory]
+  );
+
+  // When logged in and DB loaded, use DB value (fallback to localStorage)
+  const history = user && dbLoaded ? (dbHistory ?? localHistory) : localHistory;
+
+  return [history, setHistory];
+}
+
+/**
+ * FTP for showing or recalculating a workout - completed workouts keep the
+ * FTP that applied when they were ridden
+ */
+export function useWorkoutFTP(workout: Workout): number {
+  const [ftp] = useFTP();
+  const [history] = useFtpHistory();
+  return getWorkoutFtp(workout, history, ftp);
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useLocalStorage } from "./use-local-storage";
+import { getHeartRateZoneBounds } from "@/lib/zones";
+import {
+  HeartRateControlSettings,
+  DEFAULT_HEART_RATE_CONTROL,
+  HeartRateZoneSettings,
+  DEFAULT_HEART_RATE_ZONES,
+} from "@/types/trainer";
+
+export function useHeartRateControlSettings(): [
+  HeartRateControlSettings,
+  (settings: Partial<HeartRateControlSettings>) => void
+] {
+  const [stored, setStored] = useLocalStorage<HeartRateControlSettings>(
+    "heart-rate-control",
+    DEFAULT_HEART_RATE_CONTROL
+  );
+
+  // Fill in fields added since the settings were saved
+  const settings = useMemo(() => ({ ...DEFAULT_HEART_RATE_CONTROL, ...stored }), [stored]);
+
+  const updateSettings = useCallback(
+    (changes: Partial<HeartRateControlSettings>) => {
+      setStored({ ...settings, ...changes });
+    },
+    [settings, setStored]
+  );
+
+  return [settings, updateSettings];
+}
+
+export function useHeartRateZoneSettings(): [
+  HeartRateZoneSettings,
+  (settings: Partial<HeartRateZoneSettings>) => void
+] {
+  const [stored, setStored] = useLocalStorage<HeartRateZoneSettings>(
+    "heart-rate-zones",
+    DEFAULT_HEART_RATE_ZONES
+  );
+
+  const settings = useMemo(() => ({ ...DEFAULT_HEART_RATE_ZONES, ...stored }), [stored]);
+
+  const updateSettings = useCallback(
+    (changes: Partial<HeartRateZoneSettings>) => {
+      setStored({ ...settings, ...changes });
+    },
+    [settings, setStored]
+  );
+
+  return [settings, updateSettings];
+}
+
+/**
+ * Heart-rate zone bounds (bpm) from the rider's settings, or null when the
+ * LTHR or max HR they are based on isn't set
+ */
+export function useHeartRateZoneBounds(): number[] | null {
+  const [heartRateControl] = useHeartRateControlSettings();
+  const [zoneSettings] = useHeartRateZoneSettings();
+  return useMemo(
+    () => getHeartRateZoneBounds(zoneSettings, heartRateControl.lthr),
+    [zoneSettings, heartRateControl.lthr]
+  );
+}
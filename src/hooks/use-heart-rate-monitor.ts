@@ -1,54 +1,65 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
-import { BLUETOOTH_UUIDS } from "@/types/trainer";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { BLUETOOTH_UUIDS, KnownDevice } from "@/types/trainer";
+import {
+  canConnectWithoutChooser,
+  connectWithTimeout,
+  getPermittedDevice,
+  startReconnect,
+} from "@/lib/ble-reconnect";
+import { getKnownDeviceName, getKnownDevicesOfKind, upsertKnownDevice } from "@/lib/known-devices";
+import { useKnownDevices } from "./use-known-devices";
 
-export type HRMonitorConnectionState = "disconnected" | "connecting" | "connected" | "error";
+export type HRMonitorConnectionState = "disconnected" | "connecting" | "connected" | "reconnecting" | "error";
 
-interface UseHeartRateMonitorReturn {
+export interface UseHeartRateMonitorReturn {
   connectionState: HRMonitorConnectionState;
   deviceName: string | null;
   heartRate: number | null;
   errorMessage: string | null;
   connect: () => Promise<void>;
+  connectKnown: (id?: string) => Promise<boolean>; // Remembered strap without the chooser, most recent by default
+  knownDevices: KnownDevice[];                     // Remembered straps, most recently used first
   disconnect: () => void;
   isSupported: boolean;
 }
 
-export function useHeartRateMonitor(): UseHeartRateMonitorReturn {
+interface UseHeartRateMonitorOptions {
+  autoConnect?: boolean; // Connect to the last used strap on mount, where the browser allows it
+}
+
+export function useHeartRateMonitor({ autoConnect = false }: UseHeartRateMonitorOptions = {}): UseHeartRateMonitorReturn {
   const [connectionState, setConnectionState] = useState<HRMonitorConnectionState>("disconnected");
   const [deviceName, setDeviceName] = useState<string | null>(null);
   const [heartRate, setHeartRate] = useState<number | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [knownDevices, setKnownDevices] = useKnownDevices();
+  const knownMonitors = useMemo(() => getKnownDevicesOfKind(knownDevices, "heart_rate_monitor"), [knownDevices]);
+  // Latest list for connections that finish after another device updated it
+  const knownDevicesRef = useRef(knownDevices);
+  knownDevicesRef.current = knownDevices;
 
   const deviceRef = useRef<BluetoothDevice | null>(null);
+  const stopReconnectRef = useRef<(() => void) | null>(null);
 
   const isSupported = typeof navigator !== "undefined" && "bluetooth" in navigator;
 
+  const cancelReconnect = useCallback(() => {
+    stopReconnectRef.current?.();
+    stopReconnectRef.current = null;
+  }, []);
+
   const cleanup = useCallback(() => {
+    cancelReconnect();
     if (deviceRef.current?.gatt?.connected) {
       deviceRef.current.gatt.disconnect();
     }
     deviceRef.current = null;
-  }, []);
+  }, [cancelReconnect]);
 
-  // Handle device disconnection
-  useEffect(() => {
-    const handleDisconnect = () => {
-      setConnectionState("disconnected");
-      setDeviceName(null);
-      setHeartRate(null);
-      cleanup();
-    };
-
-    const device = deviceRef.current;
-    if (device) {
-      device.addEventListener("gattserverdisconnected", handleDisconnect);
-      return () => {
-        device.removeEventListener("gattserverdisconnected", handleDisconnect);
-      };
-    }
-  }, [cleanup, connectionState]);
+  // Stop retrying a dropped strap when the player goes away
+  useEffect(() => cancelReconnect, [cancelReconnect]);
 
   // Parse Heart Rate Measurement
   const parseHeartRateMeasurement = useCallback((data: DataView) => {
@@ -58,6 +69,136 @@ export function useHeartRateMonitor(): UseHeartRateMonitorReturn {
     setHeartRate(hr);
   }, []);
 
+  // Connect to the GATT server and subscribe - for the first connection and
+  // again after a dropout
+  const setupDevice = useCallback(async (device: BluetoothDevice) => {
+    deviceRef.current = device;
+    setDeviceName(device.name || "HR Monitor");
+
+    if (!device.gatt) {
+      throw new Error("Device does not support GATT");
+    }
+    const server = await device.gatt.connect();
+
+    const hrService = await server.getPrimaryService(BLUETOOTH_UUIDS.HEART_RATE_SERVICE);
+    const hrMeasurement = await hrService.getCharacteristic(BLUETOOTH_UUIDS.HEART_RATE_MEASUREMENT);
+
+    await hrMeasurement.startNotifications();
+    hrMeasurement.addEventListener("characteristicvaluechanged", (event) => {
+      const target = event.target as BluetoothRemoteGATTCharacteristic;
+      if (target.value) {
+        parseHeartRateMeasurement(target.value);
+      }
+    });
+  }, [parseHeartRateMeasurement]);
+
+  // Handle device disconnection - a strap that drops is reconnected in the
+  // background
+  useEffect(() => {
+    const device = deviceRef.current;
+    if (!device) return;
+
+    const handleDisconnect = () => {
+      // Disconnected on purpose, mid-connect, or already being retried
+      if (connectionState !== "connected" || deviceRef.current !== device || stopReconnectRef.current) return;
+
+      setHeartRate(null);
+      setConnectionState("reconnecting");
+      const stop = startReconnect(
+        device,
+        async (paired) => {
+          await setupDevice(paired);
+          if (stopReconnectRef.current !== stop) {
+            // Disconnected while this attempt was in flight
+            cleanup();
+            return;
+          }
+          stopReconnectRef.current = null;
+          setConnectionState("connected");
+        },
+        () => {
+          stopReconnectRef.current = null;
+          cleanup();
+          setDeviceName(null);
+          setErrorMessage("Lost connection to HR monitor");
+          setConnectionState("error");
+        }
+      );
+      stopReconnectRef.current = stop;
+    };
+
+    device.addEventListener("gattserverdisconnected", handleDisconnect);
+    return () => {
+      device.removeEventListener("gattserverdisconnected", handleDisconnect);
+    };
+  }, [cleanup, setupDevice, connectionState]);
+
+  // Remember the strap for one-tap connect next time
+  const rememberMonitor = useCallback((device: BluetoothDevice) => {
+    const updated = upsertKnownDevice(knownDevicesRef.current, {
+      id: device.id,
+      kind: "heart_rate_monitor",
+      name: device.name || "HR Monitor",
+    });
+    setKnownDevices(updated);
+    const known = updated.find((d) => d.id === device.id && d.kind === "heart_rate_monitor");
+    if (known) {
+      setDeviceName(getKnownDeviceName(known));
+    }
+  }, [setKnownDevices]);
+
+  // Connect to a remembered strap the site still has permission for. Quiet
+  // attempts (auto-connect) go back to disconnected instead of showing an error
+  const connectKnownDevice = useCallback(async (known: KnownDevice, quiet: boolean): Promise<boolean> => {
+    const name = getKnownDeviceName(known);
+    const device = await getPermittedDevice(known.id);
+    if (!device) {
+      if (!quiet) {
+        setErrorMessage(`Pair ${name} again to connect`);
+        setConnectionState("error");
+      }
+      return false;
+    }
+
+    try {
+      setConnectionState("connecting");
+      setErrorMessage(null);
+      await connectWithTimeout(device, () => setupDevice(device));
+      rememberMonitor(device);
+      setConnectionState("connected");
+      return true;
+    } catch (err) {
+      console.log(`Could not connect to ${name}:`, err);
+      cleanup();
+      setDeviceName(null);
+      if (quiet) {
+        setConnectionState("disconnected");
+      } else {
+        setErrorMessage(`Couldn't reach ${name} - is it on?`);
+        setConnectionState("error");
+      }
+      return false;
+    }
+  }, [setupDevice, rememberMonitor, cleanup]);
+
+  const connectKnown = useCallback(async (id?: string): Promise<boolean> => {
+    const known = id ? knownMonitors.find((d) => d.id === id) : knownMonitors[0];
+    if (!isSupported || !known) {
+      return false;
+    }
+    return connectKnownDevice(known, false);
+  }, [isSupported, knownMonitors, connectKnownDevice]);
+
+  // Connect to the last used strap on its own where the browser allows it
+  const autoConnectTriedRef = useRef(false);
+  useEffect(() => {
+    if (!autoConnect || autoConnectTriedRef.current || !canConnectWithoutChooser()) return;
+    const known = knownMonitors[0];
+    if (!known) return;
+    autoConnectTriedRef.current = true;
+    connectKnownDevice(known, true);
+  }, [autoConnect, knownMonitors, connectKnownDevice]);
+
   const connect = useCallback(async () => {
     if (!isSupported) {
       setErrorMessage("Web Bluetooth is not supported in this browser");
@@ -74,25 +215,8 @@ export function useHeartRateMonitor(): UseHeartRateMonitorReturn {
         optionalServices: [BLUETOOTH_UUIDS.HEART_RATE_SERVICE],
       });
 
-      deviceRef.current = device;
-      setDeviceName(device.name || "HR Monitor");
-
-      if (!device.gatt) {
-        throw new Error("Device does not support GATT");
-      }
-      const server = await device.gatt.connect();
-
-      const hrService = await server.getPrimaryService(BLUETOOTH_UUIDS.HEART_RATE_SERVICE);
-      const hrMeasurement = await hrService.getCharacteristic(BLUETOOTH_UUIDS.HEART_RATE_MEASUREMENT);
-
-      await hrMeasurement.startNotifications();
-      hrMeasurement.addEventListener("characteristicvaluechanged", (event) => {
-        const target = event.target as BluetoothRemoteGATTCharacteristic;
-        if (target.value) {
-          parseHeartRateMeasurement(target.value);
-        }
-      });
-
+      await setupDevice(device);
+      rememberMonitor(device);
       setConnectionState("connected");
     } catch (err) {
       // User cancelled the Bluetooth picker — not an error, just go back to disconnected
@@ -110,7 +234,7 @@ export function useHeartRateMonitor(): UseHeartRateMonitorReturn {
       setConnectionState("error");
       cleanup();
     }
-  }, [isSupported, cleanup, parseHeartRateMeasurement]);
+  }, [isSupported, cleanup, setupDevice, rememberMonitor]);
 
   const disconnect = useCallback(() => {
     cleanup();
@@ -125,6 +249,8 @@ export function useHeartRateMonitor(): UseHeartRateMonitorReturn {
     heartRate,
     errorMessage,
     connect,
+    connectKnown,
+    knownDevices: knownMonitors,
     disconnect,
     isSupported,
   };
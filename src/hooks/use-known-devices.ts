@@ -0,0 +1,11 @@
+"use client";
+
+import { useLocalStorage } from "./use-local-storage";
+import { KnownDevice } from "@/types/trainer";
+
+// Device ids are per browser, so the registry stays in this browser rather
+// than following the rider's account
+export function useKnownDevices(): [KnownDevice[], (devices: KnownDevice[]) => void] {
+  const [devices, setDevices] = useLocalStorage<KnownDevice[]>("known-devices", []);
+  return [devices, setDevices];
+}
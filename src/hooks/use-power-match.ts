@@ -0,0 +1,143 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { useLocalStorage } from "./use-local-storage";
+import { PowerMatchSettings, SimulationParams, DEFAULT_POWER_MATCH } from "@/types/trainer";
+import { createPowerMatchState, getPowerMatchTarget, updatePowerMatch } from "@/lib/power-match";
+
+// Corrections are re-sent at most this often, and only when they moved enough
+const ADJUST_INTERVAL_MS = 2000;
+const MIN_ADJUST_WATTS = 2;
+
+interface UsePowerMatchProps {
+  settings: PowerMatchSettings;
+  trainerPower: number | null; // what the trainer reports
+  meterPower: number | null;   // what the power meter reports, null when none is paired
+  setTargetPower?: (watts: number) => Promise<boolean>;
+  setResistanceMode?: (level: number) => Promise<boolean>;
+  setSimulation?: (params: SimulationParams) => Promise<boolean>;
+}
+
+interface UsePowerMatchReturn {
+  // Trainer controls to use instead of the trainer's own - ERG targets are
+  // corrected, and leaving ERG stops the correction
+  setTargetPower?: (watts: number) => Promise<boolean>;
+  setResistanceMode?: (level: number) => Promise<boolean>;
+  setSimulation?: (params: SimulationParams) => Promise<boolean>;
+  isActive: boolean;
+  offset: number; // watts added to the ERG target right now
+}
+
+export function usePowerMatchSettings(): [PowerMatchSettings, (settings: Partial<PowerMatchSettings>) => void] {
+  const [stored, setStored] = useLocalStorage<PowerMatchSettings>("power-match", DEFAULT_POWER_MATCH);
+
+  const settings = useMemo(() => ({ ...DEFAULT_POWER_MATCH, ...stored }), [stored]);
+
+  const updateSettings = useCallback(
+    (changes: Partial<PowerMatchSettings>) => {
+      setStored({ ...settings, ...changes });
+    },
+    [settings, setStored]
+  );
+
+  return [settings, updateSettings];
+}
+
+/**
+ * Steers ERG from an external power meter: the target sent to the trainer is
+ * scaled by how the two disagree, so the power meter reads the target
+ */
+export function usePowerMatch({
+  settings,
+  trainerPower,
+  meterPower,
+  setTargetPower,
+  setResistanceMode,
+  setSimulation,
+}: UsePowerMatchProps): UsePowerMatchReturn {
+  const [offset, setOffset] = useState(0);
+
+  const isActive = settings.enabled && meterPower !== null && !!setTargetPower;
+
+  const stateRef = useRef(createPowerMatchState());
+  const lastUpdateAtRef = useRef(0);
+  const targetRef = useRef(0); // ERG target asked for, 0 outside ERG
+  const sentRef = useRef(0); // what the trainer was last sent
+  const sentAtRef = useRef(0);
+  const isActiveRef = useRef(isActive);
+  const settingsRef = useRef(settings);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  const send = useCallback((watts: number): Promise<boolean> => {
+    if (!setTargetPower) return Promise.resolve(false);
+    const target = isActiveRef.current
+      ? getPowerMatchTarget(watts, stateRef.current, settingsRef.current)
+      : watts;
+    sentRef.current = target;
+    sentAtRef.current = Date.now();
+    setOffset(target - watts);
+    return setTargetPower(target);
+  }, [setTargetPower]);
+
+  // Starting or stopping a match re-sends the target, and a new match
+  // starts from fresh readings
+  useEffect(() => {
+    isActiveRef.current = isActive;
+    stateRef.current = createPowerMatchState();
+    lastUpdateAtRef.current = 0;
+    if (targetRef.current > 0) {
+      send(targetRef.current).catch((err) => {
+        console.error("Failed to send power match target:", err);
+      });
+    } else {
+      setOffset(0);
+    }
+  }, [isActive, send]);
+
+  // Fold each reading into the match and re-send the corrected target when
+  // it has drifted
+  useEffect(() => {
+    if (!isActiveRef.current) return;
+
+    const now = Date.now();
+    const dt = lastUpdateAtRef.current ? (now - lastUpdateAtRef.current) / 1000 : 0;
+    lastUpdateAtRef.current = now;
+    stateRef.current = updatePowerMatch(stateRef.current, trainerPower, meterPower, settingsRef.current, dt);
+
+    const target = targetRef.current;
+    if (target <= 0 || now - sentAtRef.current < ADJUST_INTERVAL_MS) return;
+    const corrected = getPowerMatchTarget(target, stateRef.current, settingsRef.current);
+    if (Math.abs(corrected - sentRef.current) < MIN_ADJUST_WATTS) return;
+    send(target).catch((err) => {
+      console.error("Failed to send power match target:", err);
+    });
+  }, [trainerPower, meterPower, send]);
+
+  const matchedSetTargetPower = useCallback((watts: number) => {
+    targetRef.current = watts;
+    return send(watts);
+  }, [send]);
+
+  const matchedSetResistanceMode = useCallback((level: number) => {
+    targetRef.current = 0;
+    setOffset(0);
+    return setResistanceMode ? setResistanceMode(level) : Promise.resolve(false);
+  }, [setResistanceMode]);
+
+  const matchedSetSimulation = useCallback((params: SimulationParams) => {
+    targetRef.current = 0;
+    setOffset(0);
+    return setSimulation ? setSimulation(params) : Promise.resolve(false);
+  }, [setSimulation]);
+
+  return {
+    setTargetPower: setTargetPower ? matchedSetTargetPower : undefined,
+    setResistanceMode: setResistanceMode ? matchedSetResistanceMode : undefined,
+    setSimulation: setSimulation ? matchedSetSimulation : undefined,
+    isActive,
+    offset,
+  };
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { useLocalStorage } from "./use-local-storage";
+import {
+  BLUETOOTH_UUIDS,
+  TrainerConnectionState,
+  TrainerMetrics,
+  SensorKind,
+  SensorSources,
+  DEFAULT_SENSOR_SOURCES,
+} from "@/types/trainer";
+import {
+  RevolutionReading,
+  calculateCadence,
+  calculateWheelSpeed,
+  parseCyclingPowerMeasurement,
+  parseSpeedCadenceMeasurement,
+} from "@/lib/ble-sensors";
+
+export interface UseSensorReturn {
+  connectionState: TrainerConnectionState;
+  deviceName: string | null;
+  metrics: TrainerMetrics;
+  errorMessage: string | null;
+  connect: () => Promise<void>;
+  disconnect: () => void;
+  isSupported: boolean;
+}
+
+const SENSOR_SERVICES: Record<SensorKind, { service: string; characteristic: string; name: string }> = {
+  power_meter: {
+    service: BLUETOOTH_UUIDS.CYCLING_POWER_SERVICE,
+    characteristic: BLUETOOTH_UUIDS.CYCLING_POWER_MEASUREMENT,
+    name: "Power Meter",
+  },
+  speed_cadence: {
+    service: BLUETOOTH_UUIDS.CYCLING_SPEED_CADENCE_SERVICE,
+    characteristic: BLUETOOTH_UUIDS.CSC_MEASUREMENT,
+    name: "Cadence Sensor",
+  },
+};
+
+const EMPTY_METRICS: TrainerMetrics = {
+  power: null,
+  cadence: null,
+  speed: null,
+  heartRate: null,
+  timestamp: 0,
+};
+
+/**
+ * A power meter (Cycling Power service) or speed/cadence sensor (CSC
+ * service) paired on its own, next to the trainer and HR monitor
+ */
+export function useSensor(kind: SensorKind): UseSensorReturn {
+  const [connectionState, setConnectionState] = useState<TrainerConnectionState>("disconnected");
+  const [deviceName, setDeviceName] = useState<string | null>(null);
+  const [metrics, setMetrics] = useState<TrainerMetrics>(EMPTY_METRICS);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const deviceRef = useRef<BluetoothDevice | null>(null);
+  const lastCrankRef = useRef<RevolutionReading | null>(null);
+  const lastWheelRef = useRef<RevolutionReading | null>(null);
+
+  const isSupported = typeof navigator !== "undefined" && "bluetooth" in navigator;
+  const { service, characteristic, name } = SENSOR_SERVICES[kind];
+
+  const cleanup = useCallback(() => {
+    if (deviceRef.current?.gatt?.connected) {
+      deviceRef.current.gatt.disconnect();
+    }
+    deviceRef.current = null;
+    lastCrankRef.current = null;
+    lastWheelRef.current = null;
+  }, []);
+
+  // Handle device disconnection
+  useEffect(() => {
+    const handleDisconnect = () => {
+      setConnectionState("disconnected");
+      setDeviceName(null);
+      setMetrics(EMPTY_METRICS);
+      cleanup();
+    };
+
+    const device = deviceRef.current;
+    if (device) {
+      device.addEventListener("gattserverdisconnected", handleDisconnect);
+      return () => {
+        device.removeEventListener("gattserverdisconnected", handleDisconnect);
+      };
+    }
+  }, [cleanup, connectionState]);
+
+  const handleMeasurement = useCallback((data: DataView) => {
+    const update: Partial<TrainerMetrics> = { timestamp: Date.now() };
+
+    let crank: RevolutionReading | null;
+    if (kind === "power_meter") {
+      const measurement = parseCyclingPowerMeasurement(data);
+      update.power = measurement.power;
+      crank = measurement.crank;
+    } else {
+      const measurement = parseSpeedCadenceMeasurement(data);
+      crank = measurement.crank;
+      if (measurement.wheel) {
+        if (lastWheelRef.current) {
+          const speed = calculateWheelSpeed(lastWheelRef.current, measurement.wheel);
+          if (speed !== null) update.speed = speed;
+        }
+        lastWheelRef.current = measurement.wheel;
+      }
+    }
+
+    if (crank) {
+      if (lastCrankRef.current) {
+        const cadence = calculateCadence(lastCrankRef.current, crank);
+        if (cadence !== null) update.cadence = cadence;
+      }
+      lastCrankRef.current = crank;
+    }
+
+    setMetrics((prev) => ({ ...prev, ...update }));
+  }, [kind]);
+
+  const connect = useCallback(async () => {
+    if (!isSupported) {
+      setErrorMessage("Web Bluetooth is not supported in this browser");
+      setConnectionState("error");
+      return;
+    }
+
+    try {
+      setConnectionState("connecting");
+      setErrorMessage(null);
+
+      const device = await navigator.bluetooth.requestDevice({
+        filters: [{ services: [service] }],
+        optionalServices: [service],
+      });
+
+      deviceRef.current = device;
+      setDeviceName(device.name || name);
+
+      if (!device.gatt) {
+        throw new Error("Device does not support GATT");
+      }
+      const server = await device.gatt.connect();
+
+      const sensorService = await server.getPrimaryService(service);
+      const measurement = await sensorService.getCharacteristic(characteristic);
+
+      await measurement.startNotifications();
+      measurement.addEventListener("characteristicvaluechanged", (event) => {
+        const target = event.target as BluetoothRemoteGATTCharacteristic;
+        if (target.value) {
+          handleMeasurement(target.value);
+        }
+      });
+
+      setConnectionState("connected");
+    } catch (err) {
+      // User cancelled the Bluetooth picker — not an error, just go back to disconnected
+      if (err instanceof DOMException && err.name === "NotFoundError") {
+        setConnectionState("disconnected");
+        return;
+      }
+      console.error(`${name} connection error:`, err);
+      const msg = err instanceof DOMException && err.name === "SecurityError"
+        ? "Bluetooth permission denied"
+        : err instanceof DOMException && err.name === "NetworkError"
+        ? `Lost connection to ${name.toLowerCase()}`
+        : `Failed to connect to ${name.toLowerCase()}`;
+      setErrorMessage(msg);
+      setConnectionState("error");
+      cleanup();
+    }
+  }, [isSupported, service, characteristic, name, cleanup, handleMeasurement]);
+
+  const disconnect = useCallback(() => {
+    cleanup();
+    setConnectionState("disconnected");
+    setDeviceName(null);
+    setMetrics(EMPTY_METRICS);
+  }, [cleanup]);
+
+  return {
+    connectionState,
+    deviceName,
+    metrics,
+    errorMessage,
+    connect,
+    disconnect,
+    isSupported,
+  };
+}
+
+export function useSensorSources(): [SensorSources, (sources: Partial<SensorSources>) => void] {
+  const [stored, setStored] = useLocalStorage<SensorSources>("sensor-sources", DEFAULT_SENSOR_SOURCES);
+
+  const sources = useMemo(() => ({ ...DEFAULT_SENSOR_SOURCES, ...stored }), [stored]);
+
+  const updateSources = useCallback(
+    (changes: Partial<SensorSources>) => {
+      setStored({ ...sources, ...changes });
+    },
+    [sources, setStored]
+  );
+
+  return [sources, updateSources];
+}
@@ -29,8 +29,12 @@ export interface StravaUploadResult {
 
 export type StravaUploadStatus = "idle" | "uploading" | "processing" | "success" | "error";
 
+// FIT data is passed around base64 encoded, TCX as the raw XML string
+export type StravaUploadDataType = "tcx" | "fit";
+
 export interface PendingStravaUpload {
-  tcxData: string;
+  fileData: string;
+  dataType: StravaUploadDataType;
   name: string;
   description: string;
   workoutId?: string; // To restore the workout view after OAuth
@@ -44,7 +48,12 @@ export interface UseStravaReturn {
   connect: () => void;
   connectWithPendingUpload: (pendingUpload: PendingStravaUpload) => void;
   disconnect: () => void;
-  uploadActivity: (tcxData: string, name: string, description?: string) => Promise<StravaUploadResult>;
+  uploadActivity: (
+    fileData: string,
+    name: string,
+    description?: string,
+    dataType?: StravaUploadDataType
+  ) => Promise<StravaUploadResult>;
   uploadStatus: StravaUploadStatus;
   uploadError: string | null;
   activityUrl: string | null;
@@ -90,7 +99,13 @@ function getPendingUpload(): PendingStravaUpload | null {
   try {
     const stored = localStorage.getItem(STRAVA_PENDING_UPLOAD_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      const parsed: PendingStravaUpload & { tcxData?: string } = JSON.parse(stored);
+      // Uploads stored before FIT support only carried TCX in `tcxData`
+      if (!parsed.fileData && parsed.tcxData) {
+        const { tcxData, ...rest } = parsed;
+        return { ...rest, fileData: tcxData, dataType: "tcx" };
+      }
+      return parsed;
     }
   } catch (e) {
     console.error("Error reading pending Strava upload:", e);
@@ -275,7 +290,12 @@ export function useStrava(): UseStravaReturn {
   }, [user, supabase]);
 
   const uploadActivity = useCallback(
-    async (tcxData: string, name: string, description?: string): Promise<StravaUploadResult> => {
+    async (
+      fileData: string,
+      name: string,
+      description?: string,
+      dataType: StravaUploadDataType = "tcx"
+    ): Promise<StravaUploadResult> => {
       setUploadStatus("uploading");
       setUploadError(null);
       setActivityUrl(null);
@@ -319,7 +339,8 @@ export function useStrava(): UseStravaReturn {
           },
           body: JSON.stringify({
             access_token: validTokens.access_token,
-            tcx_data: tcxData,
+            file_data: fileData,
+            data_type: dataType,
             name,
             description: description || `Workout completed with BrowserTurbo`,
           }),
@@ -1,29 +1,76 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { useKnownDevices } from "./use-known-devices";
 import {
   TrainerConnectionState,
   TrainerMetrics,
   TrainerCapabilities,
+  SimulationParams,
+  FitnessMachineStatus,
+  KnownDevice,
+  SpinDownState,
+  IDLE_SPIN_DOWN,
   BLUETOOTH_UUIDS,
   FTMS_OPCODES,
+  FTMS_RESULT_CODES,
   WAHOO_OPCODES,
 } from "@/types/trainer";
+import { getTotalMass, getWindResistanceCoefficient } from "@/lib/cycling-physics";
+import {
+  RevolutionReading,
+  calculateCadence,
+  parseCyclingPowerMeasurement as parseCyclingPower,
+} from "@/lib/ble-sensors";
+import {
+  ControlPointResponse,
+  getControlResultMessage,
+  parseControlPointResponse,
+  parseMachineStatus,
+  parseSpinDownTargetSpeeds,
+  supportsSpinDown,
+} from "@/lib/ftms";
+import {
+  canConnectWithoutChooser,
+  connectWithTimeout,
+  getPermittedDevice,
+  startReconnect,
+} from "@/lib/ble-reconnect";
+import { getKnownDeviceName, getKnownDevicesOfKind, upsertKnownDevice } from "@/lib/known-devices";
+
+// How long to wait for the trainer to answer a control point write
+const FTMS_RESPONSE_TIMEOUT_MS = 3000;
 
-interface UseTrainerReturn {
+// Spin Down Control parameters
+const SPIN_DOWN_START = 0x01;
+const SPIN_DOWN_IGNORE = 0x02;
+
+export interface UseTrainerReturn {
   connectionState: TrainerConnectionState;
   trainerName: string | null;
   metrics: TrainerMetrics;
   capabilities: TrainerCapabilities;
   errorMessage: string | null;
   connect: () => Promise<void>;
+  connectKnown: (id?: string) => Promise<boolean>; // Remembered trainer without the chooser, most recent by default
+  knownDevices: KnownDevice[];                     // Remembered trainers, most recently used first
   disconnect: () => void;
   setTargetPower: (watts: number) => Promise<boolean>;
   setResistanceMode: (level: number) => Promise<boolean>;
+  setSimulation: (params: SimulationParams) => Promise<boolean>;
+  controlError: string | null;                // Last refused control command, cleared once one succeeds
+  machineStatus: FitnessMachineStatus | null; // Last event the trainer reported on its own
+  spinDown: SpinDownState;
+  startSpinDown: () => Promise<boolean>;
+  cancelSpinDown: () => void;
   isSupported: boolean;
 }
 
-export function useTrainer(): UseTrainerReturn {
+interface UseTrainerOptions {
+  autoConnect?: boolean; // Connect to the last used trainer on mount, where the browser allows it
+}
+
+export function useTrainer({ autoConnect = false }: UseTrainerOptions = {}): UseTrainerReturn {
   const [connectionState, setConnectionState] = useState<TrainerConnectionState>('disconnected');
   const [trainerName, setTrainerName] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -38,8 +85,17 @@ export function useTrainer(): UseTrainerReturn {
     hasFTMS: false,
     hasWahooExtension: false,
     hasCyclingPower: false,
+    hasSpinDown: false,
     controlProtocol: 'none',
   });
+  const [controlError, setControlError] = useState<string | null>(null);
+  const [machineStatus, setMachineStatus] = useState<FitnessMachineStatus | null>(null);
+  const [spinDown, setSpinDown] = useState<SpinDownState>(IDLE_SPIN_DOWN);
+  const [knownDevices, setKnownDevices] = useKnownDevices();
+  const knownTrainers = useMemo(() => getKnownDevicesOfKind(knownDevices, 'trainer'), [knownDevices]);
+  // Latest list for connections that finish after another device updated it
+  const knownDevicesRef = useRef(knownDevices);
+  knownDevicesRef.current = knownDevices;
 
   // Refs for Bluetooth objects
   const deviceRef = useRef<BluetoothDevice | null>(null);
@@ -47,49 +103,63 @@ export function useTrainer(): UseTrainerReturn {
   const ftmsControlPointRef = useRef<BluetoothRemoteGATTCharacteristic | null>(null);
   const wahooTrainerRef = useRef<BluetoothRemoteGATTCharacteristic | null>(null);
 
-  // Refs for cadence calculation
-  const lastCrankRevsRef = useRef<number | null>(null);
-  const lastCrankTimeRef = useRef<number | null>(null);
+  // FTMS control point exchange - commands go one at a time, each waiting for
+  // its response, and control is requested again after it was lost
+  const pendingResponseRef = useRef<{
+    opcode: number;
+    resolve: (response: ControlPointResponse | null) => void;
+  } | null>(null);
+  const commandQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const hasControlRef = useRef(false);
+
+  // Stops the reconnect attempts while a dropped trainer is being retried
+  const stopReconnectRef = useRef<(() => void) | null>(null);
+
+  // Last crank reading, for cadence calculation
+  const lastCrankRef = useRef<RevolutionReading | null>(null);
 
   // Check if Web Bluetooth is supported
   const isSupported = typeof navigator !== 'undefined' && 'bluetooth' in navigator;
 
-  // Cleanup function
-  const cleanup = useCallback(() => {
-    if (deviceRef.current?.gatt?.connected) {
-      deviceRef.current.gatt.disconnect();
-    }
-    deviceRef.current = null;
+  // Forget everything tied to the GATT connection, keeping the device
+  const resetLink = useCallback(() => {
     serverRef.current = null;
     ftmsControlPointRef.current = null;
     wahooTrainerRef.current = null;
-    lastCrankRevsRef.current = null;
-    lastCrankTimeRef.current = null;
+    lastCrankRef.current = null;
+    pendingResponseRef.current?.resolve(null);
+    pendingResponseRef.current = null;
+    commandQueueRef.current = Promise.resolve();
+    hasControlRef.current = false;
+    setMetrics({
+      power: null,
+      cadence: null,
+      speed: null,
+      heartRate: null,
+      timestamp: Date.now(),
+    });
   }, []);
 
-  // Handle device disconnection
-  useEffect(() => {
-    const handleDisconnect = () => {
-      setConnectionState('disconnected');
-      setTrainerName(null);
-      setMetrics({
-        power: null,
-        cadence: null,
-        speed: null,
-        heartRate: null,
-        timestamp: Date.now(),
-      });
-      cleanup();
-    };
+  const cancelReconnect = useCallback(() => {
+    stopReconnectRef.current?.();
+    stopReconnectRef.current = null;
+  }, []);
 
-    const device = deviceRef.current;
-    if (device) {
-      device.addEventListener('gattserverdisconnected', handleDisconnect);
-      return () => {
-        device.removeEventListener('gattserverdisconnected', handleDisconnect);
-      };
+  // Cleanup function
+  const cleanup = useCallback(() => {
+    cancelReconnect();
+    if (deviceRef.current?.gatt?.connected) {
+      deviceRef.current.gatt.disconnect();
     }
-  }, [cleanup, connectionState]);
+    deviceRef.current = null;
+    resetLink();
+    setControlError(null);
+    setMachineStatus(null);
+    setSpinDown(IDLE_SPIN_DOWN);
+  }, [cancelReconnect, resetLink]);
+
+  // Stop retrying a dropped trainer when the player goes away
+  useEffect(() => cancelReconnect, [cancelReconnect]);
 
   // Parse FTMS Indoor Bike Data
   const parseFTMSIndoorBikeData = useCallback((data: DataView) => {
@@ -160,50 +230,21 @@ export function useTrainer(): UseTrainerReturn {
 
   // Parse Cycling Power Measurement
   const parseCyclingPowerMeasurement = useCallback((data: DataView) => {
-    const flags = data.getUint16(0, true);
-    let offset = 2;
-
-    // Instantaneous Power (always present)
-    const power = data.getInt16(offset, true);
-    offset += 2;
-
+    const { power, crank } = parseCyclingPower(data);
     const metrics: Partial<TrainerMetrics> = {
       power,
       timestamp: Date.now(),
     };
 
-    // Skip balance data if present
-    if (flags & 0x01) offset += 1;
-
-    // Skip torque data if present
-    if (flags & 0x04) offset += 2;
-
-    // Wheel revolution data (skip if present)
-    if (flags & 0x10) offset += 6;
-
     // Crank revolution data (for cadence calculation)
-    if (flags & 0x20) {
-      const crankRevs = data.getUint16(offset, true);
-      const crankTime = data.getUint16(offset + 2, true);
-
-      if (lastCrankRevsRef.current !== null && lastCrankTimeRef.current !== null) {
-        // Handle rollover (16-bit values)
-        const dRevs = (crankRevs - lastCrankRevsRef.current + 65536) % 65536;
-        const dTime = (crankTime - lastCrankTimeRef.current + 65536) % 65536;
-
-        if (dTime > 0 && dRevs < 100) { // Sanity check
-          const dTimeSec = dTime / 1024; // 1/1024 second resolution
-          const rpm = (dRevs / dTimeSec) * 60;
-          if (rpm < 200) { // Reasonable cadence limit
-            metrics.cadence = Math.round(rpm);
-          }
-        } else if (dTime > 2048) { // ~2 seconds with no update = stopped
-          metrics.cadence = 0;
+    if (crank) {
+      if (lastCrankRef.current) {
+        const cadence = calculateCadence(lastCrankRef.current, crank);
+        if (cadence !== null) {
+          metrics.cadence = cadence;
         }
       }
-
-      lastCrankRevsRef.current = crankRevs;
-      lastCrankTimeRef.current = crankTime;
+      lastCrankRef.current = crank;
     }
 
     setMetrics((prev) => ({
@@ -225,169 +266,425 @@ export function useTrainer(): UseTrainerReturn {
     }));
   }, []);
 
-  // Connect to trainer
-  const connect = useCallback(async () => {
-    if (!isSupported) {
-      setErrorMessage('Web Bluetooth is not supported in this browser');
-      setConnectionState('error');
+  // Match a control point response to the command waiting on it
+  const handleControlPointResponse = useCallback((data: DataView) => {
+    const response = parseControlPointResponse(data);
+    const pending = pendingResponseRef.current;
+    if (response && pending && pending.opcode === response.requestOpcode) {
+      pending.resolve(response);
+    }
+  }, []);
+
+  // Parse Fitness Machine Status
+  const handleMachineStatus = useCallback((data: DataView) => {
+    const update = parseMachineStatus(data);
+    if (!update) return;
+
+    if (update.type === 'spin_down') {
+      setSpinDown((prev) => ({ ...prev, status: update.status }));
       return;
     }
 
-    try {
-      setConnectionState('connecting');
-      setErrorMessage(null);
+    // After a reset, a stop or another app taking over, control is requested
+    // again (with Start/Resume) before the next command
+    if (update.event !== 'started') {
+      hasControlRef.current = false;
+    }
+    if (update.event === 'control_lost') {
+      setControlError('Trainer control lost - another app may have taken over');
+    }
+    setMachineStatus({ event: update.event, timestamp: Date.now() });
+  }, []);
 
-      // Request device with required services
-      const device = await navigator.bluetooth.requestDevice({
-        filters: [
-          { services: [BLUETOOTH_UUIDS.FTMS_SERVICE] },
-          { services: [BLUETOOTH_UUIDS.CYCLING_POWER_SERVICE] },
-        ],
-        optionalServices: [
-          BLUETOOTH_UUIDS.FTMS_SERVICE,
-          BLUETOOTH_UUIDS.CYCLING_POWER_SERVICE,
-          BLUETOOTH_UUIDS.HEART_RATE_SERVICE,
-          BLUETOOTH_UUIDS.WAHOO_EXTENSION_SERVICE,
-        ],
+  // Write to the FTMS control point and wait for the response - null if the
+  // trainer never answered
+  const writeFtmsCommand = useCallback((command: Uint8Array<ArrayBuffer>): Promise<ControlPointResponse | null> => {
+    const run = async (): Promise<ControlPointResponse | null> => {
+      const controlPoint = ftmsControlPointRef.current;
+      if (!controlPoint) return null;
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const response = new Promise<ControlPointResponse | null>((resolve) => {
+        const settle = (result: ControlPointResponse | null) => {
+          clearTimeout(timer);
+          pendingResponseRef.current = null;
+          resolve(result);
+        };
+        timer = setTimeout(() => settle(null), FTMS_RESPONSE_TIMEOUT_MS);
+        pendingResponseRef.current = { opcode: command[0], resolve: settle };
       });
 
-      deviceRef.current = device;
-      setTrainerName(device.name || 'Unknown Trainer');
-
-      // Connect to GATT server
-      if (!device.gatt) {
-        throw new Error('Device does not support GATT');
+      try {
+        await controlPoint.writeValueWithResponse(command);
+      } catch (err) {
+        pendingResponseRef.current?.resolve(null);
+        throw err;
       }
-      const server = await device.gatt.connect();
-      serverRef.current = server;
+      return response;
+    };
 
-      const caps: TrainerCapabilities = {
-        hasFTMS: false,
-        hasWahooExtension: false,
-        hasCyclingPower: false,
-        controlProtocol: 'none',
-      };
+    const result = commandQueueRef.current.then(run, run);
+    commandQueueRef.current = result.catch(() => null);
+    return result;
+  }, []);
 
-      // Try to get FTMS service
-      try {
-        const ftmsService = await server.getPrimaryService(BLUETOOTH_UUIDS.FTMS_SERVICE);
-        caps.hasFTMS = true;
-
-        // Subscribe to Indoor Bike Data
-        try {
-          const indoorBikeData = await ftmsService.getCharacteristic(BLUETOOTH_UUIDS.FTMS_INDOOR_BIKE_DATA);
-          await indoorBikeData.startNotifications();
-          indoorBikeData.addEventListener('characteristicvaluechanged', (event) => {
-            const target = event.target as BluetoothRemoteGATTCharacteristic;
-            if (target.value) {
-              parseFTMSIndoorBikeData(target.value);
-            }
-          });
-        } catch {
-          console.log('Indoor Bike Data not available');
-        }
+  // Request Control, then Start/Resume
+  const requestFtmsControl = useCallback(async (): Promise<boolean> => {
+    const response = await writeFtmsCommand(new Uint8Array([FTMS_OPCODES.REQUEST_CONTROL]));
+    if (response && response.resultCode !== FTMS_RESULT_CODES.SUCCESS) {
+      hasControlRef.current = false;
+      setControlError(getControlResultMessage(response.resultCode));
+      return false;
+    }
+    hasControlRef.current = true;
 
-        // Get FTMS Control Point
-        try {
-          const controlPoint = await ftmsService.getCharacteristic(BLUETOOTH_UUIDS.FTMS_CONTROL_POINT);
-          ftmsControlPointRef.current = controlPoint;
-          caps.controlProtocol = 'ftms';
+    const startResume = await writeFtmsCommand(new Uint8Array([FTMS_OPCODES.START_RESUME]));
+    if (startResume && startResume.resultCode !== FTMS_RESULT_CODES.SUCCESS) {
+      console.log('FTMS start/resume refused:', getControlResultMessage(startResume.resultCode));
+    }
+    setControlError(null);
+    return true;
+  }, [writeFtmsCommand]);
+
+  // Send an FTMS command, taking control back first if it was lost, and
+  // report whether the trainer accepted it
+  const sendFtmsCommand = useCallback(async (command: Uint8Array<ArrayBuffer>, name: string): Promise<boolean> => {
+    if (!hasControlRef.current && !(await requestFtmsControl())) {
+      return false;
+    }
 
-          // Subscribe to control point responses
-          await controlPoint.startNotifications();
-        } catch {
-          console.log('FTMS Control Point not available');
-        }
-      } catch {
-        console.log('FTMS service not available');
+    let response = await writeFtmsCommand(command);
+    if (response?.resultCode === FTMS_RESULT_CODES.CONTROL_NOT_PERMITTED) {
+      hasControlRef.current = false;
+      if (!(await requestFtmsControl())) {
+        return false;
       }
+      response = await writeFtmsCommand(command);
+    }
 
-      // Try to get Cycling Power service
-      try {
-        const powerService = await server.getPrimaryService(BLUETOOTH_UUIDS.CYCLING_POWER_SERVICE);
-        caps.hasCyclingPower = true;
+    // Written, but the trainer didn't confirm - some don't indicate reliably
+    if (!response) {
+      console.log(`No FTMS response to ${name}`);
+      return true;
+    }
+    if (response.resultCode !== FTMS_RESULT_CODES.SUCCESS) {
+      const message = getControlResultMessage(response.resultCode);
+      console.error(`FTMS ${name} refused:`, message);
+      setControlError(message);
+      return false;
+    }
+    setControlError(null);
+    return true;
+  }, [writeFtmsCommand, requestFtmsControl]);
+
+  // Connect to the GATT server, subscribe to the trainer's data and take
+  // control - for the first connection and again after a dropout
+  const setupDevice = useCallback(async (device: BluetoothDevice): Promise<TrainerCapabilities> => {
+    deviceRef.current = device;
+    setTrainerName(device.name || 'Unknown Trainer');
+
+    // Connect to GATT server
+    if (!device.gatt) {
+      throw new Error('Device does not support GATT');
+    }
+    const server = await device.gatt.connect();
+    serverRef.current = server;
+
+    const caps: TrainerCapabilities = {
+      hasFTMS: false,
+      hasWahooExtension: false,
+      hasCyclingPower: false,
+      hasSpinDown: false,
+      controlProtocol: 'none',
+    };
 
-        // Subscribe to Power Measurement
-        const powerMeasurement = await powerService.getCharacteristic(BLUETOOTH_UUIDS.CYCLING_POWER_MEASUREMENT);
-        await powerMeasurement.startNotifications();
-        powerMeasurement.addEventListener('characteristicvaluechanged', (event) => {
+    // Try to get FTMS service
+    try {
+      const ftmsService = await server.getPrimaryService(BLUETOOTH_UUIDS.FTMS_SERVICE);
+      caps.hasFTMS = true;
+
+      // Subscribe to Indoor Bike Data
+      try {
+        const indoorBikeData = await ftmsService.getCharacteristic(BLUETOOTH_UUIDS.FTMS_INDOOR_BIKE_DATA);
+        await indoorBikeData.startNotifications();
+        indoorBikeData.addEventListener('characteristicvaluechanged', (event) => {
           const target = event.target as BluetoothRemoteGATTCharacteristic;
           if (target.value) {
-            parseCyclingPowerMeasurement(target.value);
+            parseFTMSIndoorBikeData(target.value);
           }
         });
-
-        // Try to get Wahoo extension characteristic from Cycling Power service
-        // (Kickr bikes expose the Wahoo control characteristic here)
-        try {
-          const wahooTrainer = await powerService.getCharacteristic(BLUETOOTH_UUIDS.WAHOO_TRAINER);
-          wahooTrainerRef.current = wahooTrainer;
-          caps.hasWahooExtension = true;
-          // Enable notifications if supported
-          try { await wahooTrainer.startNotifications(); } catch { /* optional */ }
-          console.log('Wahoo extension found in Cycling Power service');
-
-          // If no FTMS control, use Wahoo
-          if (caps.controlProtocol === 'none') {
-            caps.controlProtocol = 'wahoo';
-          }
-        } catch {
-          console.log('Wahoo extension not in Cycling Power service');
-        }
       } catch {
-        console.log('Cycling Power service not available');
+        console.log('Indoor Bike Data not available');
       }
 
-      // Try to get Wahoo Extension as separate service (some trainers expose it this way)
-      if (!caps.hasWahooExtension) {
-        try {
-          const wahooService = await server.getPrimaryService(BLUETOOTH_UUIDS.WAHOO_EXTENSION_SERVICE);
-          const wahooTrainer = await wahooService.getCharacteristic(BLUETOOTH_UUIDS.WAHOO_TRAINER);
-          wahooTrainerRef.current = wahooTrainer;
-          caps.hasWahooExtension = true;
-
-          // If no FTMS control, use Wahoo
-          if (caps.controlProtocol === 'none') {
-            caps.controlProtocol = 'wahoo';
+      // Get FTMS Control Point
+      try {
+        const controlPoint = await ftmsService.getCharacteristic(BLUETOOTH_UUIDS.FTMS_CONTROL_POINT);
+        ftmsControlPointRef.current = controlPoint;
+        caps.controlProtocol = 'ftms';
+
+        // Subscribe to control point responses
+        await controlPoint.startNotifications();
+        controlPoint.addEventListener('characteristicvaluechanged', (event) => {
+          const target = event.target as BluetoothRemoteGATTCharacteristic;
+          if (target.value) {
+            handleControlPointResponse(target.value);
           }
-        } catch {
-          console.log('Wahoo Extension service not available');
-        }
+        });
+      } catch {
+        console.log('FTMS Control Point not available');
       }
 
-      // Try to get Heart Rate service
+      // Subscribe to Fitness Machine Status
       try {
-        const hrService = await server.getPrimaryService(BLUETOOTH_UUIDS.HEART_RATE_SERVICE);
-        const hrMeasurement = await hrService.getCharacteristic(BLUETOOTH_UUIDS.HEART_RATE_MEASUREMENT);
-        await hrMeasurement.startNotifications();
-        hrMeasurement.addEventListener('characteristicvaluechanged', (event) => {
+        const machineStatus = await ftmsService.getCharacteristic(BLUETOOTH_UUIDS.FTMS_STATUS);
+        await machineStatus.startNotifications();
+        machineStatus.addEventListener('characteristicvaluechanged', (event) => {
           const target = event.target as BluetoothRemoteGATTCharacteristic;
           if (target.value) {
-            parseHeartRateMeasurement(target.value);
+            handleMachineStatus(target.value);
           }
         });
       } catch {
-        console.log('Heart Rate service not available');
+        console.log('Fitness Machine Status not available');
+      }
+
+      // Read supported features for spin-down calibration
+      try {
+        const feature = await ftmsService.getCharacteristic(BLUETOOTH_UUIDS.FTMS_FEATURE);
+        caps.hasSpinDown = !!ftmsControlPointRef.current && supportsSpinDown(await feature.readValue());
+      } catch {
+        console.log('FTMS Feature not available');
+      }
+    } catch {
+      console.log('FTMS service not available');
+    }
+
+    // Try to get Cycling Power service
+    try {
+      const powerService = await server.getPrimaryService(BLUETOOTH_UUIDS.CYCLING_POWER_SERVICE);
+      caps.hasCyclingPower = true;
+
+      // Subscribe to Power Measurement
+      const powerMeasurement = await powerService.getCharacteristic(BLUETOOTH_UUIDS.CYCLING_POWER_MEASUREMENT);
+      await powerMeasurement.startNotifications();
+      powerMeasurement.addEventListener('characteristicvaluechanged', (event) => {
+        const target = event.target as BluetoothRemoteGATTCharacteristic;
+        if (target.value) {
+          parseCyclingPowerMeasurement(target.value);
+        }
+      });
+
+      // Try to get Wahoo extension characteristic from Cycling Power service
+      // (Kickr bikes expose the Wahoo control characteristic here)
+      try {
+        const wahooTrainer = await powerService.getCharacteristic(BLUETOOTH_UUIDS.WAHOO_TRAINER);
+        wahooTrainerRef.current = wahooTrainer;
+        caps.hasWahooExtension = true;
+        // Enable notifications if supported
+        try { await wahooTrainer.startNotifications(); } catch { /* optional */ }
+        console.log('Wahoo extension found in Cycling Power service');
+
+        // If no FTMS control, use Wahoo
+        if (caps.controlProtocol === 'none') {
+          caps.controlProtocol = 'wahoo';
+        }
+      } catch {
+        console.log('Wahoo extension not in Cycling Power service');
       }
+    } catch {
+      console.log('Cycling Power service not available');
+    }
 
-      setCapabilities(caps);
-
-      // Request FTMS control if available
-      if (ftmsControlPointRef.current) {
-        try {
-          // Request Control (opcode 0x00)
-          const requestControl = new Uint8Array([FTMS_OPCODES.REQUEST_CONTROL]);
-          await ftmsControlPointRef.current.writeValueWithResponse(requestControl);
-
-          // Small delay then Start/Resume (opcode 0x07)
-          await new Promise((resolve) => setTimeout(resolve, 100));
-          const startResume = new Uint8Array([FTMS_OPCODES.START_RESUME]);
-          await ftmsControlPointRef.current.writeValueWithResponse(startResume);
-        } catch (err) {
-          console.log('Failed to request FTMS control:', err);
+    // Try to get Wahoo Extension as separate service (some trainers expose it this way)
+    if (!caps.hasWahooExtension) {
+      try {
+        const wahooService = await server.getPrimaryService(BLUETOOTH_UUIDS.WAHOO_EXTENSION_SERVICE);
+        const wahooTrainer = await wahooService.getCharacteristic(BLUETOOTH_UUIDS.WAHOO_TRAINER);
+        wahooTrainerRef.current = wahooTrainer;
+        caps.hasWahooExtension = true;
+
+        // If no FTMS control, use Wahoo
+        if (caps.controlProtocol === 'none') {
+          caps.controlProtocol = 'wahoo';
         }
+      } catch {
+        console.log('Wahoo Extension service not available');
+      }
+    }
+
+    // Try to get Heart Rate service
+    try {
+      const hrService = await server.getPrimaryService(BLUETOOTH_UUIDS.HEART_RATE_SERVICE);
+      const hrMeasurement = await hrService.getCharacteristic(BLUETOOTH_UUIDS.HEART_RATE_MEASUREMENT);
+      await hrMeasurement.startNotifications();
+      hrMeasurement.addEventListener('characteristicvaluechanged', (event) => {
+        const target = event.target as BluetoothRemoteGATTCharacteristic;
+        if (target.value) {
+          parseHeartRateMeasurement(target.value);
+        }
+      });
+    } catch {
+      console.log('Heart Rate service not available');
+    }
+
+    setCapabilities(caps);
+
+    // Request FTMS control if available
+    if (ftmsControlPointRef.current) {
+      try {
+        await requestFtmsControl();
+      } catch (err) {
+        console.log('Failed to request FTMS control:', err);
+      }
+    }
+    return caps;
+  }, [
+    parseFTMSIndoorBikeData,
+    parseCyclingPowerMeasurement,
+    parseHeartRateMeasurement,
+    handleControlPointResponse,
+    handleMachineStatus,
+    requestFtmsControl,
+  ]);
+
+  // Handle device disconnection - a trainer that drops is reconnected in the
+  // background, and the player re-applies its target once it's back
+  useEffect(() => {
+    const device = deviceRef.current;
+    if (!device) return;
+
+    const handleDisconnect = () => {
+      // Disconnected on purpose, mid-connect, or already being retried
+      if (connectionState !== 'connected' || deviceRef.current !== device || stopReconnectRef.current) return;
+
+      resetLink();
+      setConnectionState('reconnecting');
+      const stop = startReconnect(
+        device,
+        async (paired) => {
+          await setupDevice(paired);
+          if (stopReconnectRef.current !== stop) {
+            // Disconnected while this attempt was in flight
+            cleanup();
+            return;
+          }
+          stopReconnectRef.current = null;
+          setConnectionState('connected');
+        },
+        () => {
+          stopReconnectRef.current = null;
+          cleanup();
+          setTrainerName(null);
+          setErrorMessage('Lost connection to trainer');
+          setConnectionState('error');
+        }
+      );
+      stopReconnectRef.current = stop;
+    };
+
+    device.addEventListener('gattserverdisconnected', handleDisconnect);
+    return () => {
+      device.removeEventListener('gattserverdisconnected', handleDisconnect);
+    };
+  }, [cleanup, resetLink, setupDevice, connectionState]);
+
+  // Remember the trainer for one-tap connect next time, and show it by the
+  // rider's name for it
+  const rememberTrainer = useCallback((device: BluetoothDevice, caps: TrainerCapabilities) => {
+    const updated = upsertKnownDevice(knownDevicesRef.current, {
+      id: device.id,
+      kind: 'trainer',
+      name: device.name || 'Unknown Trainer',
+      capabilities: caps,
+    });
+    setKnownDevices(updated);
+    const known = updated.find((d) => d.id === device.id && d.kind === 'trainer');
+    if (known) {
+      setTrainerName(getKnownDeviceName(known));
+    }
+  }, [setKnownDevices]);
+
+  // Connect to a remembered trainer the site still has permission for. Quiet
+  // attempts (auto-connect) go back to disconnected instead of showing an error
+  const connectKnownDevice = useCallback(async (known: KnownDevice, quiet: boolean): Promise<boolean> => {
+    const name = getKnownDeviceName(known);
+    const device = await getPermittedDevice(known.id);
+    if (!device) {
+      if (!quiet) {
+        setErrorMessage(`Pair ${name} again to connect`);
+        setConnectionState('error');
+      }
+      return false;
+    }
+
+    try {
+      setConnectionState('connecting');
+      setErrorMessage(null);
+      const caps = await connectWithTimeout(device, () => setupDevice(device));
+      rememberTrainer(device, caps);
+      setConnectionState('connected');
+      return true;
+    } catch (err) {
+      console.log(`Could not connect to ${name}:`, err);
+      cleanup();
+      setTrainerName(null);
+      if (quiet) {
+        setConnectionState('disconnected');
+      } else {
+        setErrorMessage(`Couldn't reach ${name} - is it on?`);
+        setConnectionState('error');
       }
+      return false;
+    }
+  }, [setupDevice, rememberTrainer, cleanup]);
+
+  const connectKnown = useCallback(async (id?: string): Promise<boolean> => {
+    const known = id ? knownTrainers.find((d) => d.id === id) : knownTrainers[0];
+    if (!isSupported || !known) {
+      return false;
+    }
+    return connectKnownDevice(known, false);
+  }, [isSupported, knownTrainers, connectKnownDevice]);
+
+  // Connect to the last used trainer on its own where the browser allows it
+  const autoConnectTriedRef = useRef(false);
+  useEffect(() => {
+    if (!autoConnect || autoConnectTriedRef.current || !canConnectWithoutChooser()) return;
+    const known = knownTrainers[0];
+    if (!known) return;
+    autoConnectTriedRef.current = true;
+    connectKnownDevice(known, true);
+  }, [autoConnect, knownTrainers, connectKnownDevice]);
+
+  // Connect to trainer
+  const connect = useCallback(async () => {
+    if (!isSupported) {
+      setErrorMessage('Web Bluetooth is not supported in this browser');
+      setConnectionState('error');
+      return;
+    }
+
+    try {
+      setConnectionState('connecting');
+      setErrorMessage(null);
 
+      // Request device with required services
+      const device = await navigator.bluetooth.requestDevice({
+        filters: [
+          { services: [BLUETOOTH_UUIDS.FTMS_SERVICE] },
+          { services: [BLUETOOTH_UUIDS.CYCLING_POWER_SERVICE] },
+        ],
+        optionalServices: [
+          BLUETOOTH_UUIDS.FTMS_SERVICE,
+          BLUETOOTH_UUIDS.CYCLING_POWER_SERVICE,
+          BLUETOOTH_UUIDS.HEART_RATE_SERVICE,
+          BLUETOOTH_UUIDS.WAHOO_EXTENSION_SERVICE,
+        ],
+      });
+
+      const caps = await setupDevice(device);
+      rememberTrainer(device, caps);
       setConnectionState('connected');
     } catch (err) {
       // User cancelled the Bluetooth picker — not an error, just go back to disconnected
@@ -405,7 +702,7 @@ export function useTrainer(): UseTrainerReturn {
       setConnectionState('error');
       cleanup();
     }
-  }, [isSupported, cleanup, parseFTMSIndoorBikeData, parseCyclingPowerMeasurement, parseHeartRateMeasurement]);
+  }, [isSupported, cleanup, setupDevice, rememberTrainer]);
 
   // Disconnect from trainer
   const disconnect = useCallback(() => {
@@ -436,8 +733,9 @@ export function useTrainer(): UseTrainerReturn {
         command[0] = FTMS_OPCODES.SET_TARGET_POWER;
         command[1] = clampedWatts & 0xff;
         command[2] = (clampedWatts >> 8) & 0xff;
-        await ftmsControlPointRef.current.writeValueWithResponse(command);
-        return true;
+        if (await sendFtmsCommand(command, 'set power')) {
+          return true;
+        }
       } catch (err) {
         console.error('FTMS set power failed:', err);
       }
@@ -458,7 +756,7 @@ export function useTrainer(): UseTrainerReturn {
     }
 
     return false;
-  }, [connectionState, capabilities]);
+  }, [connectionState, capabilities, sendFtmsCommand]);
 
   // Set resistance mode (manual/free ride mode)
   // Level is 0-100 representing percentage of max resistance
@@ -476,8 +774,9 @@ export function useTrainer(): UseTrainerReturn {
         command[0] = FTMS_OPCODES.SET_TARGET_RESISTANCE;
         // FTMS resistance is in 0.1 increments, so level 50 = 5.0 resistance
         command[1] = clampedLevel;
-        await ftmsControlPointRef.current.writeValueWithResponse(command);
-        return true;
+        if (await sendFtmsCommand(command, 'set resistance')) {
+          return true;
+        }
       } catch (err) {
         console.error('FTMS set resistance failed:', err);
       }
@@ -498,7 +797,110 @@ export function useTrainer(): UseTrainerReturn {
     }
 
     return false;
-  }, [connectionState, capabilities]);
+  }, [connectionState, capabilities, sendFtmsCommand]);
+
+  // Set simulation mode (SIM) - the trainer applies resistance for the
+  // gradient, weight and drag instead of holding a target power
+  const setSimulation = useCallback(async (params: SimulationParams): Promise<boolean> => {
+    if (connectionState !== 'connected') {
+      return false;
+    }
+
+    const grade = Math.max(-40, Math.min(40, params.grade));
+    const windResistance = getWindResistanceCoefficient(params.cda);
+
+    // Try FTMS first - Indoor Bike Simulation Parameters
+    if (ftmsControlPointRef.current && capabilities.controlProtocol === 'ftms') {
+      try {
+        const command = new Uint8Array(7);
+        const view = new DataView(command.buffer);
+        command[0] = FTMS_OPCODES.SET_INDOOR_BIKE_SIMULATION;
+        view.setInt16(1, Math.round(params.windSpeed * 1000), true); // 0.001 m/s
+        view.setInt16(3, Math.round(grade * 100), true);             // 0.01 %
+        command[5] = Math.min(255, Math.round(params.crr * 10000));   // 0.0001
+        command[6] = Math.min(255, Math.round(windResistance * 100)); // 0.01 kg/m
+        if (await sendFtmsCommand(command, 'set simulation')) {
+          return true;
+        }
+      } catch (err) {
+        console.error('FTMS set simulation failed:', err);
+      }
+    }
+
+    // Fallback to Wahoo - SIM mode sets weight and drag, then the grade
+    if (wahooTrainerRef.current && capabilities.hasWahooExtension) {
+      try {
+        const simMode = new Uint8Array(7);
+        const simView = new DataView(simMode.buffer);
+        simMode[0] = WAHOO_OPCODES.SET_SIM_MODE;
+        simView.setUint16(1, Math.round(getTotalMass(params) * 100), true);
+        simView.setUint16(3, Math.round(params.crr * 10000), true);
+        simView.setUint16(5, Math.round(windResistance * 1000), true);
+        await wahooTrainerRef.current.writeValueWithResponse(simMode);
+
+        // Grade maps -100%..+100% onto 0..65535
+        const simGrade = new Uint8Array(3);
+        const gradeView = new DataView(simGrade.buffer);
+        simGrade[0] = WAHOO_OPCODES.SET_SIM_GRADE;
+        gradeView.setUint16(1, Math.min(65535, Math.round((grade / 100 + 1) * 32768)), true);
+        await wahooTrainerRef.current.writeValueWithResponse(simGrade);
+        return true;
+      } catch (err) {
+        console.error('Wahoo set simulation failed:', err);
+      }
+    }
+
+    return false;
+  }, [connectionState, capabilities, sendFtmsCommand]);
+
+  // Start a spin-down calibration - the trainer answers with the speed range
+  // to spin up to and reports the rest through Fitness Machine Status
+  const startSpinDown = useCallback(async (): Promise<boolean> => {
+    if (connectionState !== 'connected' || !capabilities.hasSpinDown) {
+      return false;
+    }
+
+    setSpinDown({ ...IDLE_SPIN_DOWN, status: 'starting' });
+    try {
+      if (!hasControlRef.current && !(await requestFtmsControl())) {
+        setSpinDown({ ...IDLE_SPIN_DOWN, status: 'error' });
+        return false;
+      }
+
+      const response = await writeFtmsCommand(new Uint8Array([FTMS_OPCODES.SPIN_DOWN_CONTROL, SPIN_DOWN_START]));
+      if (!response || response.resultCode !== FTMS_RESULT_CODES.SUCCESS) {
+        console.error('FTMS spin-down refused:', response ? getControlResultMessage(response.resultCode) : 'no response');
+        setSpinDown({ ...IDLE_SPIN_DOWN, status: 'error' });
+        return false;
+      }
+
+      const speeds = parseSpinDownTargetSpeeds(response.parameter);
+      setSpinDown((prev) => ({
+        // Status may already have moved on while the response was in flight
+        status: prev.status === 'starting' ? 'speed_up' : prev.status,
+        targetSpeedLow: speeds?.low ?? null,
+        targetSpeedHigh: speeds?.high ?? null,
+      }));
+      return true;
+    } catch (err) {
+      console.error('FTMS spin-down failed:', err);
+      setSpinDown({ ...IDLE_SPIN_DOWN, status: 'error' });
+      return false;
+    }
+  }, [connectionState, capabilities, requestFtmsControl, writeFtmsCommand]);
+
+  // Leave the calibration flow - a spin-down still running is told to stop
+  const cancelSpinDown = useCallback(() => {
+    const isRunning = spinDown.status === 'starting' ||
+      spinDown.status === 'speed_up' ||
+      spinDown.status === 'stop_pedaling';
+    setSpinDown(IDLE_SPIN_DOWN);
+    if (isRunning) {
+      writeFtmsCommand(new Uint8Array([FTMS_OPCODES.SPIN_DOWN_CONTROL, SPIN_DOWN_IGNORE])).catch((err) => {
+        console.error('FTMS spin-down cancel failed:', err);
+      });
+    }
+  }, [spinDown.status, writeFtmsCommand]);
 
   return {
     connectionState,
@@ -507,9 +909,17 @@ export function useTrainer(): UseTrainerReturn {
     capabilities,
     errorMessage,
     connect,
+    connectKnown,
+    knownDevices: knownTrainers,
     disconnect,
     setTargetPower,
     setResistanceMode,
+    setSimulation,
+    controlError,
+    machineStatus,
+    spinDown,
+    startSpinDown,
+    cancelSpinDown,
     isSupported,
   };
 }
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { useLocalStorage } from "./use-local-storage";
+import { UseTrainerReturn } from "./use-trainer";
+import { UseHeartRateMonitorReturn, HRMonitorConnectionState } from "./use-heart-rate-monitor";
+import {
+  TrainerConnectionState,
+  TrainerCapabilities,
+  SimulationParams,
+  VirtualDeviceSettings,
+  VirtualRiderModel,
+  DEFAULT_VIRTUAL_DEVICES,
+  IDLE_SPIN_DOWN,
+} from "@/types/trainer";
+import {
+  VIRTUAL_RIDER_MODELS,
+  VirtualControl,
+  VirtualRiderReading,
+  createVirtualRiderState,
+  stepVirtualRider,
+} from "@/lib/virtual-rider";
+import { createRideClock } from "@/lib/ride-clock";
+
+// Readings go out about as often as a real trainer notifies
+const STEP_MS = 500;
+
+const VIRTUAL_CAPABILITIES: TrainerCapabilities = {
+  hasFTMS: true,
+  hasWahooExtension: false,
+  hasCyclingPower: true,
+  hasSpinDown: false,
+  controlProtocol: "ftms",
+};
+
+const NO_READING: VirtualRiderReading = { power: null, cadence: null, heartRate: null };
+
+export function useVirtualDeviceSettings(): [
+  VirtualDeviceSettings,
+  (settings: Partial<VirtualDeviceSettings>) => void
+] {
+  const [stored, setStored] = useLocalStorage<VirtualDeviceSettings>(
+    "virtual-devices",
+    DEFAULT_VIRTUAL_DEVICES
+  );
+
+  const settings = useMemo(() => ({ ...DEFAULT_VIRTUAL_DEVICES, ...stored }), [stored]);
+
+  const updateSettings = useCallback(
+    (changes: Partial<VirtualDeviceSettings>) => {
+      setStored({ ...settings, ...changes });
+    },
+    [settings, setStored]
+  );
+
+  return [settings, updateSettings];
+}
+
+/**
+ * A simulated trainer and HR monitor with the same interface as useTrainer
+ * and useHeartRateMonitor. Both read from one virtual rider, which rides
+ * while either device is connected
+ */
+export function useVirtualDevices(
+  model: VirtualRiderModel,
+  ftp: number
+): { trainer: UseTrainerReturn; heartRateMonitor: UseHeartRateMonitorReturn } {
+  const [trainerState, setTrainerState] = useState<TrainerConnectionState>("disconnected");
+  const [monitorState, setMonitorState] = useState<HRMonitorConnectionState>("disconnected");
+  const [reading, setReading] = useState<VirtualRiderReading>(NO_READING);
+  const [readingAt, setReadingAt] = useState(Date.now());
+
+  const riderRef = useRef(createVirtualRiderState());
+  const controlRef = useRef<VirtualControl>({ mode: "resistance", level: 30 });
+  const modelRef = useRef(model);
+  const ftpRef = useRef(ftp);
+
+  useEffect(() => {
+    modelRef.current = model;
+    ftpRef.current = ftp;
+  }, [model, ftp]);
+
+  const isRiding = trainerState === "connected" || monitorState === "connected";
+
+  useEffect(() => {
+    if (!isRiding) return;
+
+    riderRef.current = createVirtualRiderState();
+    let lastStepAt = Date.now();
+    const clock = createRideClock(() => {
+      const now = Date.now();
+      const step = stepVirtualRider(
+        riderRef.current,
+        modelRef.current,
+        controlRef.current,
+        ftpRef.current,
+        (now - lastStepAt) / 1000
+      );
+      lastStepAt = now;
+      riderRef.current = step.state;
+      setReading(step.reading);
+      setReadingAt(now);
+    }, STEP_MS);
+    clock.start();
+
+    return () => {
+      clock.stop();
+      setReading(NO_READING);
+    };
+  }, [isRiding]);
+
+  const connectTrainer = useCallback(async () => {
+    controlRef.current = { mode: "resistance", level: 30 };
+    setTrainerState("connected");
+  }, []);
+
+  const disconnectTrainer = useCallback(() => {
+    setTrainerState("disconnected");
+  }, []);
+
+  const setTargetPower = useCallback(async (watts: number): Promise<boolean> => {
+    if (trainerState !== "connected") return false;
+    controlRef.current = { mode: "erg", watts: Math.max(0, Math.min(2000, Math.round(watts))) };
+    return true;
+  }, [trainerState]);
+
+  const setResistanceMode = useCallback(async (level: number): Promise<boolean> => {
+    if (trainerState !== "connected") return false;
+    controlRef.current = { mode: "resistance", level: Math.max(0, Math.min(100, Math.round(level))) };
+    return true;
+  }, [trainerState]);
+
+  const setSimulation = useCallback(async (params: SimulationParams): Promise<boolean> => {
+    if (trainerState !== "connected") return false;
+    controlRef.current = { mode: "simulation", params };
+    return true;
+  }, [trainerState]);
+
+  // The virtual trainer has nothing to calibrate
+  const startSpinDown = useCallback(async (): Promise<boolean> => false, []);
+  const cancelSpinDown = useCallback(() => {}, []);
+
+  // Virtual devices are never remembered
+  const noKnownDevice = useCallback(async (): Promise<boolean> => false, []);
+
+  const connectMonitor = useCallback(async () => {
+    setMonitorState("connected");
+  }, []);
+
+  const disconnectMonitor = useCallback(() => {
+    setMonitorState("disconnected");
+  }, []);
+
+  const isTrainerConnected = trainerState === "connected";
+  const metrics = useMemo(() => ({
+    power: isTrainerConnected ? reading.power : null,
+    cadence: isTrainerConnected ? reading.cadence : null,
+    speed: null,
+    heartRate: null,
+    timestamp: readingAt,
+  }), [isTrainerConnected, reading, readingAt]);
+
+  const trainer: UseTrainerReturn = {
+    connectionState: trainerState,
+    trainerName: isTrainerConnected ? `Virtual trainer (${VIRTUAL_RIDER_MODELS[model].name})` : null,
+    metrics,
+    capabilities: VIRTUAL_CAPABILITIES,
+    errorMessage: null,
+    connect: connectTrainer,
+    connectKnown: noKnownDevice,
+    knownDevices: [],
+    disconnect: disconnectTrainer,
+    setTargetPower,
+    setResistanceMode,
+    setSimulation,
+    controlError: null,
+    machineStatus: null,
+    spinDown: IDLE_SPIN_DOWN,
+    startSpinDown,
+    cancelSpinDown,
+    isSupported: true,
+  };
+
+  const heartRateMonitor: UseHeartRateMonitorReturn = {
+    connectionState: monitorState,
+    deviceName: monitorState === "connected" ? "Virtual HR monitor" : null,
+    heartRate: monitorState === "connected" ? reading.heartRate : null,
+    errorMessage: null,
+    connect: connectMonitor,
+    connectKnown: noKnownDevice,
+    knownDevices: [],
+    disconnect: disconnectMonitor,
+    isSupported: true,
+  };
+
+  return { trainer, heartRateMonitor };
+}
@@ -1,31 +1,83 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect } from "react";
-import { Segment } from "@/types/workout";
-import { PlayerState, ControlMode, RecordedDataPoint, TrainerMetrics } from "@/types/trainer";
-import { expandRepeatedSegments } from "@/lib/workout-utils";
+import { Route, Segment, TextEvent, WorkoutItem } from "@/types/workout";
+import {
+  PlayerState,
+  ControlMode,
+  RecordedDataPoint,
+  TrainerMetrics,
+  HeartRateControlSettings,
+  SimulationParams,
+  DEFAULT_HEART_RATE_CONTROL,
+} from "@/types/trainer";
+import {
+  expandRepeatedSegments,
+  getActiveTextEvent,
+  getPowerRangeAsPercentFTP,
+} from "@/lib/workout-utils";
+import {
+  HeartRateBand,
+  getHeartRateBand,
+  getHeartRateFallbackWatts,
+  getNextHeartRatePower,
+} from "@/lib/heart-rate-control";
+import { calculateSpeedFromPower, resolveSimulation } from "@/lib/cycling-physics";
+import { RideClock, createRideClock } from "@/lib/ride-clock";
+
+const RECORDING_GAP_MS = 2500;
 
 interface UseWorkoutPlayerProps {
-  segments: Segment[];
+  segments: WorkoutItem[];
   ftp: number;
+  route?: Route; // route rides move through their sections by virtual distance
   onSegmentChange?: (index: number, targetWatts: number) => void;
   onWorkoutComplete?: (recordedData: RecordedDataPoint[]) => void;
   setTargetPower?: (watts: number) => Promise<boolean>;
   setResistanceMode?: (level: number) => Promise<boolean>;
+  setSimulation?: (params: SimulationParams) => Promise<boolean>;
   metrics?: TrainerMetrics;
+  heartRateControl?: HeartRateControlSettings;
   onAutoPause?: () => void;
+  resume?: PlayerResume; // continue a recovered ride instead of starting fresh
+  reconnecting?: ReconnectingMetrics; // metrics whose device dropped and is being reconnected
+}
+
+// Metrics with no data because the device they come from dropped and is
+// being reconnected. Without power nothing is recorded; without cadence or
+// heart rate samples go on with that metric flagged as missing
+export interface ReconnectingMetrics {
+  power: boolean;
+  cadence: boolean;
+  heartRate: boolean;
+}
+
+const NOT_RECONNECTING: ReconnectingMetrics = { power: false, cadence: false, heartRate: false };
+
+export interface PlayerResume {
+  playerState: PlayerState;
+  recordedData: RecordedDataPoint[];
+  virtualDistance: number;
+  intensityOffset: number;
 }
 
 interface UseWorkoutPlayerReturn {
   playerState: PlayerState;
   expandedSegments: Segment[];
   currentSegment: Segment | null;
+  currentTextEvent: TextEvent | null;
   segmentProgress: number; // 0-1 progress within current segment
   workoutProgress: number; // 0-1 progress of total workout
   remainingSegmentTime: number;
   remainingTotalTime: number;
   recordedData: RecordedDataPoint[];
   isAutoPaused: boolean;
+  isFreeRide: boolean; // current segment has no target and ERG is released
+  isSimulation: boolean; // current segment is a slope ridden in SIM mode
+  virtualSpeed: number; // km/h from power through the physics model
+  virtualDistance: number; // metres covered this workout
+  heartRateBand: HeartRateBand | null; // band being held on heart-rate segments
+  isHeartRateFallback: boolean; // HR segment riding fixed watts (no HR data or LTHR)
   intensityOffset: number; // percentage offset, e.g. 5 means +5%
   play: () => void;
   pause: () => void;
@@ -40,33 +92,48 @@ interface UseWorkoutPlayerReturn {
 export function useWorkoutPlayer({
   segments,
   ftp,
+  route,
   onSegmentChange,
   onWorkoutComplete,
   setTargetPower,
   setResistanceMode,
+  setSimulation,
   metrics,
+  heartRateControl = DEFAULT_HEART_RATE_CONTROL,
   onAutoPause,
+  resume,
+  reconnecting = NOT_RECONNECTING,
 }: UseWorkoutPlayerProps): UseWorkoutPlayerReturn {
   const expandedSegments = expandRepeatedSegments(segments);
   const totalDuration = expandedSegments.reduce((sum, seg) => sum + seg.duration, 0);
 
-  const [playerState, setPlayerState] = useState<PlayerState>({
-    status: 'stopped',
-    elapsedTime: 0,
-    currentSegmentIndex: 0,
-    segmentElapsedTime: 0,
-    controlMode: 'erg',
-    targetPower: 0,
-  });
+  // A recovered ride comes back paused where it left off
+  const [playerState, setPlayerState] = useState<PlayerState>(
+    resume
+      ? { ...resume.playerState, status: 'paused' }
+      : {
+          status: 'stopped',
+          elapsedTime: 0,
+          currentSegmentIndex: 0,
+          segmentElapsedTime: 0,
+          controlMode: 'erg',
+          targetPower: 0,
+        }
+  );
 
-  const [recordedData, setRecordedData] = useState<RecordedDataPoint[]>([]);
+  const [recordedData, setRecordedData] = useState<RecordedDataPoint[]>(resume?.recordedData ?? []);
   const [isAutoPaused, setIsAutoPaused] = useState(false);
-  const [intensityOffset, setIntensityOffset] = useState(0); // percentage points
+  const [intensityOffset, setIntensityOffset] = useState(resume?.intensityOffset ?? 0); // percentage points
+  const [virtualSpeed, setVirtualSpeed] = useState(0);
+  const [virtualDistance, setVirtualDistance] = useState(resume?.virtualDistance ?? 0);
+  const virtualDistanceRef = useRef(resume?.virtualDistance ?? 0);
+  const lastRecordedElapsedRef = useRef(resume?.playerState.elapsedTime ?? 0);
 
   // Refs for timer management
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const clockRef = useRef<RideClock | null>(null);
   const lastTickRef = useRef<number>(Date.now());
-  const recordIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const lastSampleAtRef = useRef<number | null>(null); // wall clock of the last recorded sample
+  const skippedSampleRef = useRef(false); // samples were left out while the power source reconnected
   const completionCalledRef = useRef<boolean>(false);
 
   // Refs for autopause detection
@@ -76,6 +143,7 @@ export function useWorkoutPlayer({
   // Refs to avoid stale closures in intervals
   const playerStateRef = useRef(playerState);
   const metricsRef = useRef(metrics);
+  const reconnectingRef = useRef(reconnecting);
 
   // Keep refs in sync
   useEffect(() => {
@@ -86,6 +154,10 @@ export function useWorkoutPlayer({
     metricsRef.current = metrics;
   }, [metrics]);
 
+  useEffect(() => {
+    reconnectingRef.current = reconnecting;
+  }, [reconnecting]);
+
   // Autopause detection - pause if no power/cadence for AUTOPAUSE_DELAY_MS
   useEffect(() => {
     if (playerState.status !== 'playing') {
@@ -112,14 +184,8 @@ export function useWorkoutPlayer({
       } else if (Date.now() - zeroPowerStartRef.current >= AUTOPAUSE_DELAY_MS) {
         // Autopause
         setIsAutoPaused(true);
-        if (timerRef.current) {
-          clearInterval(timerRef.current);
-          timerRef.current = null;
-        }
-        if (recordIntervalRef.current) {
-          clearInterval(recordIntervalRef.current);
-          recordIntervalRef.current = null;
-        }
+        clockRef.current?.stop();
+        clockRef.current = null;
         setPlayerState((prev) => ({ ...prev, status: 'paused' }));
         onAutoPause?.();
         zeroPowerStartRef.current = null;
@@ -129,6 +195,11 @@ export function useWorkoutPlayer({
     }
   }, [metrics, playerState.status, onAutoPause]);
 
+  // Closed-loop ERG for heart-rate segments - null means ride the fallback power
+  const heartRateWattsRef = useRef<number | null>(null);
+  const heartRateAdjustedAtRef = useRef(0);
+  const [isHeartRateFallback, setIsHeartRateFallback] = useState(false);
+
   const intensityOffsetRef = useRef(intensityOffset);
   useEffect(() => {
     intensityOffsetRef.current = intensityOffset;
@@ -137,15 +208,22 @@ export function useWorkoutPlayer({
   // Calculate target power for a segment at a given progress point
   const calculateTargetPower = useCallback(
     (segment: Segment, progress: number): number => {
-      const startPower = segment.targetPower.value;
-      const endPower = segment.targetPower.valueHigh ?? startPower;
+      // Free ride and slope segments have no target - the rider sets their own effort
+      if (!hasErgTarget(segment)) return 0;
+
+      // Heart-rate segments ride whatever the HR loop last settled on
+      if (segment.targetPower.type === 'heart_rate') {
+        return heartRateWattsRef.current ?? getHeartRateFallbackWatts(segment, heartRateControl, ftp);
+      }
+
+      const { start: startPower, end: endPower } = getPowerRangeAsPercentFTP(segment, ftp);
 
       // Linear interpolation for ramps, then apply intensity offset
       const percentFTP = startPower + (endPower - startPower) * progress;
       const adjustedPercent = percentFTP + intensityOffsetRef.current;
       return Math.max(0, Math.round((adjustedPercent / 100) * ftp));
     },
-    [ftp]
+    [ftp, heartRateControl]
   );
 
   // Get cumulative duration up to a segment index
@@ -181,6 +259,69 @@ export function useWorkoutPlayer({
     [expandedSegments]
   );
 
+  // Route rides: find the section containing a distance along the route
+  const findSegmentAtDistance = useCallback(
+    (distance: number): { index: number; sectionStart: number } => {
+      let accumulated = 0;
+      for (let i = 0; i < expandedSegments.length; i++) {
+        const sectionEnd = accumulated + (expandedSegments[i].simulation?.distance ?? 0);
+        if (distance < sectionEnd) {
+          return { index: i, sectionStart: accumulated };
+        }
+        accumulated = sectionEnd;
+      }
+      const lastIndex = Math.max(0, expandedSegments.length - 1);
+      return {
+        index: lastIndex,
+        sectionStart: accumulated - (expandedSegments[lastIndex]?.simulation?.distance ?? 0),
+      };
+    },
+    [expandedSegments]
+  );
+
+  // Start each heart-rate segment from its fallback power
+  useEffect(() => {
+    heartRateWattsRef.current = null;
+    heartRateAdjustedAtRef.current = 0;
+  }, [playerState.currentSegmentIndex]);
+
+  // Nudge the ERG target towards the HR band every adjust interval. Declared
+  // before the target power effect so the new wattage goes out on the same tick
+  useEffect(() => {
+    const segment = expandedSegments[playerState.currentSegmentIndex];
+    if (!segment || segment.targetPower.type !== 'heart_rate') {
+      setIsHeartRateFallback(false);
+      return;
+    }
+    if (playerState.status !== 'playing' || playerState.controlMode !== 'erg') return;
+
+    const band = getHeartRateBand(segment, heartRateControl.lthr);
+    const heartRate = metricsRef.current?.heartRate;
+
+    // Fail safe - without a band or live HR, hold the fixed fallback wattage
+    if (!band || !heartRate) {
+      heartRateWattsRef.current = null;
+      setIsHeartRateFallback(true);
+      return;
+    }
+    setIsHeartRateFallback(false);
+
+    const elapsed = playerState.segmentElapsedTime;
+    if (elapsed - heartRateAdjustedAtRef.current < heartRateControl.adjustIntervalSeconds) return;
+    heartRateAdjustedAtRef.current = elapsed;
+
+    const currentWatts = heartRateWattsRef.current ?? getHeartRateFallbackWatts(segment, heartRateControl, ftp);
+    heartRateWattsRef.current = getNextHeartRatePower(currentWatts, heartRate, band, heartRateControl, ftp);
+  }, [
+    playerState.currentSegmentIndex,
+    playerState.segmentElapsedTime,
+    playerState.status,
+    playerState.controlMode,
+    expandedSegments,
+    heartRateControl,
+    ftp,
+  ]);
+
   // Update target power when segment or progress changes
   useEffect(() => {
     if (playerState.status !== 'playing' && playerState.status !== 'paused') {
@@ -197,7 +338,7 @@ export function useWorkoutPlayer({
       setPlayerState((prev) => ({ ...prev, targetPower: targetWatts }));
 
       // Send to trainer if in ERG mode
-      if (playerState.controlMode === 'erg' && setTargetPower) {
+      if (playerState.controlMode === 'erg' && setTargetPower && hasErgTarget(segment)) {
         setTargetPower(targetWatts);
       }
     }
@@ -213,6 +354,17 @@ export function useWorkoutPlayer({
     intensityOffset,
   ]);
 
+  // The target only goes out when it changes - re-send it when a trainer
+  // connects mid-ride, e.g. after resuming a recovered one
+  useEffect(() => {
+    const state = playerStateRef.current;
+    if (!setTargetPower || state.controlMode !== 'erg' || state.targetPower <= 0) return;
+    if (state.status !== 'playing' && state.status !== 'paused') return;
+    setTargetPower(state.targetPower).catch((err) => {
+      console.error('Failed to re-apply target power:', err);
+    });
+  }, [setTargetPower]);
+
   // Main timer tick
   const tick = useCallback(() => {
     const now = Date.now();
@@ -223,14 +375,26 @@ export function useWorkoutPlayer({
       if (prev.status !== 'playing') return prev;
 
       const newElapsedTime = prev.elapsedTime + deltaSeconds;
-      const { index, segmentElapsed } = findSegmentAtTime(newElapsedTime);
+
+      // Route rides follow virtual distance - segment durations are estimates
+      let index: number;
+      let segmentElapsed: number;
+      if (route) {
+        index = findSegmentAtDistance(virtualDistanceRef.current).index;
+        segmentElapsed = index === prev.currentSegmentIndex ? prev.segmentElapsedTime + deltaSeconds : 0;
+      } else {
+        ({ index, segmentElapsed } = findSegmentAtTime(newElapsedTime));
+      }
 
       // Check for workout completion
-      if (newElapsedTime >= totalDuration) {
+      const isFinished = route
+        ? virtualDistanceRef.current >= route.totalDistance
+        : newElapsedTime >= totalDuration;
+      if (isFinished) {
         return {
           ...prev,
           status: 'completed',
-          elapsedTime: totalDuration,
+          elapsedTime: route ? newElapsedTime : totalDuration,
           currentSegmentIndex: expandedSegments.length - 1,
           segmentElapsedTime: expandedSegments[expandedSegments.length - 1]?.duration || 0,
         };
@@ -253,43 +417,26 @@ export function useWorkoutPlayer({
         segmentElapsedTime: segmentElapsed,
       };
     });
-  }, [expandedSegments, findSegmentAtTime, totalDuration, calculateTargetPower, onSegmentChange]);
+  }, [
+    expandedSegments,
+    route,
+    findSegmentAtTime,
+    findSegmentAtDistance,
+    totalDuration,
+    calculateTargetPower,
+    onSegmentChange,
+  ]);
 
   // Handle workout completion
   useEffect(() => {
     if (playerState.status === 'completed' && !completionCalledRef.current) {
       completionCalledRef.current = true;
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
-      if (recordIntervalRef.current) {
-        clearInterval(recordIntervalRef.current);
-        recordIntervalRef.current = null;
-      }
+      clockRef.current?.stop();
+      clockRef.current = null;
       onWorkoutComplete?.(recordedData);
     }
   }, [playerState.status, recordedData, onWorkoutComplete]);
 
-  // Generate realistic dummy data for testing when no trainer connected
-  const generateDummyData = useCallback((targetPower: number) => {
-    // Power: varies around target with some noise and lag
-    const powerVariation = (Math.random() - 0.5) * 30; // ±15W variation
-    const powerLag = (Math.random() - 0.5) * 10; // slight lag behind target
-    const dummyPower = Math.max(0, Math.round(targetPower + powerVariation + powerLag));
-
-    // Heart rate: correlates with power, ranges 100-170 based on effort
-    const effortRatio = targetPower / ftp; // 0 to ~1.2
-    const baseHR = 80 + effortRatio * 80; // 80-160 base
-    const hrVariation = (Math.random() - 0.5) * 10; // ±5 bpm variation
-    const dummyHR = Math.round(Math.min(190, Math.max(70, baseHR + hrVariation)));
-
-    // Cadence: typically 80-100 rpm
-    const dummyCadence = Math.round(85 + (Math.random() - 0.5) * 20);
-
-    return { power: dummyPower, heartRate: dummyHR, cadence: dummyCadence };
-  }, [ftp]);
-
   // Record data points (uses refs to avoid stale closure in interval)
   const recordDataPoint = useCallback(() => {
     const state = playerStateRef.current;
@@ -297,22 +444,60 @@ export function useWorkoutPlayer({
 
     if (state.status !== 'playing') return;
 
-    // Use real metrics if available, otherwise generate dummy data for testing
-    const hasRealData = currentMetrics?.power !== null || currentMetrics?.heartRate !== null;
-    const dummyData = !hasRealData ? generateDummyData(state.targetPower) : null;
+    // Nothing is recorded while the power source reconnects - the ride goes
+    // on, and distance isn't credited for the time without data
+    const reconnectingMetrics = reconnectingRef.current;
+    if (reconnectingMetrics.power) {
+      skippedSampleRef.current = true;
+      lastRecordedElapsedRef.current = state.elapsedTime;
+      return;
+    }
+
+    // Samples further apart than this weren't recorded in between (the
+    // machine slept, the tab was frozen, a device reconnected) - the next
+    // one is flagged as a gap
+    const now = Date.now();
+    const isGap = skippedSampleRef.current ||
+      (lastSampleAtRef.current !== null && now - lastSampleAtRef.current > RECORDING_GAP_MS);
+    lastSampleAtRef.current = now;
+    skippedSampleRef.current = false;
+
+    // Without devices the ride is recorded with no data - virtual devices
+    // stand in for testing
+    const segment = expandedSegments[state.currentSegmentIndex];
+    const actualPower = currentMetrics?.power ?? null;
+
+    // Virtual speed on the segment's slope (flat outside slope segments)
+    const speed = calculateSpeedFromPower(actualPower ?? 0, resolveSimulation(segment?.simulation));
+    const elapsedDelta = Math.max(0, state.elapsedTime - lastRecordedElapsedRef.current);
+    lastRecordedElapsedRef.current = state.elapsedTime;
+    virtualDistanceRef.current += speed * elapsedDelta;
+    setVirtualSpeed(speed * 3.6);
+    setVirtualDistance(virtualDistanceRef.current);
 
     const dataPoint: RecordedDataPoint = {
-      timestamp: Date.now(),
+      timestamp: now,
       elapsedTime: state.elapsedTime,
       targetPower: state.targetPower,
-      actualPower: currentMetrics?.power ?? dummyData?.power ?? null,
-      cadence: currentMetrics?.cadence ?? dummyData?.cadence ?? null,
-      heartRate: currentMetrics?.heartRate ?? dummyData?.heartRate ?? null,
+      actualPower,
+      cadence: currentMetrics?.cadence ?? null,
+      heartRate: currentMetrics?.heartRate ?? null,
       segmentIndex: state.currentSegmentIndex,
+      distance: virtualDistanceRef.current,
+      ...(isGap ? { gap: true } : {}),
+      ...(reconnectingMetrics.cadence ? { cadenceGap: true } : {}),
+      ...(reconnectingMetrics.heartRate ? { heartRateGap: true } : {}),
     };
 
     setRecordedData((prev) => [...prev, dataPoint]);
-  }, [generateDummyData]);
+  }, [expandedSegments]);
+
+  const resetVirtualDistance = useCallback(() => {
+    virtualDistanceRef.current = 0;
+    lastRecordedElapsedRef.current = 0;
+    setVirtualSpeed(0);
+    setVirtualDistance(0);
+  }, []);
 
   // Play
   const play = useCallback(() => {
@@ -331,20 +516,23 @@ export function useWorkoutPlayer({
         targetPower: 0,
       });
       setRecordedData([]);
+      resetVirtualDistance();
     } else {
       setPlayerState((prev) => ({ ...prev, status: 'playing' }));
     }
 
     lastTickRef.current = Date.now();
 
-    // Start main timer (1 second intervals)
-    if (!timerRef.current) {
-      timerRef.current = setInterval(tick, 1000);
-    }
+    lastSampleAtRef.current = null;
 
-    // Start recording (every 1 second)
-    if (!recordIntervalRef.current) {
-      recordIntervalRef.current = setInterval(recordDataPoint, 1000);
+    // Advance and record once a second from the ride clock, which keeps going
+    // while the tab is in the background
+    if (!clockRef.current) {
+      clockRef.current = createRideClock(() => {
+        tick();
+        recordDataPoint();
+      });
+      clockRef.current.start();
     }
 
     // Trigger initial segment change callback
@@ -355,7 +543,7 @@ export function useWorkoutPlayer({
       onSegmentChange?.(playerState.currentSegmentIndex, targetWatts);
 
       // Send initial target to trainer
-      if (playerState.controlMode === 'erg' && setTargetPower) {
+      if (playerState.controlMode === 'erg' && setTargetPower && hasErgTarget(segment)) {
         setTargetPower(targetWatts);
       }
     }
@@ -363,6 +551,7 @@ export function useWorkoutPlayer({
     playerState,
     tick,
     recordDataPoint,
+    resetVirtualDistance,
     expandedSegments,
     calculateTargetPower,
     onSegmentChange,
@@ -371,28 +560,16 @@ export function useWorkoutPlayer({
 
   // Pause
   const pause = useCallback(() => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    if (recordIntervalRef.current) {
-      clearInterval(recordIntervalRef.current);
-      recordIntervalRef.current = null;
-    }
+    clockRef.current?.stop();
+    clockRef.current = null;
     setPlayerState((prev) => ({ ...prev, status: 'paused' }));
   }, []);
 
   // Stop
   const stop = useCallback(() => {
     completionCalledRef.current = false;
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    if (recordIntervalRef.current) {
-      clearInterval(recordIntervalRef.current);
-      recordIntervalRef.current = null;
-    }
+    clockRef.current?.stop();
+    clockRef.current = null;
     setPlayerState({
       status: 'stopped',
       elapsedTime: 0,
@@ -401,19 +578,14 @@ export function useWorkoutPlayer({
       controlMode: playerState.controlMode,
       targetPower: 0,
     });
+    resetVirtualDistance();
     // Don't clear recorded data - might want to export partial workout
-  }, [playerState.controlMode]);
+  }, [playerState.controlMode, resetVirtualDistance]);
 
   // End workout early (triggers completion with current recorded data)
   const endWorkout = useCallback(() => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    if (recordIntervalRef.current) {
-      clearInterval(recordIntervalRef.current);
-      recordIntervalRef.current = null;
-    }
+    clockRef.current?.stop();
+    clockRef.current = null;
     // Mark as completed to trigger the completion callback
     setPlayerState((prev) => ({
       ...prev,
@@ -421,6 +593,16 @@ export function useWorkoutPlayer({
     }));
   }, []);
 
+  // Route rides skip by moving the rider to the start of a section
+  const moveToSection = useCallback((index: number) => {
+    if (!route) return;
+    const start = expandedSegments
+      .slice(0, index)
+      .reduce((sum, seg) => sum + (seg.simulation?.distance ?? 0), 0);
+    virtualDistanceRef.current = start;
+    setVirtualDistance(start);
+  }, [route, expandedSegments]);
+
   // Skip forward to next segment
   const skipForward = useCallback(() => {
     const nextIndex = playerState.currentSegmentIndex + 1;
@@ -429,14 +611,15 @@ export function useWorkoutPlayer({
       setPlayerState((prev) => ({
         ...prev,
         status: 'completed',
-        elapsedTime: totalDuration,
+        elapsedTime: route ? prev.elapsedTime : totalDuration,
         currentSegmentIndex: expandedSegments.length - 1,
         segmentElapsedTime: expandedSegments[expandedSegments.length - 1]?.duration || 0,
       }));
       return;
     }
 
-    const newElapsedTime = getCumulativeDuration(nextIndex);
+    moveToSection(nextIndex);
+    const newElapsedTime = route ? playerState.elapsedTime : getCumulativeDuration(nextIndex);
     setPlayerState((prev) => ({
       ...prev,
       elapsedTime: newElapsedTime,
@@ -448,7 +631,7 @@ export function useWorkoutPlayer({
     if (segment) {
       const targetWatts = calculateTargetPower(segment, 0);
       onSegmentChange?.(nextIndex, targetWatts);
-      if (playerState.controlMode === 'erg' && setTargetPower) {
+      if (playerState.controlMode === 'erg' && setTargetPower && hasErgTarget(segment)) {
         setTargetPower(targetWatts);
       }
     }
@@ -457,6 +640,8 @@ export function useWorkoutPlayer({
     expandedSegments,
     totalDuration,
     getCumulativeDuration,
+    moveToSection,
+    route,
     calculateTargetPower,
     onSegmentChange,
     setTargetPower,
@@ -466,7 +651,8 @@ export function useWorkoutPlayer({
   const skipBackward = useCallback(() => {
     // If we're more than 3 seconds into current segment, restart it
     if (playerState.segmentElapsedTime > 3) {
-      const newElapsedTime = getCumulativeDuration(playerState.currentSegmentIndex);
+      moveToSection(playerState.currentSegmentIndex);
+      const newElapsedTime = route ? playerState.elapsedTime : getCumulativeDuration(playerState.currentSegmentIndex);
       setPlayerState((prev) => ({
         ...prev,
         elapsedTime: newElapsedTime,
@@ -477,7 +663,7 @@ export function useWorkoutPlayer({
       if (segment) {
         const targetWatts = calculateTargetPower(segment, 0);
         onSegmentChange?.(playerState.currentSegmentIndex, targetWatts);
-        if (playerState.controlMode === 'erg' && setTargetPower) {
+        if (playerState.controlMode === 'erg' && setTargetPower && hasErgTarget(segment)) {
           setTargetPower(targetWatts);
         }
       }
@@ -486,7 +672,8 @@ export function useWorkoutPlayer({
 
     // Otherwise go to previous segment
     const prevIndex = Math.max(0, playerState.currentSegmentIndex - 1);
-    const newElapsedTime = getCumulativeDuration(prevIndex);
+    moveToSection(prevIndex);
+    const newElapsedTime = route ? playerState.elapsedTime : getCumulativeDuration(prevIndex);
     setPlayerState((prev) => ({
       ...prev,
       elapsedTime: newElapsedTime,
@@ -498,7 +685,7 @@ export function useWorkoutPlayer({
     if (segment) {
       const targetWatts = calculateTargetPower(segment, 0);
       onSegmentChange?.(prevIndex, targetWatts);
-      if (playerState.controlMode === 'erg' && setTargetPower) {
+      if (playerState.controlMode === 'erg' && setTargetPower && hasErgTarget(segment)) {
         setTargetPower(targetWatts);
       }
     }
@@ -506,6 +693,8 @@ export function useWorkoutPlayer({
     playerState,
     expandedSegments,
     getCumulativeDuration,
+    moveToSection,
+    route,
     calculateTargetPower,
     onSegmentChange,
     setTargetPower,
@@ -515,12 +704,45 @@ export function useWorkoutPlayer({
   // 50% provides moderate resistance suitable for most trainers
   const DEFAULT_MANUAL_RESISTANCE = 50;
 
+  // Release ERG for free-ride segments. Leaving one changes the target from 0,
+  // so the target power effect puts the trainer back into ERG
+  const isFreeRide = expandedSegments[playerState.currentSegmentIndex]?.type === 'freeride';
+  useEffect(() => {
+    if (!isFreeRide || playerState.status !== 'playing' || playerState.controlMode !== 'erg') {
+      return;
+    }
+    setResistanceMode?.(DEFAULT_MANUAL_RESISTANCE).catch((err) => {
+      console.error('Failed to release ERG for free ride:', err);
+    });
+  }, [isFreeRide, playerState.status, playerState.controlMode, setResistanceMode]);
+
+  // Slope segments put the trainer in SIM mode - re-sent per segment as each
+  // one can have its own gradient
+  const currentSimulation = expandedSegments[playerState.currentSegmentIndex]?.simulation;
+  const isSimulation = !!currentSimulation;
+  useEffect(() => {
+    if (!currentSimulation || playerState.status !== 'playing' || playerState.controlMode !== 'erg') {
+      return;
+    }
+    setSimulation?.(resolveSimulation(currentSimulation)).catch((err) => {
+      console.error('Failed to set simulation:', err);
+    });
+  }, [
+    currentSimulation,
+    playerState.currentSegmentIndex,
+    playerState.status,
+    playerState.controlMode,
+    setSimulation,
+  ]);
+
   // Set control mode
   const setControlMode = useCallback(
     (mode: ControlMode) => {
       setPlayerState((prev) => {
         // If switching to ERG and currently playing, send current target
-        if (mode === 'erg' && prev.status === 'playing' && setTargetPower) {
+        // (free-ride and slope segments are handled by their own effects)
+        const segment = expandedSegments[prev.currentSegmentIndex];
+        if (mode === 'erg' && prev.status === 'playing' && setTargetPower && segment && hasErgTarget(segment)) {
           setTargetPower(prev.targetPower).catch((err) => {
             console.error('Failed to set target power on mode switch:', err);
           });
@@ -536,7 +758,7 @@ export function useWorkoutPlayer({
         return { ...prev, controlMode: mode };
       });
     },
-    [setTargetPower, setResistanceMode]
+    [expandedSegments, setTargetPower, setResistanceMode]
   );
 
   // Adjust intensity offset by a delta (e.g. +5 or -5 percentage points)
@@ -554,36 +776,56 @@ export function useWorkoutPlayer({
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-      if (recordIntervalRef.current) {
-        clearInterval(recordIntervalRef.current);
-      }
+      clockRef.current?.stop();
     };
   }, []);
 
   // Calculate derived values
   const currentSegment = expandedSegments[playerState.currentSegmentIndex] || null;
-  const segmentProgress = currentSegment
+  let segmentProgress = currentSegment
     ? Math.min(1, playerState.segmentElapsedTime / currentSegment.duration)
     : 0;
-  const workoutProgress = totalDuration > 0 ? Math.min(1, playerState.elapsedTime / totalDuration) : 0;
-  const remainingSegmentTime = currentSegment
+  let workoutProgress = totalDuration > 0 ? Math.min(1, playerState.elapsedTime / totalDuration) : 0;
+  let remainingSegmentTime = currentSegment
     ? Math.max(0, currentSegment.duration - playerState.segmentElapsedTime)
     : 0;
-  const remainingTotalTime = Math.max(0, totalDuration - playerState.elapsedTime);
+  let remainingTotalTime = Math.max(0, totalDuration - playerState.elapsedTime);
+
+  // Route rides progress by distance, remaining times are estimates
+  if (route && currentSegment) {
+    const { sectionStart } = findSegmentAtDistance(virtualDistance);
+    const sectionLength = currentSegment.simulation?.distance ?? 0;
+    segmentProgress = sectionLength > 0
+      ? Math.min(1, Math.max(0, (virtualDistance - sectionStart) / sectionLength))
+      : 0;
+    workoutProgress = route.totalDistance > 0 ? Math.min(1, virtualDistance / route.totalDistance) : 0;
+    remainingSegmentTime = currentSegment.duration * (1 - segmentProgress);
+    remainingTotalTime = totalDuration * (1 - workoutProgress);
+  }
+  const heartRateBand = currentSegment
+    ? getHeartRateBand(currentSegment, heartRateControl.lthr)
+    : null;
+  const currentTextEvent = currentSegment
+    ? getActiveTextEvent(currentSegment, playerState.segmentElapsedTime)
+    : null;
 
   return {
     playerState,
     expandedSegments,
     currentSegment,
+    currentTextEvent,
     segmentProgress,
     workoutProgress,
     remainingSegmentTime,
     remainingTotalTime,
     recordedData,
     isAutoPaused,
+    isFreeRide,
+    isSimulation,
+    virtualSpeed,
+    virtualDistance,
+    heartRateBand,
+    isHeartRateFallback,
     intensityOffset,
     play,
     pause,
@@ -595,3 +837,8 @@ export function useWorkoutPlayer({
     adjustIntensity,
   };
 }
+
+// Free-ride and slope segments leave the effort to the rider - no ERG target
+function hasErgTarget(segment: Segment): boolean {
+  return segment.type !== 'freeride' && !segment.simulation;
+}
@@ -17,6 +17,7 @@ interface DbWorkoutRow {
   created_at: string;
   source: string;
   completion: unknown;
+  route: unknown; // added in supabase/migrations/20261019000000_add_workout_route.sql
 }
 
 function dbRowToWorkout(row: DbWorkoutRow): Workout {
@@ -30,6 +31,7 @@ function dbRowToWorkout(row: DbWorkoutRow): Workout {
     segments: row.segments as Workout["segments"],
     createdAt: row.created_at,
     source: row.source as Workout["source"],
+    route: (row.route as Workout["route"]) ?? undefined,
     completion: (row.completion as Workout["completion"]) ?? undefined,
   };
 }
@@ -47,6 +49,7 @@ function workoutToDbRow(workout: Workout, userId: string): Omit<DbWorkoutRow, "u
     created_at: workout.createdAt,
     source: workout.source,
     completion: workout.completion ?? null,
+    route: workout.route ?? null,
   };
 }
 
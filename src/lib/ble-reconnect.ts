@@ -0,0 +1,129 @@
+// Bluetooth reconnection
+// A device that drops mid-ride is retried with backoff until it's back or
+// the time runs out. Each attempt looks the device up again among the ones
+// the site is already permitted to use, so no picker is needed - the same
+// lookup connects remembered devices at the start of a session.
+
+const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000, 15000];
+const RECONNECT_TIMEOUT_MS = 2 * 60 * 1000;
+
+// A remembered device that doesn't connect in this long is likely off or
+// out of range
+const KNOWN_DEVICE_TIMEOUT_MS = 10000;
+
+/**
+ * Whether devices can be connected without the chooser - getDevices() is
+ * behind a flag in some browsers
+ */
+export function canConnectWithoutChooser(): boolean {
+  return typeof navigator !== "undefined" && typeof navigator.bluetooth?.getDevices === "function";
+}
+
+/**
+ * The device with this id among the ones the site is permitted to use, or
+ * null if it isn't one of them
+ */
+export async function getPermittedDevice(id: string): Promise<BluetoothDevice | null> {
+  if (!canConnectWithoutChooser()) return null;
+  try {
+    const devices = await navigator.bluetooth.getDevices();
+    return devices.find((device) => device.id === id) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Revoke the site's permission for a device, where the browser supports it
+ */
+export async function forgetPermittedDevice(id: string): Promise<void> {
+  const device = await getPermittedDevice(id);
+  if (typeof device?.forget !== "function") return;
+  try {
+    await device.forget();
+  } catch (err) {
+    console.log(`Could not forget ${device.name ?? "device"}:`, err);
+  }
+}
+
+/**
+ * The permitted device with the same id, falling back to the object we
+ * already hold
+ */
+export async function findPairedDevice(device: BluetoothDevice): Promise<BluetoothDevice> {
+  return (await getPermittedDevice(device.id)) ?? device;
+}
+
+/**
+ * Connect to a remembered device, giving up (and dropping any half-open
+ * connection) once the timeout passes
+ */
+export function connectWithTimeout<T>(device: BluetoothDevice, connect: () => Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      if (device.gatt?.connected) {
+        device.gatt.disconnect();
+      }
+      reject(new Error(`Timed out connecting to ${device.name ?? "device"}`));
+    }, KNOWN_DEVICE_TIMEOUT_MS);
+
+    connect().then(
+      (result) => {
+        clearTimeout(timer);
+        resolve(result);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Keep trying `reconnect` on the device until it resolves. Calls `onGiveUp`
+ * once the timeout passes. Returns a function that stops trying
+ */
+export function startReconnect(
+  device: BluetoothDevice,
+  reconnect: (device: BluetoothDevice) => Promise<void>,
+  onGiveUp: () => void
+): () => void {
+  const startedAt = Date.now();
+  let attempt = 0;
+  let cancelled = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const scheduleAttempt = () => {
+    const delay = RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+    if (Date.now() + delay - startedAt > RECONNECT_TIMEOUT_MS) {
+      onGiveUp();
+      return;
+    }
+
+    timer = setTimeout(async () => {
+      if (cancelled) return;
+      const paired = await findPairedDevice(device);
+      try {
+        if (cancelled) return;
+        await reconnect(paired);
+      } catch (err) {
+        if (cancelled) return;
+        console.log(`Reconnect attempt ${attempt + 1} to ${device.name ?? "device"} failed:`, err);
+        // Half-open connections would stop the next attempt from subscribing
+        if (paired.gatt?.connected) {
+          paired.gatt.disconnect();
+        }
+        attempt += 1;
+        scheduleAttempt();
+      }
+    }, delay);
+  };
+
+  scheduleAttempt();
+
+  return () => {
+    cancelled = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,87 @@
+// Bluetooth sensor parsing
+// Cycling Power and Cycling Speed and Cadence measurements carry cumulative
+// crank and wheel revolution counters with a 1/1024 s event time. Cadence
+// and speed come from the difference between two measurements.
+
+const WHEEL_CIRCUMFERENCE = 2.105; // metres, 700x25c
+const MAX_CADENCE = 200; // rpm - anything above is a glitch
+const STOPPED_AFTER = 2048; // 1/1024 s - about 2 s without a new revolution
+
+export interface RevolutionReading {
+  revolutions: number;
+  eventTime: number; // 1/1024 s, rolls over at 65536
+}
+
+export interface CyclingPowerMeasurement {
+  power: number;
+  crank: RevolutionReading | null;
+}
+
+export interface SpeedCadenceMeasurement {
+  wheel: RevolutionReading | null;
+  crank: RevolutionReading | null;
+}
+
+export function parseCyclingPowerMeasurement(data: DataView): CyclingPowerMeasurement {
+  const flags = data.getUint16(0, true);
+  let offset = 2;
+
+  // Instantaneous Power (always present)
+  const power = data.getInt16(offset, true);
+  offset += 2;
+
+  // Skip balance, torque and wheel revolution data if present
+  if (flags & 0x01) offset += 1;
+  if (flags & 0x04) offset += 2;
+  if (flags & 0x10) offset += 6;
+
+  const crank = flags & 0x20
+    ? { revolutions: data.getUint16(offset, true), eventTime: data.getUint16(offset + 2, true) }
+    : null;
+
+  return { power, crank };
+}
+
+export function parseSpeedCadenceMeasurement(data: DataView): SpeedCadenceMeasurement {
+  const flags = data.getUint8(0);
+  let offset = 1;
+
+  let wheel: RevolutionReading | null = null;
+  if (flags & 0x01) {
+    wheel = { revolutions: data.getUint32(offset, true), eventTime: data.getUint16(offset + 4, true) };
+    offset += 6;
+  }
+
+  const crank = flags & 0x02
+    ? { revolutions: data.getUint16(offset, true), eventTime: data.getUint16(offset + 2, true) }
+    : null;
+
+  return { wheel, crank };
+}
+
+/**
+ * Cadence in rpm between two crank readings - 0 once the cranks have stopped,
+ * null when the readings can't tell (no new event yet, or a glitch)
+ */
+export function calculateCadence(previous: RevolutionReading, current: RevolutionReading): number | null {
+  // Handle rollover (16-bit values)
+  const revolutions = (current.revolutions - previous.revolutions + 65536) % 65536;
+  const time = (current.eventTime - previous.eventTime + 65536) % 65536;
+
+  if (time > 0 && revolutions < 100) {
+    const rpm = (revolutions / (time / 1024)) * 60;
+    return rpm < MAX_CADENCE ? Math.round(rpm) : null;
+  }
+  return time > STOPPED_AFTER ? 0 : null;
+}
+
+/**
+ * Speed in km/h between two wheel readings, null when no new event came in
+ */
+export function calculateWheelSpeed(previous: RevolutionReading, current: RevolutionReading): number | null {
+  // Wheel revolutions are 32-bit, the event time 16-bit
+  const revolutions = current.revolutions - previous.revolutions;
+  const time = (current.eventTime - previous.eventTime + 65536) % 65536;
+  if (revolutions < 0 || time === 0) return null;
+  return Math.round(((revolutions * WHEEL_CIRCUMFERENCE) / (time / 1024)) * 3.6 * 10) / 10;
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { RecordedDataPoint } from "@/types/trainer";
+import { Segment } from "@/types/workout";
+import { calculateComplianceScore, calculateSegmentCompliance, getComplianceStatus } from "./compliance";
+
+const FTP = 250;
+const LTHR = 170;
+
+interface Sample {
+  power?: number | null;
+  target?: number;
+  heartRate?: number | null;
+}
+
+// 1 Hz samples for one segment, `count` copies of each sample in turn
+function samples(segmentIndex: number, ...stretches: [count: number, sample: Sample][]): RecordedDataPoint[] {
+  const data: RecordedDataPoint[] = [];
+  for (const [count, { power = null, target = 0, heartRate = null }] of stretches) {
+    for (let i = 0; i < count; i++) {
+      const elapsedTime = data.length + 1;
+      data.push({
+        timestamp: elapsedTime * 1000,
+        elapsedTime,
+        targetPower: target,
+        actualPower: power,
+        cadence: 90,
+        heartRate,
+        segmentIndex,
+      });
+    }
+  }
+  return data;
+}
+
+const steady: Segment = { id: "s", type: "steady", duration: 100, targetPower: { type: "percent_ftp", value: 80 } };
+const heartRateBand: Segment = {
+  id: "hr",
+  type: "steady",
+  duration: 100,
+  targetPower: { type: "heart_rate", value: 80, valueHigh: 90, heartRateUnit: "percent_lthr", fallbackPower: 65 },
+};
+
+describe("getComplianceStatus", () => {
+  it("passes on target on average and 80% of the time in range", () => {
+    expect(getComplianceStatus(100, 0.8)).toBe("pass");
+    expect(getComplianceStatus(95, 1)).toBe("pass");
+    expect(getComplianceStatus(105, 0.8)).toBe("pass");
+  });
+
+  it("is partial within 10% on average or half the time in range", () => {
+    expect(getComplianceStatus(100, 0.79)).toBe("partial");
+    expect(getComplianceStatus(106, 0.9)).toBe("partial");
+    expect(getComplianceStatus(90, 0)).toBe("partial");
+    expect(getComplianceStatus(120, 0.5)).toBe("partial");
+  });
+
+  it("fails further off than that, or without data", () => {
+    expect(getComplianceStatus(111, 0.49)).toBe("fail");
+    expect(getComplianceStatus(89, 0.2)).toBe("fail");
+    expect(getComplianceStatus(null, null)).toBe("fail");
+    expect(getComplianceStatus(100, null)).toBe("fail");
+  });
+});
+
+describe("calculateSegmentCompliance", () => {
+  it("compares power with the recorded target sample by sample", () => {
+    const data = samples(0, [90, { power: 205, target: 200 }], [10, { power: 150, target: 200 }]);
+    const [result] = calculateSegmentCompliance([steady], data, FTP, LTHR);
+
+    expect(result).toMatchObject({
+      recordedSeconds: 100,
+      target: 200,
+      avgPower: 200,
+      compliance: 100,
+      timeInRange: 0.9,
+      status: "pass",
+    });
+  });
+
+  it("falls back to the planned target when none was recorded", () => {
+    const [result] = calculateSegmentCompliance([steady], samples(0, [100, { power: 230 }]), FTP, LTHR);
+    expect(result).toMatchObject({ target: 200, compliance: 115, timeInRange: 0, status: "fail" });
+  });
+
+  it("counts samples without power against the time in range", () => {
+    const data = samples(0, [50, { power: 200, target: 200 }], [50, { power: null, target: 200 }]);
+    const [result] = calculateSegmentCompliance([steady], data, FTP, LTHR);
+
+    // On target whenever there was power - but only for half the segment
+    expect(result).toMatchObject({ avgPower: 200, compliance: 100, timeInRange: 0.5, status: "partial" });
+  });
+
+  it("follows a ramp through its recorded targets", () => {
+    const ramp: Segment = { ...steady, targetPower: { type: "percent_ftp", value: 60, valueHigh: 100 } };
+    const data = samples(
+      0,
+      ...Array.from({ length: 10 }, (_, i): [number, Sample] => [10, { power: 150 + i * 10, target: 150 + i * 10 }])
+    );
+    const [result] = calculateSegmentCompliance([ramp], data, FTP, LTHR);
+
+    expect(result).toMatchObject({ target: 195, compliance: 100, timeInRange: 1, status: "pass" });
+  });
+
+  it("scores heart-rate segments against the LTHR band", () => {
+    // 80-90% of 170 bpm is 136-153 bpm
+    const data = samples(1, [70, { power: 160, heartRate: 145 }], [30, { power: 160, heartRate: 160 }]);
+    const results = calculateSegmentCompliance([steady, heartRateBand], data, FTP, LTHR);
+
+    expect(results[1]).toMatchObject({
+      target: 145,
+      avgHeartRate: 150,
+      compliance: 103,
+      timeInRange: 0.7,
+      status: "partial",
+    });
+  });
+
+  it("scores bpm bands without an LTHR", () => {
+    const bpm: Segment = { ...heartRateBand, targetPower: { type: "heart_rate", value: 130, valueHigh: 140 } };
+    const [result] = calculateSegmentCompliance([bpm], samples(0, [100, { heartRate: 135 }]), FTP, null);
+    expect(result).toMatchObject({ target: 135, compliance: 100, timeInRange: 1, status: "pass" });
+  });
+
+  it("leaves out %LTHR segments without an LTHR, free rides and slopes", () => {
+    const freeRide: Segment = { ...steady, type: "freeride" };
+    const slope: Segment = { ...steady, simulation: { grade: 5 } };
+    const data = [
+      ...samples(0, [10, { power: 200, heartRate: 140 }]),
+      ...samples(1, [10, { power: 200 }]),
+      ...samples(2, [10, { power: 200 }]),
+    ];
+
+    const results = calculateSegmentCompliance([heartRateBand, freeRide, slope], data, FTP, null);
+    expect(results.map((r) => r.status)).toEqual([null, null, null]);
+    expect(results[1]).toMatchObject({ avgPower: 200, target: null, timeInRange: null });
+  });
+
+  it("fails a skipped segment", () => {
+    const [, skipped] = calculateSegmentCompliance([steady, steady], samples(0, [100, { power: 200 }]), FTP, LTHR);
+    expect(skipped).toMatchObject({ recordedSeconds: 0, avgPower: null, status: "fail" });
+  });
+
+  it("scales stored 5s samples to the time they cover", () => {
+    const stored = samples(0, [20, { power: 200, target: 200 }]).map((p) => ({ ...p, elapsedTime: p.elapsedTime * 5 }));
+    const [result] = calculateSegmentCompliance([steady], stored, FTP, LTHR);
+    expect(result.recordedSeconds).toBe(100);
+  });
+});
+
+describe("calculateComplianceScore", () => {
+  it("weights time in range by planned duration across scored segments", () => {
+    const long: Segment = { ...steady, duration: 300 };
+    const freeRide: Segment = { ...steady, type: "freeride", duration: 600 };
+    const segments = [long, steady, freeRide, steady];
+    const data = [
+      ...samples(0, [300, { power: 200, target: 200 }]),
+      ...samples(1, [50, { power: 200, target: 200 }], [50, { power: 100, target: 200 }]),
+      ...samples(2, [600, { power: 100 }]),
+    ];
+
+    const results = calculateSegmentCompliance(segments, data, FTP, LTHR);
+    // (1 * 300 + 0.5 * 100 + 0 * 100) / 500 - the free ride and its 600s don't count
+    expect(calculateComplianceScore(segments, results)).toBe(70);
+  });
+
+  it("is null when nothing is scored", () => {
+    const freeRide: Segment = { ...steady, type: "freeride" };
+    const results = calculateSegmentCompliance([freeRide], samples(0, [100, { power: 200 }]), FTP, LTHR);
+    expect(calculateComplianceScore([freeRide], results)).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { Segment } from "@/types/workout";
+import { RecordedDataPoint } from "@/types/trainer";
+import { getPowerAsWatts } from "@/lib/workout-utils";
+import { calculateNormalizedPower } from "@/lib/workout-storage";
+import { getHeartRateBand } from "@/lib/heart-rate-control";
+
+// Per-segment compliance
+// Power segments are compared sample by sample with the ERG target that was
+// recorded (so ramps and intensity changes count), heart-rate segments with
+// their HR band. Free-ride and slope segments have no target and aren't scored.
+
+const POWER_TOLERANCE = 0.05; // inside the target range: within 5% of target
+const PASS_IN_RANGE = 0.8; // fraction of the segment inside the range
+const PARTIAL_IN_RANGE = 0.5;
+
+export type ComplianceStatus = "pass" | "partial" | "fail";
+
+export interface SegmentCompliance {
+  segmentIndex: number;
+  recordedSeconds: number;
+  target: number | null;          // average target - watts, or bpm for HR segments
+  avgPower: number | null;
+  normalizedPower: number | null;
+  avgCadence: number | null;
+  avgHeartRate: number | null;
+  compliance: number | null;      // actual as percent of target
+  timeInRange: number | null;     // 0-1
+  status: ComplianceStatus | null; // null when the segment isn't scored
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+/**
+ * Compliance for every segment of the (expanded) workout. Segments the rider
+ * skipped have no data and fail
+ */
+export function calculateSegmentCompliance(
+  segments: Segment[],
+  data: RecordedDataPoint[],
+  ftp: number,
+  lthr: number | null
+): SegmentCompliance[] {
+  const bySegment = new Map<number, RecordedDataPoint[]>();
+  for (const point of data) {
+    const points = bySegment.get(point.segmentIndex) ?? [];
+    points.push(point);
+    bySegment.set(point.segmentIndex, points);
+  }
+
+  return segments.map((segment, segmentIndex) => {
+    const points = bySegment.get(segmentIndex) ?? [];
+    // Samples are 1s live and 5s once stored - scale by their spacing
+    const spacing = points.length > 1
+      ? (points[points.length - 1].elapsedTime - points[0].elapsedTime) / (points.length - 1)
+      : 1;
+    const recordedSeconds = Math.round(points.length * spacing);
+    const powers = points.map((p) => p.actualPower).filter((v): v is number => v !== null);
+    const cadences = points.map((p) => p.cadence).filter((v): v is number => v !== null);
+    const heartRates = points.map((p) => p.heartRate).filter((v): v is number => v !== null && v > 0);
+    const avgPower = average(powers);
+    const avgHeartRate = average(heartRates);
+
+    const result: SegmentCompliance = {
+      segmentIndex,
+      recordedSeconds,
+      target: null,
+      avgPower: avgPower !== null ? Math.round(avgPower) : null,
+      normalizedPower: calculateNormalizedPower(points),
+      avgCadence: cadences.length > 0 ? Math.round(average(cadences)!) : null,
+      avgHeartRate: avgHeartRate !== null ? Math.round(avgHeartRate) : null,
+      compliance: null,
+      timeInRange: null,
+      status: null,
+    };
+
+    if (segment.type === "freeride" || segment.simulation) return result;
+
+    if (segment.targetPower.type === "heart_rate") {
+      const band = getHeartRateBand(segment, lthr);
+      if (!band) return result;
+      result.target = Math.round((band.low + band.high) / 2);
+      if (avgHeartRate !== null) {
+        result.compliance = Math.round((avgHeartRate / result.target) * 100);
+        result.timeInRange = heartRates.filter((hr) => hr >= band.low && hr <= band.high).length / heartRates.length;
+      }
+    } else {
+      const targets = points.map((p) => p.targetPower || getPowerAsWatts(segment, ftp));
+      const avgTarget = average(targets) ?? getPowerAsWatts(segment, ftp);
+      result.target = Math.round(avgTarget);
+      if (avgPower !== null && avgTarget > 0) {
+        result.compliance = Math.round((avgPower / avgTarget) * 100);
+        const inRange = points.filter(
+          (p, i) => p.actualPower !== null && Math.abs(p.actualPower - targets[i]) <= targets[i] * POWER_TOLERANCE
+        ).length;
+        result.timeInRange = inRange / points.length;
+      }
+    }
+
+    result.status = getComplianceStatus(result.compliance, result.timeInRange);
+    return result;
+  });
+}
+
+export function getComplianceStatus(compliance: number | null, timeInRange: number | null): ComplianceStatus {
+  if (compliance === null || timeInRange === null) return "fail";
+  const onAverage = Math.abs(compliance - 100) <= POWER_TOLERANCE * 100;
+  if (onAverage && timeInRange >= PASS_IN_RANGE) return "pass";
+  if (Math.abs(compliance - 100) <= POWER_TOLERANCE * 200 || timeInRange >= PARTIAL_IN_RANGE) return "partial";
+  return "fail";
+}
+
+/**
+ * Whole-workout compliance (0-100): time in range across scored segments,
+ * weighted by their planned duration. Null when nothing is scored
+ */
+export function calculateComplianceScore(segments: Segment[], results: SegmentCompliance[]): number | null {
+  let weighted = 0;
+  let totalDuration = 0;
+  results.forEach((result) => {
+    if (result.status === null) return;
+    const duration = segments[result.segmentIndex].duration;
+    weighted += (result.timeInRange ?? 0) * duration;
+    totalDuration += duration;
+  });
+  return totalDuration > 0 ? Math.round((weighted / totalDuration) * 100) : null;
+}
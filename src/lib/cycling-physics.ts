@@ -0,0 +1,66 @@
+import { SegmentSimulation } from "@/types/workout";
+import { SimulationParams, DEFAULT_SIMULATION } from "@/types/trainer";
+
+const GRAVITY = 9.8067; // m/s²
+const AIR_DENSITY = 1.225; // kg/m³ at sea level, 15°C
+const BIKE_WEIGHT = 8; // kg
+const DRIVETRAIN_EFFICIENCY = 0.976;
+const MAX_SPEED = 30; // m/s - upper bound for the speed search
+
+/**
+ * Fill in a segment's simulation with the defaults it leaves out
+ */
+export function resolveSimulation(simulation?: SegmentSimulation): SimulationParams {
+  return {
+    ...DEFAULT_SIMULATION,
+    ...(simulation
+      ? Object.fromEntries(Object.entries(simulation).filter(([, value]) => value !== undefined))
+      : {}),
+  };
+}
+
+/**
+ * Air drag coefficient (0.5 * rho * CdA) in kg/m - what FTMS and Wahoo call
+ * the wind resistance coefficient
+ */
+export function getWindResistanceCoefficient(cda: number): number {
+  return 0.5 * AIR_DENSITY * cda;
+}
+
+export function getTotalMass(params: SimulationParams): number {
+  return params.riderWeight + BIKE_WEIGHT;
+}
+
+/**
+ * Power needed to hold a speed (m/s) under the given conditions
+ */
+export function calculatePowerForSpeed(speed: number, params: SimulationParams): number {
+  const slope = Math.atan(params.grade / 100);
+  const mass = getTotalMass(params);
+  const gravity = mass * GRAVITY * Math.sin(slope);
+  const rolling = mass * GRAVITY * Math.cos(slope) * params.crr;
+  const airSpeed = speed + params.windSpeed;
+  const drag = getWindResistanceCoefficient(params.cda) * airSpeed * Math.abs(airSpeed);
+  return ((gravity + rolling + drag) * speed) / DRIVETRAIN_EFFICIENCY;
+}
+
+/**
+ * Steady-state speed (m/s) for a power - the speed where the resisting forces
+ * use up all the power. Descents still roll with no power
+ */
+export function calculateSpeedFromPower(power: number, params: SimulationParams): number {
+  if (power <= 0 && params.grade >= 0) return 0;
+  power = Math.max(0, power);
+
+  let low = 0;
+  let high = MAX_SPEED;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (calculatePowerForSpeed(mid, params) < power) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
@@ -0,0 +1,106 @@
+import { Workout, AerobicDecoupling, FtpHistoryEntry } from "@/types/workout";
+import { RecordedDataPoint } from "@/types/trainer";
+import { calculateNormalizedPower } from "@/lib/workout-storage";
+import { getWorkoutFtp } from "@/lib/ftp-history";
+
+// Aerobic decoupling
+// The ride (samples with both power and HR) is split in half by time. Each
+// half's efficiency factor is NP / average HR; Pa:HR decoupling is how much
+// the second half's EF dropped against the first. Under 5% on a long steady
+// ride means the rider's aerobic base held up.
+
+const MIN_DURATION = 1200; // seconds of power + HR data needed
+
+// Rides are compared with others of the same intensity
+const RIDE_CATEGORIES = [
+  { name: "Recovery", maxIntensity: 0.6 },
+  { name: "Endurance", maxIntensity: 0.76 },
+  { name: "Tempo", maxIntensity: 0.88 },
+  { name: "Threshold", maxIntensity: 0.95 },
+  { name: "High intensity", maxIntensity: Infinity },
+];
+
+export interface DecouplingTrendPoint {
+  workoutId: string;
+  date: string; // completion start, ISO
+  efficiencyFactor: number;
+  decoupling: number;
+}
+
+function halfMetrics(data: RecordedDataPoint[]): { np: number; hr: number } | null {
+  const np = calculateNormalizedPower(data);
+  const heartRates = data.map((p) => p.heartRate).filter((v): v is number => v !== null && v > 0);
+  if (!np || heartRates.length === 0) return null;
+  return { np, hr: heartRates.reduce((a, b) => a + b, 0) / heartRates.length };
+}
+
+/**
+ * Efficiency factor, Pa:HR decoupling and HR drift for a ride. Null when it
+ * has less than MIN_DURATION of combined power and heart-rate data
+ */
+export function calculateAerobicDecoupling(data: RecordedDataPoint[]): AerobicDecoupling | null {
+  const valid = data.filter((p) => p.actualPower !== null && p.actualPower > 0 && p.heartRate !== null && p.heartRate > 0);
+  if (valid.length < 2) return null;
+
+  const start = valid[0].elapsedTime;
+  const end = valid[valid.length - 1].elapsedTime;
+  if (end - start < MIN_DURATION) return null;
+
+  const midpoint = (start + end) / 2;
+  const first = halfMetrics(valid.filter((p) => p.elapsedTime <= midpoint));
+  const second = halfMetrics(valid.filter((p) => p.elapsedTime > midpoint));
+  const whole = halfMetrics(valid);
+  if (!first || !second || !whole) return null;
+
+  const firstEF = first.np / first.hr;
+  const secondEF = second.np / second.hr;
+  return {
+    efficiencyFactor: Math.round((whole.np / whole.hr) * 100) / 100,
+    decoupling: Math.round(((firstEF - secondEF) / firstEF) * 1000) / 10,
+    heartRateDrift: Math.round(((second.hr - first.hr) / first.hr) * 1000) / 10,
+  };
+}
+
+/**
+ * Intensity category of a ride from its IF, used to trend like with like
+ */
+export function getRideCategory(normalizedPower: number | null, ftp: number): string | null {
+  if (!normalizedPower || ftp <= 0) return null;
+  const intensity = normalizedPower / ftp;
+  return RIDE_CATEGORIES.find((category) => intensity < category.maxIntensity)!.name;
+}
+
+/**
+ * Decoupling of every completed ride in the same category as `workout`,
+ * oldest first. Rides saved before decoupling was recorded are worked out
+ * from their data
+ */
+export function getDecouplingTrend(
+  workout: Workout,
+  workouts: Workout[],
+  ftpHistory: FtpHistoryEntry[],
+  currentFtp: number
+): DecouplingTrendPoint[] {
+  const category = workout.completion
+    ? getRideCategory(workout.completion.summary.normalizedPower, getWorkoutFtp(workout, ftpHistory, currentFtp))
+    : null;
+  if (!category) return [];
+
+  const trend: DecouplingTrendPoint[] = [];
+  for (const other of workouts) {
+    const completion = other.completion;
+    if (!completion || completion.simulated) continue;
+    const otherFtp = getWorkoutFtp(other, ftpHistory, currentFtp);
+    if (getRideCategory(completion.summary.normalizedPower, otherFtp) !== category) continue;
+
+    const decoupling = completion.summary.aerobicDecoupling ?? calculateAerobicDecoupling(completion.recordedData);
+    if (!decoupling) continue;
+    trend.push({
+      workoutId: other.id,
+      date: completion.startedAt,
+      efficiencyFactor: decoupling.efficiencyFactor,
+      decoupling: decoupling.decoupling,
+    });
+  }
+  return trend.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { Segment, Workout } from "@/types/workout";
+import { exportToErgMrc, getErgMrcUnsupportedReason } from "./erg-mrc-exporter";
+
+function workoutOf(segments: Segment[]): Workout {
+  return {
+    id: "w",
+    name: "Mixed",
+    description: "",
+    segments,
+    totalDuration: 0,
+    estimatedTSS: 0,
+    intensityFactor: 0,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    source: "file",
+  };
+}
+
+const steady: Segment = { id: "a", type: "steady", duration: 300, targetPower: { type: "percent_ftp", value: 70 } };
+const heartRate: Segment = {
+  id: "b",
+  type: "steady",
+  duration: 600,
+  targetPower: { type: "heart_rate", value: 140, valueHigh: 150, fallbackPower: 65 },
+};
+const climb: Segment = {
+  id: "c",
+  type: "interval",
+  duration: 240,
+  targetPower: { type: "percent_ftp", value: 90 },
+  simulation: { grade: 6 },
+};
+const freeRide: Segment = {
+  id: "d",
+  type: "freeride",
+  duration: 1200,
+  targetPower: { type: "percent_ftp", value: 60 },
+};
+
+describe("ERG/MRC export of segments it can't hold", () => {
+  it("exports fixed-power workouts", () => {
+    expect(getErgMrcUnsupportedReason(workoutOf([steady]))).toBeNull();
+    expect(exportToErgMrc(workoutOf([steady]), 250).content).toContain("0.00\t70\r\n5.00\t70");
+  });
+
+  it("refuses heart-rate and slope segments instead of converting them", () => {
+    expect(getErgMrcUnsupportedReason(workoutOf([steady, heartRate]))).toBe("Has heart-rate segments");
+    expect(getErgMrcUnsupportedReason(workoutOf([climb]))).toBe("Has slope segments");
+    expect(getErgMrcUnsupportedReason(workoutOf([heartRate, climb]))).toBe("Has heart-rate and slope segments");
+    expect(() => exportToErgMrc(workoutOf([steady, climb]), 250)).toThrow("slope segments");
+  });
+
+  it("refuses free rides instead of holding their placeholder power", () => {
+    expect(getErgMrcUnsupportedReason(workoutOf([steady, freeRide]))).toBe("Has free-ride segments");
+    expect(getErgMrcUnsupportedReason(workoutOf([heartRate, climb, freeRide]))).toBe(
+      "Has heart-rate, slope and free-ride segments"
+    );
+    expect(() => exportToErgMrc(workoutOf([freeRide]), 250)).toThrow(
+      "Can't export as ERG/MRC: has free-ride segments"
+    );
+  });
+
+  it("counts a free-ride slope only as a slope", () => {
+    expect(getErgMrcUnsupportedReason(workoutOf([{ ...climb, type: "freeride" }]))).toBe("Has slope segments");
+  });
+});
@@ -0,0 +1,105 @@
+import { Workout, Segment } from "@/types/workout";
+import { expandRepeatedSegments, getPowerRangeAsPercentFTP } from "@/lib/workout-utils";
+
+export type ErgMrcFormat = "erg" | "mrc";
+
+/**
+ * ERG when every target is in watts, otherwise MRC (percent FTP) so zone and
+ * percent targets keep scaling with the rider's FTP
+ */
+export function getErgMrcFormat(workout: Workout): ErgMrcFormat {
+  const segments = expandRepeatedSegments(workout.segments);
+  const allWatts = segments.length > 0 &&
+    segments.every((segment) => segment.targetPower.type === "absolute_watts");
+  return allWatts ? "erg" : "mrc";
+}
+
+/**
+ * Why the workout can't be written as ERG/MRC, or null when it can. Both only
+ * hold fixed power over time, so heart-rate, slope and free-ride segments have
+ * no honest equivalent - and leaving them out would shift everything after them
+ */
+export function getErgMrcUnsupportedReason(workout: Workout): string | null {
+  const segments = expandRepeatedSegments(workout.segments);
+  const kinds = [
+    segments.some((segment) => segment.targetPower.type === "heart_rate") && "heart-rate",
+    segments.some((segment) => segment.simulation) && "slope",
+    segments.some((segment) => segment.type === "freeride" && !segment.simulation) && "free-ride",
+  ].filter((kind): kind is string => typeof kind === "string");
+
+  if (kinds.length === 0) return null;
+  const listed = kinds.length === 1
+    ? kinds[0]
+    : `${kinds.slice(0, -1).join(", ")} and ${kinds[kinds.length - 1]}`;
+  return `Has ${listed} segments`;
+}
+
+export function exportToErgMrc(
+  workout: Workout,
+  ftp: number
+): { content: string; format: ErgMrcFormat } {
+  const unsupported = getErgMrcUnsupportedReason(workout);
+  if (unsupported) {
+    throw new Error(`Can't export as ERG/MRC: ${unsupported.toLowerCase()}`);
+  }
+
+  const format = getErgMrcFormat(workout);
+  const segments = expandRepeatedSegments(workout.segments);
+
+  const dataLines: string[] = [];
+  const textLines: string[] = [];
+  let elapsed = 0;
+
+  for (const segment of segments) {
+    const [start, end] = segmentValues(segment, format, ftp);
+    dataLines.push(`${formatMinutes(elapsed)}\t${start}`);
+    if (segment.instructions) {
+      textLines.push(`${elapsed}\t${sanitize(segment.instructions)}\t${Math.min(segment.duration, 10)}`);
+    }
+    elapsed += segment.duration;
+    dataLines.push(`${formatMinutes(elapsed)}\t${end}`);
+  }
+
+  const header = [
+    "[COURSE HEADER]",
+    "VERSION = 2",
+    "UNITS = ENGLISH",
+    `DESCRIPTION = ${sanitize(workout.description)}`,
+    `FILE NAME = ${sanitize(workout.name)}`,
+    ...(format === "erg" ? [`FTP = ${ftp}`] : []),
+    format === "erg" ? "MINUTES WATTS" : "MINUTES PERCENT",
+    "[END COURSE HEADER]",
+  ];
+
+  const sections = [
+    ...header,
+    "[COURSE DATA]",
+    ...dataLines,
+    "[END COURSE DATA]",
+  ];
+
+  if (textLines.length > 0) {
+    sections.push("[COURSE TEXT]", ...textLines, "[END COURSE TEXT]");
+  }
+
+  return { content: sections.join("\r\n") + "\r\n", format };
+}
+
+function segmentValues(segment: Segment, format: ErgMrcFormat, ftp: number): [number, number] {
+  if (format === "erg") {
+    const { value, valueHigh } = segment.targetPower;
+    return [Math.round(value), Math.round(valueHigh ?? value)];
+  }
+
+  const { start, end } = getPowerRangeAsPercentFTP(segment, ftp);
+  return [Math.round(start), Math.round(end)];
+}
+
+function formatMinutes(seconds: number): string {
+  return (seconds / 60).toFixed(2);
+}
+
+// Header values and course text are line/tab delimited
+function sanitize(text: string): string {
+  return text.replace(/[\r\n\t]+/g, " ").trim();
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { Segment, Workout } from "@/types/workout";
+import { exportToZwo, getZwoExportWarnings } from "./zwo-exporter";
+
+const FTP = 250;
+
+function workoutOf(segments: Workout["segments"]): Workout {
+  return {
+    id: "w",
+    name: "Mixed",
+    description: "",
+    segments,
+    totalDuration: 0,
+    estimatedTSS: 0,
+    intensityFactor: 0,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    source: "file",
+  };
+}
+
+const steady: Segment = { id: "a", type: "steady", duration: 300, targetPower: { type: "percent_ftp", value: 70 } };
+const heartRate: Segment = {
+  id: "b",
+  type: "steady",
+  duration: 600,
+  targetPower: { type: "heart_rate", value: 140, valueHigh: 150, fallbackPower: 65 },
+};
+const climb: Segment = {
+  id: "c",
+  type: "interval",
+  duration: 240,
+  targetPower: { type: "percent_ftp", value: 90 },
+  simulation: { grade: 6 },
+  cadenceTarget: { min: 70, max: 70 },
+};
+
+describe("ZWO export of segments ZWO can't hold", () => {
+  it("leaves heart-rate segments out and writes slopes as free rides", () => {
+    const zwo = exportToZwo(workoutOf([steady, heartRate, climb]), FTP);
+    expect(zwo).toContain('<SteadyState Duration="300" Power="0.70"/>');
+    expect(zwo).toContain('<FreeRide Duration="240" Cadence="70"/>');
+    expect(zwo).not.toContain('Duration="600"');
+  });
+
+  it("doesn't fold them into IntervalsT", () => {
+    const zwo = exportToZwo(workoutOf([{ id: "d", type: "block", repeat: 2, segments: [climb, steady] }]), FTP);
+    expect(zwo).not.toContain("IntervalsT");
+    expect(zwo.match(/<FreeRide /g)).toHaveLength(2);
+  });
+
+  it("warns about what changes", () => {
+    expect(getZwoExportWarnings(workoutOf([steady]))).toEqual([]);
+    expect(getZwoExportWarnings(workoutOf([heartRate, climb, climb]))).toEqual([
+      "1 heart-rate segment is left out",
+      "2 slope segments become free rides",
+    ]);
+  });
+});
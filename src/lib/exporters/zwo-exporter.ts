@@ -1,9 +1,36 @@
-import { Workout, Segment } from "@/types/workout";
+import { Workout, Segment, SegmentBlock, WorkoutItem, isSegmentBlock } from "@/types/workout";
+import { expandRepeatedSegments, getPowerRangeAsPercentFTP } from "@/lib/workout-utils";
 
-export function exportToZwo(workout: Workout, ftp: number): string {
-  const segments = workout.segments;
+// ZWO has no heart-rate targets or gradients. Slope segments are written as
+// FreeRide - the rider picks the effort, as in SIM mode - and heart-rate
+// segments are left out rather than pinned to their fallback watts
+
+function isHeartRateSegment(segment: Segment): boolean {
+  return segment.targetPower.type === "heart_rate";
+}
 
-  const workoutSteps = segments.map((segment) => segmentToZwo(segment)).join("\n        ");
+/**
+ * What the ZWO export changes about the workout, for the export menu to show
+ */
+export function getZwoExportWarnings(workout: Workout): string[] {
+  const segments = expandRepeatedSegments(workout.segments);
+  const heartRate = segments.filter(isHeartRateSegment).length;
+  const slope = segments.filter((segment) => segment.simulation && !isHeartRateSegment(segment)).length;
+
+  const warnings: string[] = [];
+  if (heartRate > 0) {
+    warnings.push(`${heartRate} heart-rate segment${heartRate === 1 ? " is" : "s are"} left out`);
+  }
+  if (slope > 0) {
+    warnings.push(`${slope} slope segment${slope === 1 ? " becomes a free ride" : "s become free rides"}`);
+  }
+  return warnings;
+}
+
+export function exportToZwo(workout: Workout, ftp: number): string {
+  const workoutSteps = workout.segments
+    .flatMap((item) => itemToZwo(item, ftp))
+    .join("\n        ");
 
   const zwoContent = `<?xml version="1.0" encoding="UTF-8"?>
 <workout_file>
@@ -22,32 +49,123 @@ export function exportToZwo(workout: Workout, ftp: number): string {
   return zwoContent;
 }
 
-function segmentToZwo(segment: Segment): string {
-  const power = segment.targetPower.value / 100;
-  const powerHigh = segment.targetPower.valueHigh
-    ? segment.targetPower.valueHigh / 100
-    : power;
+function itemToZwo(item: WorkoutItem, ftp: number): string[] {
+  if (isSegmentBlock(item)) {
+    return blockToZwo(item, ftp);
+  }
+
+  if (isHeartRateSegment(item)) return [];
+
+  const element = segmentToZwo(item, ftp);
+  return Array.from({ length: item.repeat || 1 }, () => element);
+}
+
+/**
+ * On/off pairs become IntervalsT - anything else (ramps, nested blocks,
+ * more than two children) is written out repeat by repeat
+ */
+function blockToZwo(block: SegmentBlock, ftp: number): string[] {
+  const [on, off] = block.segments;
+  const isIntervalPair =
+    block.segments.length === 2 &&
+    !isSegmentBlock(on) &&
+    !isSegmentBlock(off) &&
+    (on.repeat || 1) === 1 &&
+    (off.repeat || 1) === 1 &&
+    on.type !== "freeride" &&
+    off.type !== "freeride" &&
+    !on.simulation &&
+    !off.simulation &&
+    !isHeartRateSegment(on) &&
+    !isHeartRateSegment(off) &&
+    on.targetPower.valueHigh === undefined &&
+    off.targetPower.valueHigh === undefined &&
+    !on.textEvents?.length &&
+    !off.textEvents?.length;
+
+  if (isIntervalPair) {
+    const attributes = [
+      `Repeat="${block.repeat}"`,
+      `OnDuration="${on.duration}"`,
+      `OffDuration="${off.duration}"`,
+      `OnPower="${toZwoPower(getPowerRangeAsPercentFTP(on, ftp).start)}"`,
+      `OffPower="${toZwoPower(getPowerRangeAsPercentFTP(off, ftp).start)}"`,
+      cadenceAttributes(on, "Cadence"),
+      cadenceAttributes(off, "CadenceResting"),
+    ];
+    return [element("IntervalsT", attributes, block)];
+  }
+
+  const steps: string[] = [];
+  for (let i = 0; i < block.repeat; i++) {
+    steps.push(...block.segments.flatMap((item) => itemToZwo(item, ftp)));
+  }
+  return steps;
+}
+
+function segmentToZwo(segment: Segment, ftp: number): string {
+  const { start, end } = getPowerRangeAsPercentFTP(segment, ftp);
+  const power = toZwoPower(start);
+  const powerHigh = toZwoPower(segment.targetPower.valueHigh !== undefined ? end : start);
+  const duration = `Duration="${segment.duration}"`;
+  const cadence = cadenceAttributes(segment, "Cadence");
+
+  if (segment.simulation) {
+    return element("FreeRide", [duration, cadence], segment);
+  }
 
   switch (segment.type) {
     case "warmup":
-      return `<Warmup Duration="${segment.duration}" PowerLow="${power.toFixed(2)}" PowerHigh="${powerHigh.toFixed(2)}"/>`;
+      return element("Warmup", [duration, `PowerLow="${power}"`, `PowerHigh="${powerHigh}"`, cadence], segment);
 
     case "cooldown":
       // For cooldown, power goes from high to low
-      return `<Cooldown Duration="${segment.duration}" PowerLow="${powerHigh.toFixed(2)}" PowerHigh="${power.toFixed(2)}"/>`;
+      return element("Cooldown", [duration, `PowerLow="${powerHigh}"`, `PowerHigh="${power}"`, cadence], segment);
 
-    case "interval":
-      return `<SteadyState Duration="${segment.duration}" Power="${power.toFixed(2)}"${segment.cadenceTarget ? ` Cadence="${segment.cadenceTarget.min}"` : ""}/>`;
+    case "freeride":
+      return element("FreeRide", [duration, cadence], segment);
 
+    case "interval":
     case "recovery":
-      return `<SteadyState Duration="${segment.duration}" Power="${power.toFixed(2)}"/>`;
-
     case "steady":
     default:
-      return `<SteadyState Duration="${segment.duration}" Power="${power.toFixed(2)}"${segment.cadenceTarget ? ` Cadence="${segment.cadenceTarget.min}"` : ""}/>`;
+      if (segment.targetPower.valueHigh !== undefined) {
+        return element("Ramp", [duration, `PowerLow="${power}"`, `PowerHigh="${powerHigh}"`, cadence], segment);
+      }
+      return element("SteadyState", [duration, `Power="${power}"`, cadence], segment);
   }
 }
 
+function element(tag: string, attributes: string[], item: WorkoutItem): string {
+  const passThrough = Object.entries(item.zwoAttributes ?? {}).map(
+    ([name, value]) => `${name}="${escapeXml(value)}"`
+  );
+  const attrs = [...attributes, ...passThrough].filter(Boolean).join(" ");
+  const { textEvents } = item;
+  if (!textEvents?.length) {
+    return `<${tag} ${attrs}/>`;
+  }
+
+  const events = textEvents.map((event) => {
+    const duration = event.duration !== undefined ? ` duration="${event.duration}"` : "";
+    return `    <textevent timeoffset="${event.timeOffset}" message="${escapeXml(event.message)}"${duration}/>`;
+  });
+  return `<${tag} ${attrs}>\n        ${events.join("\n        ")}\n        </${tag}>`;
+}
+
+function cadenceAttributes(segment: Segment, attribute: string): string {
+  const cadence = segment.cadenceTarget;
+  if (!cadence) return "";
+  if (cadence.min === cadence.max) {
+    return `${attribute}="${cadence.min}"`;
+  }
+  return `${attribute}Low="${cadence.min}" ${attribute}High="${cadence.max}"`;
+}
+
+function toZwoPower(percentFTP: number): string {
+  return (percentFTP / 100).toFixed(2);
+}
+
 function escapeXml(text: string): string {
   return text
     .replace(/&/g, "&amp;")
@@ -0,0 +1,132 @@
+import { Decoder, Stream } from "@garmin/fitsdk";
+import { describe, expect, it } from "vitest";
+import { RecordedDataPoint } from "@/types/trainer";
+import { Segment } from "@/types/workout";
+import { generateFIT } from "./fit-export";
+import { calculateFitCrc } from "./fit-protocol";
+import { parseFitFile } from "./parsers/fit-parser";
+import { calculateWorkoutSummary } from "./workout-storage";
+
+const FTP = 250;
+const START = new Date("2026-10-01T06:00:00Z");
+
+const segments: Segment[] = [
+  { id: "warmup", type: "warmup", duration: 5, targetPower: { type: "percent_ftp", value: 45 } },
+  { id: "effort", type: "interval", duration: 21, targetPower: { type: "percent_ftp", value: 100 } },
+];
+
+function point(elapsedTime: number, actualPower: number, segmentIndex: number, gap?: boolean): RecordedDataPoint {
+  return {
+    timestamp: START.getTime() + elapsedTime * 1000,
+    elapsedTime,
+    targetPower: 0,
+    actualPower,
+    cadence: 90,
+    heartRate: 140,
+    segmentIndex,
+    gap,
+  };
+}
+
+// 1 Hz at first, then 5s downsampled samples, a flagged gap and a pause
+const recordedData = [
+  point(0, 100, 0),
+  point(1, 110, 0),
+  point(2, 120, 0),
+  point(5, 200, 1),
+  point(10, 250, 1),
+  point(12, 300, 1),
+  point(15, 300, 1, true),
+  point(16, 310, 1),
+  point(16.4, 999, 1), // rounds onto the previous second
+  point(25, 320, 1),
+];
+
+function decode(bytes: Uint8Array) {
+  const decoder = new Decoder(Stream.fromByteArray(bytes));
+  expect(decoder.checkIntegrity()).toBe(true);
+  const { messages, errors } = decoder.read();
+  expect(errors).toEqual([]);
+  return messages;
+}
+
+describe("generateFIT", () => {
+  const bytes = generateFIT({ workoutName: "Test", startTime: START, recordedData, segments, ftp: FTP });
+
+  it("writes a valid header and file CRC", () => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    expect(bytes[0]).toBe(14);
+    expect(new TextDecoder().decode(bytes.subarray(8, 12))).toBe(".FIT");
+    expect(view.getUint32(4, true)).toBe(bytes.length - 16);
+    expect(view.getUint16(12, true)).toBe(calculateFitCrc(bytes.subarray(0, 12)));
+    expect(view.getUint16(bytes.length - 2, true)).toBe(calculateFitCrc(bytes.subarray(0, bytes.length - 2)));
+  });
+
+  it("fills short gaps with 1 Hz records and leaves flagged gaps and pauses empty", () => {
+    const { recordMesgs = [] } = decode(bytes);
+    const seconds = recordMesgs.map((r) => ((r.timestamp as Date).getTime() - START.getTime()) / 1000);
+
+    expect(seconds).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 15, 16, 25]);
+    // Filled seconds repeat the sample before them
+    expect(recordMesgs.map((r) => r.power)).toEqual([
+      100, 110, 120, 120, 120, 200, 200, 200, 200, 200, 250, 250, 300, 300, 310, 320,
+    ]);
+    expect(recordMesgs[0]).toMatchObject({ cadence: 90, heartRate: 140 });
+  });
+
+  it("writes one lap per segment", () => {
+    const { lapMesgs = [] } = decode(bytes);
+
+    expect(lapMesgs).toHaveLength(2);
+    expect(lapMesgs[0]).toMatchObject({
+      startTime: START,
+      totalElapsedTime: 5,
+      totalTimerTime: 5,
+      avgPower: 114,
+      maxPower: 120,
+      intensity: "warmup",
+    });
+    expect(lapMesgs[1]).toMatchObject({
+      startTime: new Date(START.getTime() + 5000),
+      totalElapsedTime: 21,
+      totalTimerTime: 11,
+      avgPower: 248,
+      maxPower: 320,
+      intensity: "active",
+    });
+  });
+
+  it("summarises the ride in the session and activity", () => {
+    const { sessionMesgs = [], activityMesgs = [], eventMesgs = [], fileIdMesgs = [] } = decode(bytes);
+    const summary = calculateWorkoutSummary(recordedData, FTP);
+
+    expect(fileIdMesgs[0]).toMatchObject({ type: "activity" });
+    expect(eventMesgs.map((e) => e.eventType)).toEqual(["start", "stop"]);
+    expect(sessionMesgs).toHaveLength(1);
+    expect(sessionMesgs[0]).toMatchObject({
+      startTime: START,
+      totalElapsedTime: 26,
+      totalTimerTime: 16,
+      sport: "cycling",
+      subSport: "virtualActivity",
+      avgPower: summary.avgPower,
+      maxPower: summary.maxPower,
+      normalizedPower: summary.normalizedPower,
+      thresholdPower: FTP,
+      firstLapIndex: 0,
+      numLaps: 2,
+    });
+    expect(activityMesgs[0]).toMatchObject({ numSessions: 1, totalTimerTime: 16 });
+  });
+
+  it("is read back as an activity by the workout importer", async () => {
+    const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    await expect(parseFitFile(buffer, FTP)).rejects.toThrow("recorded activity");
+  });
+
+  it("refuses an empty recording", () => {
+    expect(() =>
+      generateFIT({ workoutName: "Empty", startTime: START, recordedData: [], segments, ftp: FTP })
+    ).toThrow("No recorded data to export");
+  });
+});
@@ -0,0 +1,362 @@
+import { RecordedDataPoint } from "@/types/trainer";
+import { Segment } from "@/types/workout";
+import { calculateWorkoutSummary } from "@/lib/workout-storage";
+import {
+  FIT_MESG,
+  FIT_FILE_TYPE,
+  FIT_BASE_TYPE,
+  calculateFitCrc,
+  toFitTimestamp,
+} from "@/lib/fit-protocol";
+
+interface FITExportOptions {
+  workoutName: string;
+  startTime: Date;
+  recordedData: RecordedDataPoint[];
+  segments: Segment[];
+  ftp: number;
+}
+
+type FieldDef = [num: number, size: number, baseType: number];
+
+// Profile enum values used below
+const SPORT_CYCLING = 2;
+const SUB_SPORT_VIRTUAL_ACTIVITY = 58;
+const EVENT_TIMER = 0;
+const EVENT_LAP = 9;
+const EVENT_SESSION = 8;
+const EVENT_ACTIVITY = 26;
+const EVENT_TYPE_START = 0;
+const EVENT_TYPE_STOP = 1;
+const LAP_TRIGGER_TIME = 1;
+const MANUFACTURER_DEVELOPMENT = 255;
+
+const INTENSITY_BY_SEGMENT_TYPE: Record<string, number> = {
+  steady: 0,
+  interval: 0,
+  recovery: 1,
+  warmup: 2,
+  cooldown: 3,
+};
+
+// Recordings are downsampled to 5s for storage - gaps up to this size are
+// filled so the file keeps 1 Hz records, longer gaps (pauses) are left as-is
+const MAX_FILL_GAP_SECONDS = 5;
+
+// Invalid values per base type
+const INVALID = {
+  [FIT_BASE_TYPE.ENUM]: 0xff,
+  [FIT_BASE_TYPE.UINT8]: 0xff,
+  [FIT_BASE_TYPE.UINT16]: 0xffff,
+  [FIT_BASE_TYPE.UINT32]: 0xffffffff,
+  [FIT_BASE_TYPE.UINT32Z]: 0,
+} as Record<number, number>;
+
+/**
+ * Minimal FIT writer - each local message type is defined once, before its
+ * first data message
+ */
+class FitWriter {
+  private bytes: number[] = [];
+  private localTypes = new Map<number, { local: number; fields: FieldDef[] }>();
+
+  define(globalNum: number, fields: FieldDef[]): void {
+    const local = this.localTypes.size;
+    this.localTypes.set(globalNum, { local, fields });
+
+    this.bytes.push(0x40 | local, 0, 0); // header, reserved, little-endian
+    this.pushUint(globalNum, 2);
+    this.bytes.push(fields.length);
+    for (const [num, size, baseType] of fields) {
+      this.bytes.push(num, size, baseType);
+    }
+  }
+
+  write(globalNum: number, values: Record<number, number | null>): void {
+    const def = this.localTypes.get(globalNum);
+    if (!def) {
+      throw new Error(`FIT message ${globalNum} written before definition`);
+    }
+
+    this.bytes.push(def.local);
+    for (const [num, size, baseType] of def.fields) {
+      const value = values[num];
+      const invalid = INVALID[baseType] ?? 0;
+      this.pushUint(value === null || value === undefined ? invalid : Math.round(value), size);
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    const data = Uint8Array.from(this.bytes);
+
+    const header = new Uint8Array(14);
+    const headerView = new DataView(header.buffer);
+    header[0] = 14;
+    header[1] = 0x20; // protocol 2.0
+    headerView.setUint16(2, 2132, true); // profile 21.32
+    headerView.setUint32(4, data.length, true);
+    header.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    headerView.setUint16(12, calculateFitCrc(header.subarray(0, 12)), true);
+
+    const file = new Uint8Array(14 + data.length + 2);
+    file.set(header, 0);
+    file.set(data, 14);
+    const crc = calculateFitCrc(file.subarray(0, 14 + data.length));
+    new DataView(file.buffer).setUint16(14 + data.length, crc, true);
+    return file;
+  }
+
+  private pushUint(value: number, size: number): void {
+    for (let i = 0; i < size; i++) {
+      this.bytes.push(Math.floor(value / Math.pow(256, i)) & 0xff);
+    }
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function maximum(values: number[]): number | null {
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+/**
+ * Fill short gaps so records are written at 1 Hz - gaps flagged in recording
+ * are left empty
+ */
+function toOneHertz(data: RecordedDataPoint[]): RecordedDataPoint[] {
+  const result: RecordedDataPoint[] = [];
+  for (let i = 0; i < data.length; i++) {
+    const point = data[i];
+    const elapsed = Math.round(point.elapsedTime);
+    if (result.length > 0 && elapsed <= result[result.length - 1].elapsedTime) continue;
+    result.push({ ...point, elapsedTime: elapsed });
+
+    const next = data[i + 1];
+    if (!next) continue;
+    const gap = Math.round(next.elapsedTime) - elapsed;
+    if (gap > 1 && gap <= MAX_FILL_GAP_SECONDS && !next.gap) {
+      for (let t = 1; t < gap; t++) {
+        result.push({ ...point, elapsedTime: elapsed + t });
+      }
+    }
+  }
+  return result;
+}
+
+export function generateFIT({
+  startTime,
+  recordedData,
+  segments,
+  ftp,
+}: FITExportOptions): Uint8Array {
+  if (recordedData.length === 0) {
+    throw new Error("No recorded data to export");
+  }
+
+  const records = toOneHertz(recordedData);
+  const start = toFitTimestamp(startTime);
+  const timeAt = (elapsed: number) => start + Math.round(elapsed);
+  const lastElapsed = records[records.length - 1].elapsedTime + 1;
+  const end = timeAt(lastElapsed);
+
+  const writer = new FitWriter();
+
+  // file_id
+  writer.define(FIT_MESG.FILE_ID, [
+    [0, 1, FIT_BASE_TYPE.ENUM],     // type
+    [1, 2, FIT_BASE_TYPE.UINT16],   // manufacturer
+    [2, 2, FIT_BASE_TYPE.UINT16],   // product
+    [3, 4, FIT_BASE_TYPE.UINT32Z],  // serial_number
+    [4, 4, FIT_BASE_TYPE.UINT32],   // time_created
+  ]);
+  writer.write(FIT_MESG.FILE_ID, {
+    0: FIT_FILE_TYPE.ACTIVITY,
+    1: MANUFACTURER_DEVELOPMENT,
+    2: 0,
+    3: start,
+    4: start,
+  });
+
+  // Timer start / stop events
+  writer.define(FIT_MESG.EVENT, [
+    [253, 4, FIT_BASE_TYPE.UINT32], // timestamp
+    [0, 1, FIT_BASE_TYPE.ENUM],     // event
+    [1, 1, FIT_BASE_TYPE.ENUM],     // event_type
+  ]);
+  writer.write(FIT_MESG.EVENT, { 253: start, 0: EVENT_TIMER, 1: EVENT_TYPE_START });
+
+  // 1 Hz records
+  writer.define(FIT_MESG.RECORD, [
+    [253, 4, FIT_BASE_TYPE.UINT32], // timestamp
+    [7, 2, FIT_BASE_TYPE.UINT16],   // power
+    [4, 1, FIT_BASE_TYPE.UINT8],    // cadence
+    [3, 1, FIT_BASE_TYPE.UINT8],    // heart_rate
+  ]);
+  for (const point of records) {
+    writer.write(FIT_MESG.RECORD, {
+      253: timeAt(point.elapsedTime),
+      7: point.actualPower,
+      4: point.cadence,
+      3: point.heartRate,
+    });
+  }
+
+  writer.write(FIT_MESG.EVENT, { 253: end, 0: EVENT_TIMER, 1: EVENT_TYPE_STOP });
+
+  // One lap per segment
+  writer.define(FIT_MESG.LAP, [
+    [254, 2, FIT_BASE_TYPE.UINT16], // message_index
+    [253, 4, FIT_BASE_TYPE.UINT32], // timestamp
+    [2, 4, FIT_BASE_TYPE.UINT32],   // start_time
+    [7, 4, FIT_BASE_TYPE.UINT32],   // total_elapsed_time (ms)
+    [8, 4, FIT_BASE_TYPE.UINT32],   // total_timer_time (ms)
+    [19, 2, FIT_BASE_TYPE.UINT16],  // avg_power
+    [20, 2, FIT_BASE_TYPE.UINT16],  // max_power
+    [15, 1, FIT_BASE_TYPE.UINT8],   // avg_heart_rate
+    [16, 1, FIT_BASE_TYPE.UINT8],   // max_heart_rate
+    [17, 1, FIT_BASE_TYPE.UINT8],   // avg_cadence
+    [0, 1, FIT_BASE_TYPE.ENUM],     // event
+    [1, 1, FIT_BASE_TYPE.ENUM],     // event_type
+    [23, 1, FIT_BASE_TYPE.ENUM],    // intensity
+    [24, 1, FIT_BASE_TYPE.ENUM],    // lap_trigger
+    [25, 1, FIT_BASE_TYPE.ENUM],    // sport
+    [39, 1, FIT_BASE_TYPE.ENUM],    // sub_sport
+  ]);
+
+  const lapGroups: RecordedDataPoint[][] = [];
+  for (const point of records) {
+    const current = lapGroups[lapGroups.length - 1];
+    if (current && current[0].segmentIndex === point.segmentIndex) {
+      current.push(point);
+    } else {
+      lapGroups.push([point]);
+    }
+  }
+
+  lapGroups.forEach((points, i) => {
+    const lapStart = points[0].elapsedTime;
+    const lapEnd = i + 1 < lapGroups.length ? lapGroups[i + 1][0].elapsedTime : lastElapsed;
+    const power = points.map((p) => p.actualPower).filter((v): v is number => v !== null);
+    const hr = points.map((p) => p.heartRate).filter((v): v is number => v !== null);
+    const cadence = points.map((p) => p.cadence).filter((v): v is number => v !== null);
+    const segment = segments[points[0].segmentIndex];
+
+    writer.write(FIT_MESG.LAP, {
+      254: i,
+      253: timeAt(lapEnd),
+      2: timeAt(lapStart),
+      7: (lapEnd - lapStart) * 1000,
+      8: points.length * 1000,
+      19: average(power),
+      20: maximum(power),
+      15: average(hr),
+      16: maximum(hr),
+      17: average(cadence),
+      0: EVENT_LAP,
+      1: EVENT_TYPE_STOP,
+      23: segment ? INTENSITY_BY_SEGMENT_TYPE[segment.type] ?? 0 : 0,
+      24: LAP_TRIGGER_TIME,
+      25: SPORT_CYCLING,
+      39: SUB_SPORT_VIRTUAL_ACTIVITY,
+    });
+  });
+
+  // Session
+  const summary = calculateWorkoutSummary(recordedData, ftp);
+  const intensityFactor = summary.normalizedPower !== null && ftp > 0
+    ? summary.normalizedPower / ftp
+    : null;
+
+  writer.define(FIT_MESG.SESSION, [
+    [254, 2, FIT_BASE_TYPE.UINT16], // message_index
+    [253, 4, FIT_BASE_TYPE.UINT32], // timestamp
+    [2, 4, FIT_BASE_TYPE.UINT32],   // start_time
+    [7, 4, FIT_BASE_TYPE.UINT32],   // total_elapsed_time (ms)
+    [8, 4, FIT_BASE_TYPE.UINT32],   // total_timer_time (ms)
+    [5, 1, FIT_BASE_TYPE.ENUM],     // sport
+    [6, 1, FIT_BASE_TYPE.ENUM],     // sub_sport
+    [20, 2, FIT_BASE_TYPE.UINT16],  // avg_power
+    [21, 2, FIT_BASE_TYPE.UINT16],  // max_power
+    [16, 1, FIT_BASE_TYPE.UINT8],   // avg_heart_rate
+    [17, 1, FIT_BASE_TYPE.UINT8],   // max_heart_rate
+    [18, 1, FIT_BASE_TYPE.UINT8],   // avg_cadence
+    [34, 2, FIT_BASE_TYPE.UINT16],  // normalized_power
+    [35, 2, FIT_BASE_TYPE.UINT16],  // training_stress_score (x10)
+    [36, 2, FIT_BASE_TYPE.UINT16],  // intensity_factor (x1000)
+    [45, 2, FIT_BASE_TYPE.UINT16],  // threshold_power
+    [25, 2, FIT_BASE_TYPE.UINT16],  // first_lap_index
+    [26, 2, FIT_BASE_TYPE.UINT16],  // num_laps
+    [0, 1, FIT_BASE_TYPE.ENUM],     // event
+    [1, 1, FIT_BASE_TYPE.ENUM],     // event_type
+  ]);
+  writer.write(FIT_MESG.SESSION, {
+    254: 0,
+    253: end,
+    2: start,
+    7: lastElapsed * 1000,
+    8: records.length * 1000,
+    5: SPORT_CYCLING,
+    6: SUB_SPORT_VIRTUAL_ACTIVITY,
+    20: summary.avgPower,
+    21: summary.maxPower,
+    16: summary.avgHeartRate,
+    17: summary.maxHeartRate,
+    18: summary.avgCadence,
+    34: summary.normalizedPower,
+    35: summary.actualTSS !== null ? summary.actualTSS * 10 : null,
+    36: intensityFactor !== null ? intensityFactor * 1000 : null,
+    45: ftp,
+    25: 0,
+    26: lapGroups.length,
+    0: EVENT_SESSION,
+    1: EVENT_TYPE_STOP,
+  });
+
+  // Activity
+  writer.define(FIT_MESG.ACTIVITY, [
+    [253, 4, FIT_BASE_TYPE.UINT32], // timestamp
+    [0, 4, FIT_BASE_TYPE.UINT32],   // total_timer_time (ms)
+    [1, 2, FIT_BASE_TYPE.UINT16],   // num_sessions
+    [2, 1, FIT_BASE_TYPE.ENUM],     // type (manual)
+    [3, 1, FIT_BASE_TYPE.ENUM],     // event
+    [4, 1, FIT_BASE_TYPE.ENUM],     // event_type
+    [5, 4, FIT_BASE_TYPE.UINT32],   // local_timestamp
+  ]);
+  writer.write(FIT_MESG.ACTIVITY, {
+    253: end,
+    0: records.length * 1000,
+    1: 1,
+    2: 0,
+    3: EVENT_ACTIVITY,
+    4: EVENT_TYPE_STOP,
+    5: end - startTime.getTimezoneOffset() * 60,
+  });
+
+  return writer.toUint8Array();
+}
+
+export function downloadFIT(fitContent: Uint8Array, filename: string): void {
+  const blob = new Blob([new Uint8Array(fitContent)], { type: "application/vnd.ant.fit" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename.endsWith(".fit") ? filename : `${filename}.fit`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Base64-encode a FIT file for JSON transport (e.g. the Strava upload route)
+ */
+export function encodeFITBase64(fitContent: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < fitContent.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(fitContent.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
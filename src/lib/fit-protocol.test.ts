@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { calculateFitCrc, toFitTimestamp } from "./fit-protocol";
+
+const bytesOf = (text: string) => new TextEncoder().encode(text);
+
+describe("calculateFitCrc", () => {
+  it("matches the CRC-16/ARC check value", () => {
+    expect(calculateFitCrc(bytesOf("123456789"))).toBe(0xbb3d);
+    expect(calculateFitCrc(new Uint8Array())).toBe(0);
+  });
+
+  it("continues from an initial value", () => {
+    const whole = calculateFitCrc(bytesOf("123456789"));
+    expect(calculateFitCrc(bytesOf("6789"), calculateFitCrc(bytesOf("12345")))).toBe(whole);
+  });
+
+  it("comes out as zero once the little-endian CRC is appended", () => {
+    const data = bytesOf("FIT data");
+    const crc = calculateFitCrc(data);
+    expect(calculateFitCrc(Uint8Array.from([...Array.from(data), crc & 0xff, crc >> 8]))).toBe(0);
+  });
+});
+
+describe("toFitTimestamp", () => {
+  it("counts seconds from the FIT epoch", () => {
+    expect(toFitTimestamp(new Date("1989-12-31T00:00:00Z"))).toBe(0);
+    expect(toFitTimestamp(new Date("1990-01-01T00:00:00Z"))).toBe(86400);
+  });
+});
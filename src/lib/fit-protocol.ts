@@ -0,0 +1,68 @@
+// Shared constants for the Garmin FIT binary protocol
+// Used by the FIT workout parser and the FIT activity exporter
+
+// Global message numbers
+export const FIT_MESG = {
+  FILE_ID: 0,
+  SESSION: 18,
+  LAP: 19,
+  RECORD: 20,
+  EVENT: 21,
+  WORKOUT: 26,
+  WORKOUT_STEP: 27,
+  ACTIVITY: 34,
+} as const;
+
+// file_id.type values
+export const FIT_FILE_TYPE = {
+  ACTIVITY: 4,
+  WORKOUT: 5,
+} as const;
+
+// Base types (field definition byte 3)
+export const FIT_BASE_TYPE = {
+  ENUM: 0x00,
+  SINT8: 0x01,
+  UINT8: 0x02,
+  STRING: 0x07,
+  UINT8Z: 0x0a,
+  BYTE: 0x0d,
+  SINT16: 0x83,
+  UINT16: 0x84,
+  SINT32: 0x85,
+  UINT32: 0x86,
+  FLOAT32: 0x88,
+  FLOAT64: 0x89,
+  UINT16Z: 0x8b,
+  UINT32Z: 0x8c,
+} as const;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+export const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+
+export function toFitTimestamp(date: Date): number {
+  return Math.round(date.getTime() / 1000) - FIT_EPOCH_OFFSET_SECONDS;
+}
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/**
+ * CRC-16 as defined by the FIT protocol (used for header and file checksums)
+ */
+export function calculateFitCrc(bytes: Uint8Array, initial: number = 0): number {
+  let crc = initial;
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
@@ -0,0 +1,118 @@
+import {
+  FitnessMachineEvent,
+  SpinDownStatus,
+  FTMS_OPCODES,
+  FTMS_RESULT_CODES,
+  FTMS_STATUS_OPCODES,
+} from "@/types/trainer";
+
+// FTMS control point and status parsing
+// Every control point write is answered with an indication carrying the
+// request opcode and a result code. The Fitness Machine Status
+// characteristic reports what the trainer did on its own - stopped, reset,
+// handed control to another app, or moved through a spin-down.
+
+// Target Setting Features bit for Spin Down Control
+const SPIN_DOWN_FEATURE = 1 << 15;
+
+export interface ControlPointResponse {
+  requestOpcode: number;
+  resultCode: number;
+  parameter: DataView | null; // response parameter, when the command has one
+}
+
+export type MachineStatusUpdate =
+  | { type: "event"; event: FitnessMachineEvent }
+  | { type: "spin_down"; status: SpinDownStatus };
+
+export interface SpinDownTargetSpeeds {
+  low: number;  // km/h
+  high: number; // km/h
+}
+
+/**
+ * Parse a control point indication, or null if it isn't a response
+ */
+export function parseControlPointResponse(data: DataView): ControlPointResponse | null {
+  if (data.byteLength < 3 || data.getUint8(0) !== FTMS_OPCODES.RESPONSE_CODE) return null;
+  return {
+    requestOpcode: data.getUint8(1),
+    resultCode: data.getUint8(2),
+    parameter: data.byteLength > 3
+      ? new DataView(data.buffer, data.byteOffset + 3, data.byteLength - 3)
+      : null,
+  };
+}
+
+/**
+ * Speed range the rider has to spin up to, sent with the response to a
+ * spin-down start
+ */
+export function parseSpinDownTargetSpeeds(parameter: DataView | null): SpinDownTargetSpeeds | null {
+  if (!parameter || parameter.byteLength < 4) return null;
+  return {
+    low: parameter.getUint16(0, true) / 100,
+    high: parameter.getUint16(2, true) / 100,
+  };
+}
+
+/**
+ * Parse a Fitness Machine Status notification - null for the status changes
+ * the app doesn't act on (targets changed, and so on)
+ */
+export function parseMachineStatus(data: DataView): MachineStatusUpdate | null {
+  if (data.byteLength < 1) return null;
+  const opcode = data.getUint8(0);
+  const parameter = data.byteLength > 1 ? data.getUint8(1) : null;
+
+  switch (opcode) {
+    case FTMS_STATUS_OPCODES.RESET:
+      return { type: "event", event: "reset" };
+    case FTMS_STATUS_OPCODES.STOPPED_OR_PAUSED:
+      return { type: "event", event: parameter === 0x02 ? "paused" : "stopped" };
+    case FTMS_STATUS_OPCODES.STOPPED_BY_SAFETY_KEY:
+      return { type: "event", event: "stopped" };
+    case FTMS_STATUS_OPCODES.STARTED_OR_RESUMED:
+      return { type: "event", event: "started" };
+    case FTMS_STATUS_OPCODES.CONTROL_PERMISSION_LOST:
+      return { type: "event", event: "control_lost" };
+    case FTMS_STATUS_OPCODES.SPIN_DOWN_STATUS:
+      switch (parameter) {
+        case 0x01:
+          return { type: "spin_down", status: "requested" };
+        case 0x02:
+          return { type: "spin_down", status: "success" };
+        case 0x03:
+          return { type: "spin_down", status: "error" };
+        case 0x04:
+          return { type: "spin_down", status: "stop_pedaling" };
+      }
+      return null;
+  }
+  return null;
+}
+
+/**
+ * Whether the Fitness Machine Feature characteristic advertises spin-down
+ */
+export function supportsSpinDown(features: DataView): boolean {
+  if (features.byteLength < 8) return false;
+  return (features.getUint32(4, true) & SPIN_DOWN_FEATURE) !== 0;
+}
+
+export function getControlResultMessage(resultCode: number): string {
+  switch (resultCode) {
+    case FTMS_RESULT_CODES.SUCCESS:
+      return "OK";
+    case FTMS_RESULT_CODES.NOT_SUPPORTED:
+      return "Trainer doesn't support this command";
+    case FTMS_RESULT_CODES.INVALID_PARAMETER:
+      return "Trainer rejected the value sent";
+    case FTMS_RESULT_CODES.OPERATION_FAILED:
+      return "Trainer couldn't carry out the command";
+    case FTMS_RESULT_CODES.CONTROL_NOT_PERMITTED:
+      return "Trainer control not permitted - another app may be controlling it";
+    default:
+      return `Trainer returned an unknown result (0x${resultCode.toString(16)})`;
+  }
+}
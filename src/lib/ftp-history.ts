@@ -0,0 +1,40 @@
+import { FtpHistoryEntry, Workout } from "@/types/workout";
+import { getDateKey } from "@/lib/workout-utils";
+
+/**
+ * Add an entry, replacing any other entry on the same date. Keeps the
+ * history sorted oldest first
+ */
+export function upsertFtpHistoryEntry(history: FtpHistoryEntry[], entry: FtpHistoryEntry): FtpHistoryEntry[] {
+  return sortFtpHistory([...history.filter((e) => e.date !== entry.date), entry]);
+}
+
+export function sortFtpHistory(history: FtpHistoryEntry[]): FtpHistoryEntry[] {
+  return [...history].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * FTP in effect on a date - the latest entry on or before it. Dates before the
+ * history starts use its first entry, and an empty history the fallback
+ */
+export function getFtpForDate(history: FtpHistoryEntry[], date: Date, fallbackFtp: number): number {
+  const key = getDateKey(date);
+  const sorted = sortFtpHistory(history);
+  let ftp: number | null = null;
+  for (const entry of sorted) {
+    if (entry.date > key) break;
+    ftp = entry.ftp;
+  }
+  return ftp ?? sorted[0]?.ftp ?? fallbackFtp;
+}
+
+/**
+ * FTP a workout's numbers are measured against: the one recorded with its
+ * completion, else the history entry for the day it was ridden. Plans use the
+ * current FTP
+ */
+export function getWorkoutFtp(workout: Workout, history: FtpHistoryEntry[], currentFtp: number): number {
+  const completion = workout.completion;
+  if (!completion) return currentFtp;
+  return completion.ftp ?? getFtpForDate(history, new Date(completion.startedAt), currentFtp);
+}
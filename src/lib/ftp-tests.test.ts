@@ -0,0 +1,251 @@
+import { describe, expect, it } from "vitest";
+import { RecordedDataPoint } from "@/types/trainer";
+import { FtpTestProtocol } from "@/types/workout";
+import { createFtpTestWorkout, detectTestFailure, estimateFtpFromTest } from "./ftp-tests";
+import { expandRepeatedSegments } from "./workout-utils";
+
+const FTP = 250;
+
+interface Stretch {
+  segmentIndex: number;
+  seconds: number;
+  power: number | null;
+  cadence?: number | null;
+  gap?: boolean;
+}
+
+// 1 Hz samples, each stretch carrying on from the last
+function ride(...stretches: Stretch[]): RecordedDataPoint[] {
+  const data: RecordedDataPoint[] = [];
+  for (const { segmentIndex, seconds, power, cadence = 90, gap } of stretches) {
+    for (let i = 0; i < seconds; i++) {
+      const elapsedTime = data.length + 1;
+      data.push({
+        timestamp: elapsedTime * 1000,
+        elapsedTime,
+        targetPower: 0,
+        actualPower: power,
+        cadence,
+        heartRate: null,
+        segmentIndex,
+        ...(gap ? { gap } : {}),
+      });
+    }
+  }
+  return data;
+}
+
+function testSegments(protocol: FtpTestProtocol) {
+  return expandRepeatedSegments(createFtpTestWorkout(protocol, FTP).segments);
+}
+
+// Ramp steps 1..count (segments 1..count), each held at its target watts
+function rampSteps(count: number): Stretch[] {
+  return Array.from({ length: count }, (_, i) => ({
+    segmentIndex: i + 1,
+    seconds: 60,
+    power: (FTP * (50 + i * 6)) / 100,
+  }));
+}
+
+function upTo(data: RecordedDataPoint[], elapsed: number): RecordedDataPoint[] {
+  return data.filter((point) => point.elapsedTime <= elapsed);
+}
+
+// The 20-minute test's effort is segment 3, after 1080s of warm-up and openers
+const TWENTY_MINUTE_LEAD_IN: Stretch[] = [
+  { segmentIndex: 0, seconds: 600, power: 150 },
+  { segmentIndex: 1, seconds: 180, power: 240 },
+  { segmentIndex: 2, seconds: 300, power: 120 },
+];
+
+describe("detectTestFailure", () => {
+  const ramp = testSegments("ramp");
+  const warmup: Stretch = { segmentIndex: 0, seconds: 300, power: 110 };
+
+  it("spots a ramp where power collapses", () => {
+    // Steps up to 200W, then the rider cracks 20s into the 212W step
+    const data = ride(
+      warmup,
+      ...rampSteps(6),
+      { segmentIndex: 7, seconds: 20, power: 212 },
+      { segmentIndex: 7, seconds: 30, power: 90 }
+    );
+    const crackedAt = 300 + 6 * 60 + 20;
+
+    expect(detectTestFailure(upTo(data, crackedAt), ramp)).toBe(false);
+    expect(detectTestFailure(upTo(data, crackedAt + 24), ramp)).toBe(false);
+    expect(detectTestFailure(upTo(data, crackedAt + 25), ramp)).toBe(true);
+  });
+
+  it("never fails warm-up or recovery", () => {
+    const data = ride({ ...warmup, seconds: 200 }, { segmentIndex: 0, seconds: 100, power: 20 });
+    expect(detectTestFailure(data, ramp)).toBe(false);
+  });
+
+  it("doesn't count a dropout as a collapse", () => {
+    const held = ride(warmup, ...rampSteps(4));
+    const dropout = ride(warmup, ...rampSteps(4), { segmentIndex: 5, seconds: 40, power: null, cadence: null });
+    const gap = ride(warmup, ...rampSteps(4), { segmentIndex: 5, seconds: 40, power: 0, gap: true });
+
+    expect(detectTestFailure(held, ramp)).toBe(false);
+    expect(detectTestFailure(dropout, ramp)).toBe(false);
+    expect(detectTestFailure(gap, ramp)).toBe(false);
+  });
+
+  it("needs power over three quarters of the collapse window", () => {
+    const mostlyMissing = ride(
+      warmup,
+      ...rampSteps(4),
+      { segmentIndex: 5, seconds: 7, power: 50 },
+      { segmentIndex: 5, seconds: 18, power: null }
+    );
+    const mostlyThere = ride(
+      warmup,
+      ...rampSteps(4),
+      { segmentIndex: 5, seconds: 19, power: 50 },
+      { segmentIndex: 5, seconds: 6, power: null }
+    );
+
+    expect(detectTestFailure(mostlyMissing, ramp)).toBe(false);
+    expect(detectTestFailure(mostlyThere, ramp)).toBe(true);
+  });
+
+  it("spots cadence collapsing while ERG holds the power", () => {
+    const data = ride(warmup, ...rampSteps(4), { segmentIndex: 5, seconds: 25, power: 200, cadence: 40 });
+    const noCadence = ride(warmup, ...rampSteps(4), { segmentIndex: 5, seconds: 25, power: 200, cadence: null });
+
+    expect(detectTestFailure(data, ramp)).toBe(true);
+    expect(detectTestFailure(noCadence, ramp)).toBe(false);
+  });
+
+  it("gives the rider 30s to settle into an effort", () => {
+    const twenty = testSegments("twenty_minute");
+    const slowStart = ride(...TWENTY_MINUTE_LEAD_IN, { segmentIndex: 3, seconds: 54, power: 60 });
+    // A sprint start would make steady power after it look like a collapse
+    const fastStart = ride(
+      ...TWENTY_MINUTE_LEAD_IN,
+      { segmentIndex: 3, seconds: 30, power: 1000 },
+      { segmentIndex: 3, seconds: 40, power: 300 }
+    );
+
+    expect(detectTestFailure(slowStart, twenty)).toBe(false);
+    expect(detectTestFailure(fastStart, twenty)).toBe(false);
+  });
+
+  it("compares with the minute before the collapse window, once it has 15s of it", () => {
+    const twenty = testSegments("twenty_minute");
+    const shortReference = ride(
+      ...TWENTY_MINUTE_LEAD_IN,
+      { segmentIndex: 3, seconds: 44, power: 300 },
+      { segmentIndex: 3, seconds: 25, power: 50 }
+    );
+    const enoughReference = ride(
+      ...TWENTY_MINUTE_LEAD_IN,
+      { segmentIndex: 3, seconds: 46, power: 300 },
+      { segmentIndex: 3, seconds: 25, power: 50 }
+    );
+
+    expect(detectTestFailure(shortReference, twenty)).toBe(false);
+    expect(detectTestFailure(enoughReference, twenty)).toBe(true);
+  });
+
+  it("judges the collapse against recent power, not the whole effort", () => {
+    const twenty = testSegments("twenty_minute");
+    const fadedThenEased = ride(
+      ...TWENTY_MINUTE_LEAD_IN,
+      { segmentIndex: 3, seconds: 120, power: 400 },
+      { segmentIndex: 3, seconds: 90, power: 200 },
+      { segmentIndex: 3, seconds: 25, power: 130 }
+    );
+    const fadedThenCracked = ride(
+      ...TWENTY_MINUTE_LEAD_IN,
+      { segmentIndex: 3, seconds: 120, power: 400 },
+      { segmentIndex: 3, seconds: 90, power: 200 },
+      { segmentIndex: 3, seconds: 25, power: 110 }
+    );
+
+    expect(detectTestFailure(fadedThenEased, twenty)).toBe(false);
+    expect(detectTestFailure(fadedThenCracked, twenty)).toBe(true);
+  });
+
+  it("ignores the collapse the rider chose to carry on from", () => {
+    const data = ride(warmup, ...rampSteps(4), { segmentIndex: 5, seconds: 40, power: 60 });
+    const carriedOnAt = 300 + 4 * 60 + 25;
+
+    expect(detectTestFailure(upTo(data, carriedOnAt), ramp)).toBe(true);
+    expect(detectTestFailure(data, ramp, carriedOnAt)).toBe(false);
+    // Still collapsed 25s after carrying on
+    const stillCollapsed = ride(warmup, ...rampSteps(4), { segmentIndex: 5, seconds: 50, power: 60 });
+    expect(detectTestFailure(stillCollapsed, ramp, carriedOnAt)).toBe(true);
+  });
+});
+
+describe("estimateFtpFromTest", () => {
+  it("takes 75% of the ramp's best minute, leaving the warm-up out", () => {
+    const ramp = testSegments("ramp");
+    const data = ride(
+      { segmentIndex: 0, seconds: 300, power: 300 },
+      ...rampSteps(7),
+      { segmentIndex: 8, seconds: 30, power: 100 }
+    );
+
+    // The last full step was 86% of 250W
+    expect(estimateFtpFromTest("ramp", ramp, data)).toEqual({ protocol: "ramp", testPower: 215, ftp: 161 });
+  });
+
+  it("gives no ramp result without a minute of effort", () => {
+    const ramp = testSegments("ramp");
+    const data = ride({ segmentIndex: 0, seconds: 300, power: 110 }, { segmentIndex: 1, seconds: 40, power: 125 });
+    expect(estimateFtpFromTest("ramp", ramp, data)).toBeNull();
+  });
+
+  it("takes 95% of the 20-minute average", () => {
+    const twenty = testSegments("twenty_minute");
+    const data = ride(
+      ...TWENTY_MINUTE_LEAD_IN,
+      { segmentIndex: 3, seconds: 600, power: 290 },
+      { segmentIndex: 3, seconds: 30, power: null },
+      { segmentIndex: 3, seconds: 570, power: 270 },
+      { segmentIndex: 4, seconds: 600, power: 130 }
+    );
+
+    // Dropouts are left out of the average but the effort still counts
+    expect(estimateFtpFromTest("twenty_minute", twenty, data)).toEqual({
+      protocol: "twenty_minute",
+      testPower: 280,
+      ftp: 266,
+    });
+  });
+
+  it("gives no result for a 20-minute effort that was cut short", () => {
+    const twenty = testSegments("twenty_minute");
+    const data = ride(...TWENTY_MINUTE_LEAD_IN, { segmentIndex: 3, seconds: 1000, power: 300 });
+    expect(estimateFtpFromTest("twenty_minute", twenty, data)).toBeNull();
+  });
+
+  describe("8-minute test", () => {
+    const eight = testSegments("eight_minute");
+    const efforts = (secondEffort: number) =>
+      ride(
+        { segmentIndex: 0, seconds: 600, power: 150 },
+        { segmentIndex: 1, seconds: 180, power: 120 },
+        { segmentIndex: 2, seconds: 480, power: 300 },
+        { segmentIndex: 3, seconds: 600, power: 120 },
+        { segmentIndex: 4, seconds: secondEffort, power: 320 }
+      );
+
+    it("takes 90% of the two efforts' average", () => {
+      expect(estimateFtpFromTest("eight_minute", eight, efforts(480))).toEqual({
+        protocol: "eight_minute",
+        testPower: 310,
+        ftp: 279,
+      });
+    });
+
+    it("needs 90% of each effort recorded", () => {
+      expect(estimateFtpFromTest("eight_minute", eight, efforts(432))).not.toBeNull();
+      expect(estimateFtpFromTest("eight_minute", eight, efforts(431))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { Workout, Segment, SegmentType, FtpTestProtocol, generateId } from "@/types/workout";
+import { RecordedDataPoint } from "@/types/trainer";
+import { calculateTSS, calculateIntensityFactor, calculateTotalDuration } from "@/lib/workout-utils";
+import { calculatePeakPower } from "@/lib/workout-storage";
+
+// FTP test protocols
+// The ramp test is ridden in ERG: 1-minute steps that keep getting harder until
+// the rider can't hold them. The 20- and 8-minute tests are free-ride efforts
+// paced by the rider. Effort segments are the ramp's "interval" steps and the
+// free-ride blocks - everything else is warm-up and recovery.
+
+interface FtpTestDefinition {
+  name: string;
+  description: string;
+  factor: number; // FTP as a fraction of the measured test power
+}
+
+export const FTP_TEST_PROTOCOLS: Record<FtpTestProtocol, FtpTestDefinition> = {
+  ramp: {
+    name: "Ramp Test",
+    description: "1-minute steps that get harder until you can't hold the power. FTP is 75% of your best minute.",
+    factor: 0.75,
+  },
+  twenty_minute: {
+    name: "20-Minute Test",
+    description: "One all-out 20-minute effort, paced yourself. FTP is 95% of its average power.",
+    factor: 0.95,
+  },
+  eight_minute: {
+    name: "8-Minute Test",
+    description: "Two all-out 8-minute efforts with recovery between. FTP is 90% of their average power.",
+    factor: 0.9,
+  },
+};
+
+const RAMP_START = 50; // % FTP of the first step
+const RAMP_STEP = 6; // % FTP added each minute
+const RAMP_STEPS = 25; // up to 194% FTP - nobody is expected to finish
+
+// Failure: every sample over the last COLLAPSE_SECONDS of an effort has power
+// below COLLAPSE_POWER_RATIO of the rider's own average over the
+// REFERENCE_SECONDS before, or cadence below COLLAPSE_CADENCE. The first
+// EFFORT_GRACE_SECONDS of an effort are left out while the rider settles in,
+// and samples without power (dropouts, gaps) don't count either way
+const EFFORT_GRACE_SECONDS = 30;
+const COLLAPSE_SECONDS = 25;
+const REFERENCE_SECONDS = 60;
+const MIN_REFERENCE_SECONDS = 15; // no verdict until there's this much to compare with
+const MIN_WINDOW_COVERAGE = 0.75; // share of the collapse window that needs power
+const COLLAPSE_POWER_RATIO = 0.6;
+const COLLAPSE_CADENCE = 50; // rpm
+
+// An effort counts when at least this much of it was recorded
+const MIN_EFFORT_COVERAGE = 0.9;
+
+export interface FtpTestResult {
+  protocol: FtpTestProtocol;
+  testPower: number; // watts the estimate is based on
+  ftp: number; // estimated FTP in watts
+}
+
+export function createFtpTestWorkout(protocol: FtpTestProtocol, ftp: number): Workout {
+  const segments = buildTestSegments(protocol);
+  return {
+    id: generateId(),
+    name: FTP_TEST_PROTOCOLS[protocol].name,
+    description: FTP_TEST_PROTOCOLS[protocol].description,
+    segments,
+    totalDuration: calculateTotalDuration(segments),
+    estimatedTSS: calculateTSS(segments, ftp),
+    intensityFactor: calculateIntensityFactor(segments, ftp),
+    createdAt: new Date().toISOString(),
+    source: "test",
+    ftpTest: protocol,
+  };
+}
+
+function buildTestSegments(protocol: FtpTestProtocol): Segment[] {
+  switch (protocol) {
+    case "ramp":
+      return [
+        segment("warmup", 300, 45, undefined, "Easy spin - the ramp starts after this"),
+        ...Array.from({ length: RAMP_STEPS }, (_, i) =>
+          segment("interval", 60, RAMP_START + i * RAMP_STEP, undefined, "Hold the step as long as you can")
+        ),
+      ];
+    case "twenty_minute":
+      return [
+        segment("warmup", 600, 45, 70),
+        segment("steady", 180, 95, undefined, "Openers - find threshold pace"),
+        segment("recovery", 300, 50),
+        segment("freeride", 1200, 100, undefined, "Ride as hard as you can hold for 20 minutes"),
+        segment("cooldown", 600, 60, 40),
+      ];
+    case "eight_minute":
+      return [
+        segment("warmup", 600, 45, 70),
+        segment("recovery", 180, 50),
+        segment("freeride", 480, 105, undefined, "First effort - as hard as you can hold for 8 minutes"),
+        segment("recovery", 600, 50),
+        segment("freeride", 480, 105, undefined, "Second effort - match the first"),
+        segment("cooldown", 600, 60, 40),
+      ];
+  }
+}
+
+function segment(
+  type: SegmentType,
+  duration: number,
+  value: number,
+  valueHigh?: number,
+  instructions?: string
+): Segment {
+  return {
+    id: generateId(),
+    type,
+    duration,
+    targetPower: { type: "percent_ftp", value, ...(valueHigh !== undefined ? { valueHigh } : {}) },
+    ...(instructions ? { instructions } : {}),
+  };
+}
+
+export function isTestEffort(segment: Segment): boolean {
+  return segment.type === "interval" || segment.type === "freeride";
+}
+
+/**
+ * Whether the rider looks to have cracked: power or cadence collapsed for a
+ * sustained stretch of an effort. Consecutive effort segments (the ramp's
+ * steps) count as one effort. Samples before `ignoreBefore` (elapsed seconds)
+ * don't count towards the collapse - the rider chose to carry on from there
+ */
+export function detectTestFailure(
+  recordedData: RecordedDataPoint[],
+  segments: Segment[],
+  ignoreBefore: number = 0
+): boolean {
+  // The effort being ridden - the run of effort samples at the end
+  let effortStart = recordedData.length;
+  while (effortStart > 0) {
+    const segment = segments[recordedData[effortStart - 1].segmentIndex];
+    if (!segment || !isTestEffort(segment)) break;
+    effortStart--;
+  }
+  if (effortStart === recordedData.length) return false;
+
+  const now = recordedData[recordedData.length - 1].elapsedTime;
+  const settledAt = recordedData[effortStart].elapsedTime + EFFORT_GRACE_SECONDS;
+  const windowStart = now - COLLAPSE_SECONDS;
+  if (windowStart < Math.max(settledAt, ignoreBefore)) return false;
+
+  const hasPower = (point: RecordedDataPoint) => point.actualPower !== null && !point.gap;
+  const effort = recordedData.slice(effortStart).filter(
+    (point) => point.elapsedTime >= settledAt && hasPower(point)
+  );
+  const reference = effort.filter(
+    (point) => point.elapsedTime <= windowStart && point.elapsedTime > windowStart - REFERENCE_SECONDS
+  );
+  const window = effort.filter((point) => point.elapsedTime > windowStart);
+  if (reference.length < MIN_REFERENCE_SECONDS || window.length < COLLAPSE_SECONDS * MIN_WINDOW_COVERAGE) {
+    return false;
+  }
+
+  const referencePower = reference.reduce((sum, point) => sum + (point.actualPower as number), 0) / reference.length;
+  return window.every((point) => {
+    const powerCollapsed = (point.actualPower as number) < referencePower * COLLAPSE_POWER_RATIO;
+    const cadenceCollapsed = point.cadence !== null && point.cadence < COLLAPSE_CADENCE;
+    return powerCollapsed || cadenceCollapsed;
+  });
+}
+
+/**
+ * Estimate FTP from a test ride. Returns null when the test didn't produce a
+ * usable result - under a minute of ramp, or a timed effort cut short
+ */
+export function estimateFtpFromTest(
+  protocol: FtpTestProtocol,
+  segments: Segment[],
+  recordedData: RecordedDataPoint[]
+): FtpTestResult | null {
+  let testPower: number | null = null;
+
+  if (protocol === "ramp") {
+    const effortData = recordedData.filter((point) => {
+      const segment = segments[point.segmentIndex];
+      return segment && isTestEffort(segment);
+    });
+    testPower = calculatePeakPower(effortData, 60);
+  } else {
+    const effortAverages: number[] = [];
+    for (let i = 0; i < segments.length; i++) {
+      if (!isTestEffort(segments[i])) continue;
+
+      const powers = recordedData
+        .filter((point) => point.segmentIndex === i && point.actualPower !== null)
+        .map((point) => point.actualPower as number);
+      if (powers.length < segments[i].duration * MIN_EFFORT_COVERAGE) return null;
+      effortAverages.push(powers.reduce((sum, power) => sum + power, 0) / powers.length);
+    }
+    if (effortAverages.length > 0) {
+      testPower = Math.round(effortAverages.reduce((sum, power) => sum + power, 0) / effortAverages.length);
+    }
+  }
+
+  if (!testPower) return null;
+  return {
+    protocol,
+    testPower,
+    ftp: Math.round(testPower * FTP_TEST_PROTOCOLS[protocol].factor),
+  };
+}
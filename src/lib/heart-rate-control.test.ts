@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_HEART_RATE_CONTROL, HeartRateControlSettings } from "@/types/trainer";
+import { Segment } from "@/types/workout";
+import {
+  clampHeartRatePower,
+  getHeartRateBand,
+  getHeartRateFallbackWatts,
+  getNextHeartRatePower,
+} from "./heart-rate-control";
+
+const FTP = 250;
+const settings: HeartRateControlSettings = { ...DEFAULT_HEART_RATE_CONTROL, maxStepWatts: 10, ceilingPercentFTP: 85 };
+const band = { low: 130, high: 140 };
+
+function heartRateSegment(targetPower: Partial<Segment["targetPower"]>): Segment {
+  return {
+    id: "hr",
+    type: "steady",
+    duration: 600,
+    targetPower: { type: "heart_rate", value: 130, valueHigh: 140, ...targetPower },
+  };
+}
+
+describe("getHeartRateBand", () => {
+  it("reads bpm bands as they are, low to high", () => {
+    expect(getHeartRateBand(heartRateSegment({}), null)).toEqual({ low: 130, high: 140 });
+    expect(getHeartRateBand(heartRateSegment({ value: 150, valueHigh: 140 }), null)).toEqual({ low: 140, high: 150 });
+    expect(getHeartRateBand(heartRateSegment({ value: 135, valueHigh: undefined }), null)).toEqual({
+      low: 135,
+      high: 135,
+    });
+  });
+
+  it("converts %LTHR bands with the rider's LTHR", () => {
+    const segment = heartRateSegment({ value: 80, valueHigh: 89, heartRateUnit: "percent_lthr" });
+    expect(getHeartRateBand(segment, 170)).toEqual({ low: 136, high: 151 });
+    expect(getHeartRateBand(segment, 160)).toEqual({ low: 128, high: 142 });
+  });
+
+  it("has no band for %LTHR without an LTHR, or for power segments", () => {
+    expect(getHeartRateBand(heartRateSegment({ value: 80, valueHigh: 89, heartRateUnit: "percent_lthr" }), null)).toBeNull();
+    const power: Segment = { ...heartRateSegment({}), targetPower: { type: "percent_ftp", value: 130 } };
+    expect(getHeartRateBand(power, 170)).toBeNull();
+  });
+});
+
+describe("getNextHeartRatePower", () => {
+  it("holds the target inside the band", () => {
+    expect(getNextHeartRatePower(180, 130, band, settings, FTP)).toBe(180);
+    expect(getNextHeartRatePower(180, 140, band, settings, FTP)).toBe(180);
+  });
+
+  it("moves towards the band by 2W per bpm missed", () => {
+    expect(getNextHeartRatePower(180, 127, band, settings, FTP)).toBe(186);
+    expect(getNextHeartRatePower(180, 144, band, settings, FTP)).toBe(172);
+  });
+
+  it("caps each change at the step limit", () => {
+    expect(getNextHeartRatePower(150, 100, band, settings, FTP)).toBe(160);
+    expect(getNextHeartRatePower(180, 170, band, settings, FTP)).toBe(170);
+    expect(getNextHeartRatePower(150, 100, band, { ...settings, maxStepWatts: 25 }, FTP)).toBe(175);
+  });
+
+  it("never goes over the ceiling or below zero", () => {
+    // 85% of 250W
+    expect(getNextHeartRatePower(210, 110, band, settings, FTP)).toBe(212);
+    expect(getNextHeartRatePower(5, 190, band, settings, FTP)).toBe(0);
+  });
+});
+
+describe("clampHeartRatePower", () => {
+  it("rounds and keeps watts between zero and the ceiling", () => {
+    expect(clampHeartRatePower(180.4, settings, FTP)).toBe(180);
+    expect(clampHeartRatePower(300, settings, FTP)).toBe(212);
+    expect(clampHeartRatePower(-20, settings, FTP)).toBe(0);
+  });
+});
+
+describe("getHeartRateFallbackWatts", () => {
+  it("rides the segment's fallback power when heart rate drops out", () => {
+    expect(getHeartRateFallbackWatts(heartRateSegment({ fallbackPower: 60 }), settings, FTP)).toBe(150);
+  });
+
+  it("defaults to 65% FTP and stays under the ceiling", () => {
+    expect(getHeartRateFallbackWatts(heartRateSegment({}), settings, FTP)).toBe(163);
+    expect(getHeartRateFallbackWatts(heartRateSegment({ fallbackPower: 95 }), settings, FTP)).toBe(212);
+  });
+});
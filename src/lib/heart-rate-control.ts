@@ -0,0 +1,74 @@
+import { Segment } from "@/types/workout";
+import { HeartRateControlSettings } from "@/types/trainer";
+import { getPowerAsWatts } from "@/lib/workout-utils";
+
+// Watts added or removed per bpm outside the band, before the step limit
+const WATTS_PER_BPM = 2;
+
+export interface HeartRateBand {
+  low: number;  // bpm
+  high: number; // bpm
+}
+
+/**
+ * Resolve a heart_rate target to a bpm band. %LTHR targets need the rider's
+ * LTHR - returns null when it isn't set (or the segment isn't HR targeted)
+ */
+export function getHeartRateBand(segment: Segment, lthr: number | null): HeartRateBand | null {
+  const { type, value, valueHigh, heartRateUnit } = segment.targetPower;
+  if (type !== "heart_rate") return null;
+
+  const high = valueHigh ?? value;
+  if (heartRateUnit === "percent_lthr") {
+    if (!lthr) return null;
+    return {
+      low: Math.round((Math.min(value, high) / 100) * lthr),
+      high: Math.round((Math.max(value, high) / 100) * lthr),
+    };
+  }
+  return { low: Math.min(value, high), high: Math.max(value, high) };
+}
+
+/**
+ * Next ERG target for a heart-rate segment. Inside the band the target is
+ * held; outside it moves towards the band in proportion to the miss, capped
+ * at the step limit and the power ceiling
+ */
+export function getNextHeartRatePower(
+  currentWatts: number,
+  heartRate: number,
+  band: HeartRateBand,
+  settings: HeartRateControlSettings,
+  ftp: number
+): number {
+  let miss = 0;
+  if (heartRate < band.low) {
+    miss = band.low - heartRate;
+  } else if (heartRate > band.high) {
+    miss = band.high - heartRate;
+  }
+
+  const step = Math.max(-settings.maxStepWatts, Math.min(settings.maxStepWatts, miss * WATTS_PER_BPM));
+  return clampHeartRatePower(currentWatts + step, settings, ftp);
+}
+
+export function clampHeartRatePower(
+  watts: number,
+  settings: HeartRateControlSettings,
+  ftp: number
+): number {
+  const ceiling = Math.floor((settings.ceilingPercentFTP / 100) * ftp);
+  return Math.max(0, Math.min(Math.round(watts), ceiling));
+}
+
+/**
+ * Wattage a heart-rate segment starts from, and holds whenever it can't be
+ * controlled - heart rate dropped out, or a %LTHR band without an LTHR
+ */
+export function getHeartRateFallbackWatts(
+  segment: Segment,
+  settings: HeartRateControlSettings,
+  ftp: number
+): number {
+  return clampHeartRatePower(getPowerAsWatts(segment, ftp), settings, ftp);
+}
@@ -0,0 +1,33 @@
+import { KnownDevice, KnownDeviceKind } from "@/types/trainer";
+
+/**
+ * Record a connection to a device - adds it, or refreshes its name,
+ * capabilities and last-seen time keeping the rider's nickname. Most recently
+ * seen first
+ */
+export function upsertKnownDevice(
+  devices: KnownDevice[],
+  device: Omit<KnownDevice, "nickname" | "lastSeenAt">,
+  seenAt: Date = new Date()
+): KnownDevice[] {
+  const existing = devices.find((d) => d.id === device.id && d.kind === device.kind);
+  const entry: KnownDevice = {
+    ...existing,
+    ...device,
+    nickname: existing?.nickname ?? null,
+    lastSeenAt: seenAt.toISOString(),
+  };
+  return sortKnownDevices([...devices.filter((d) => d !== existing), entry]);
+}
+
+export function sortKnownDevices(devices: KnownDevice[]): KnownDevice[] {
+  return [...devices].sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+export function getKnownDevicesOfKind(devices: KnownDevice[], kind: KnownDeviceKind): KnownDevice[] {
+  return sortKnownDevices(devices.filter((d) => d.kind === kind));
+}
+
+export function getKnownDeviceName(device: KnownDevice): string {
+  return device.nickname?.trim() || device.name;
+}
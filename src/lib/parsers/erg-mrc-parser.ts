@@ -0,0 +1,191 @@
+import { Workout, Segment, SegmentType, PowerTargetType, generateId } from "@/types/workout";
+import { calculateTSS, calculateIntensityFactor, calculateTotalDuration } from "@/lib/workout-utils";
+
+// ERG / MRC parser
+// Both formats share the same layout: a [COURSE HEADER] block, a
+// [COURSE DATA] block of "minutes<TAB>value" points and an optional
+// [COURSE TEXT] block of "seconds<TAB>message<TAB>duration" cues.
+// ERG values are absolute watts, MRC values are percent of FTP.
+// Consecutive points with different values describe a linear ramp, points
+// sharing the same time describe a step change.
+
+interface CoursePoint {
+  seconds: number;
+  value: number;
+}
+
+interface CourseText {
+  seconds: number;
+  text: string;
+}
+
+export function parseErgMrcFile(content: string, ftp: number): Workout {
+  const lines = content.split(/\r?\n/).map((line) => line.trim());
+
+  const header = readSection(lines, "COURSE HEADER");
+  const data = readSection(lines, "COURSE DATA");
+  if (!header || !data) {
+    throw new Error("Invalid ERG/MRC file: missing [COURSE HEADER] or [COURSE DATA] section");
+  }
+
+  const powerType = readPowerType(header);
+  const headerValues = readHeaderValues(header);
+
+  const points = data
+    .map(parsePoint)
+    .filter((point): point is CoursePoint => point !== null);
+  if (points.length < 2) {
+    throw new Error("ERG/MRC file contains no course data");
+  }
+
+  const segments = pointsToSegments(points, powerType, ftp);
+  if (segments.length === 0) {
+    throw new Error("ERG/MRC file contains no timed segments");
+  }
+
+  const texts = (readSection(lines, "COURSE TEXT") ?? [])
+    .map(parseText)
+    .filter((text): text is CourseText => text !== null);
+  attachCourseText(segments, texts);
+
+  return {
+    id: generateId(),
+    name: headerValues.get("FILE NAME") || "Imported Workout",
+    description: headerValues.get("DESCRIPTION") || "",
+    segments,
+    totalDuration: calculateTotalDuration(segments),
+    estimatedTSS: calculateTSS(segments, ftp),
+    intensityFactor: calculateIntensityFactor(segments, ftp),
+    createdAt: new Date().toISOString(),
+    source: "file",
+  };
+}
+
+function readSection(lines: string[], name: string): string[] | null {
+  const start = lines.findIndex((line) => line.toUpperCase() === `[${name}]`);
+  if (start === -1) return null;
+
+  const end = lines.findIndex(
+    (line, i) => i > start && line.toUpperCase() === `[END ${name}]`
+  );
+  return lines
+    .slice(start + 1, end === -1 ? undefined : end)
+    .filter((line) => line.length > 0 && !line.startsWith(";"));
+}
+
+function readHeaderValues(header: string[]): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const line of header) {
+    const separator = line.indexOf("=");
+    if (separator === -1) continue;
+    values.set(
+      line.slice(0, separator).trim().toUpperCase(),
+      line.slice(separator + 1).trim()
+    );
+  }
+  return values;
+}
+
+/**
+ * The "MINUTES WATTS" / "MINUTES PERCENT" line decides how values are read
+ */
+function readPowerType(header: string[]): PowerTargetType {
+  const columns = header.find((line) => /^MINUTES\s+/i.test(line));
+  if (!columns) {
+    throw new Error("Invalid ERG/MRC file: missing MINUTES WATTS or MINUTES PERCENT header");
+  }
+
+  const unit = columns.split(/\s+/)[1].toUpperCase();
+  if (unit === "WATTS") return "absolute_watts";
+  if (unit === "PERCENT") return "percent_ftp";
+  throw new Error(`Unsupported ERG/MRC value unit: ${unit}`);
+}
+
+function parsePoint(line: string): CoursePoint | null {
+  const [minutes, value] = line.split(/\s+/).map(Number);
+  if (!Number.isFinite(minutes) || !Number.isFinite(value)) return null;
+  return { seconds: Math.round(minutes * 60), value };
+}
+
+function parseText(line: string): CourseText | null {
+  const [seconds, text] = line.split("\t");
+  const start = Number(seconds);
+  if (!Number.isFinite(start) || !text?.trim()) return null;
+  return { seconds: start, text: text.trim() };
+}
+
+/**
+ * Turn course points into segments - flat stretches become steady segments
+ * (merged when adjacent and equal), sloped stretches become ramps
+ */
+function pointsToSegments(
+  points: CoursePoint[],
+  powerType: PowerTargetType,
+  ftp: number
+): Segment[] {
+  const segments: Segment[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const from = points[i];
+    const to = points[i + 1];
+    const duration = to.seconds - from.seconds;
+    if (duration <= 0) continue; // step change
+
+    const start = Math.round(from.value);
+    const end = Math.round(to.value);
+    const previous = segments[segments.length - 1];
+
+    if (
+      start === end &&
+      previous &&
+      previous.targetPower.valueHigh === undefined &&
+      previous.targetPower.value === start
+    ) {
+      previous.duration += duration;
+      continue;
+    }
+
+    segments.push({
+      id: generateId(),
+      type: classifySegment(start, end, powerType, ftp),
+      duration,
+      targetPower: {
+        type: powerType,
+        value: start,
+        valueHigh: start !== end ? end : undefined,
+      },
+    });
+  }
+
+  return segments;
+}
+
+function classifySegment(
+  start: number,
+  end: number,
+  powerType: PowerTargetType,
+  ftp: number
+): SegmentType {
+  if (start !== end) {
+    return end > start ? "warmup" : "cooldown";
+  }
+
+  const percent = powerType === "absolute_watts" && ftp > 0 ? (start / ftp) * 100 : start;
+  if (percent < 60) return "recovery";
+  if (percent >= 88) return "interval";
+  return "steady";
+}
+
+function attachCourseText(segments: Segment[], texts: CourseText[]): void {
+  let segmentStart = 0;
+  for (const segment of segments) {
+    const segmentEnd = segmentStart + segment.duration;
+    const messages = texts
+      .filter((text) => text.seconds >= segmentStart && text.seconds < segmentEnd)
+      .map((text) => text.text);
+    if (messages.length > 0) {
+      segment.instructions = messages.join(" ");
+    }
+    segmentStart = segmentEnd;
+  }
+}
@@ -0,0 +1,166 @@
+import { Encoder, FileIdMesg, Profile, RecordMesg, WorkoutMesg, WorkoutStepMesg } from "@garmin/fitsdk";
+import { describe, expect, it } from "vitest";
+import { parseFitFile } from "./fit-parser";
+import { isSegmentBlock } from "@/types/workout";
+
+const FTP = 250;
+
+// Profile enum values, as the FIT SDK writes them
+const FILE_WORKOUT = 5;
+const FILE_ACTIVITY = 4;
+const DURATION = { TIME: 0, DISTANCE: 1, OPEN: 5, REPEAT: 6 };
+const TARGET = { OPEN: 2, CADENCE: 3, POWER: 4 };
+const INTENSITY = { ACTIVE: 0, WARMUP: 2, COOLDOWN: 3, RECOVERY: 4, INTERVAL: 5 };
+
+function fileId(type: number): FileIdMesg {
+  return { type, manufacturer: 255, product: 0, serialNumber: 1234, timeCreated: new Date("2026-10-01T06:00:00Z") };
+}
+
+const powerRecord: RecordMesg = { timestamp: new Date("2026-10-01T06:00:01Z"), power: 200 };
+
+// Fixtures are encoded with Garmin's FIT SDK so the parser is checked against
+// files it did not write itself
+function encodeWorkout(name: string, steps: WorkoutStepMesg[]): ArrayBuffer {
+  const encoder = new Encoder();
+  const workout: WorkoutMesg = { wktName: name, sport: 2, numValidSteps: steps.length };
+  encoder.onMesg(Profile.MesgNum.FILE_ID, fileId(FILE_WORKOUT));
+  encoder.onMesg(Profile.MesgNum.WORKOUT, workout);
+  steps.forEach((step, i) => {
+    encoder.onMesg(Profile.MesgNum.WORKOUT_STEP, { messageIndex: i, ...step });
+  });
+  return toArrayBuffer(encoder.close());
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function timeStep(seconds: number, step: WorkoutStepMesg): WorkoutStepMesg {
+  return { durationType: DURATION.TIME, durationValue: seconds * 1000, ...step };
+}
+
+function powerRange(low: number, high: number): WorkoutStepMesg {
+  return { targetType: TARGET.POWER, targetValue: 0, customTargetValueLow: low, customTargetValueHigh: high };
+}
+
+describe("parseFitFile", () => {
+  it("converts a structured workout with ranges and repeats", async () => {
+    const buffer = encodeWorkout("Threshold Builder", [
+      timeStep(600, { intensity: INTENSITY.WARMUP, ...powerRange(50, 75) }),
+      timeStep(480, { intensity: INTENSITY.INTERVAL, wktStepName: "Over", ...powerRange(1250, 1290) }),
+      timeStep(120, { intensity: INTENSITY.RECOVERY, ...powerRange(55, 55) }),
+      { durationType: DURATION.REPEAT, durationValue: 1, targetValue: 4 },
+      timeStep(30, { intensity: INTENSITY.INTERVAL, ...powerRange(120, 130) }),
+      { durationType: DURATION.REPEAT, durationValue: 4, targetValue: 3 },
+      timeStep(300, { intensity: INTENSITY.ACTIVE, targetType: TARGET.POWER, targetValue: 2 }),
+      timeStep(600, { intensity: INTENSITY.COOLDOWN, ...powerRange(65, 40) }),
+    ]);
+
+    const workout = await parseFitFile(buffer, FTP);
+
+    expect(workout.name).toBe("Threshold Builder");
+    expect(workout.source).toBe("file");
+    expect(workout.segments).toHaveLength(5);
+
+    const [warmup, block, sprint, zone, cooldown] = workout.segments;
+    expect(warmup).toMatchObject({
+      type: "warmup",
+      duration: 600,
+      targetPower: { type: "percent_ftp", value: 50, valueHigh: 75 },
+    });
+    expect(block).toMatchObject({
+      type: "block",
+      repeat: 4,
+      segments: [
+        {
+          type: "interval",
+          duration: 480,
+          targetPower: { type: "absolute_watts", value: 270 },
+          instructions: "Over - Target range 250-290W",
+        },
+        { type: "recovery", duration: 120, targetPower: { type: "percent_ftp", value: 55 } },
+      ],
+    });
+    // A repeat of a single step stays one segment
+    expect(sprint).toMatchObject({
+      type: "interval",
+      duration: 30,
+      repeat: 3,
+      targetPower: { type: "percent_ftp", value: 125 },
+      instructions: "Target range 120-130% FTP",
+    });
+    expect(isSegmentBlock(sprint)).toBe(false);
+    expect(zone).toMatchObject({ type: "steady", duration: 300, targetPower: { type: "zone", value: 2 } });
+    expect(cooldown).toMatchObject({
+      type: "cooldown",
+      duration: 600,
+      targetPower: { type: "percent_ftp", value: 40, valueHigh: 65 },
+    });
+
+    expect(workout.totalDuration).toBe(600 + 4 * (480 + 120) + 3 * 30 + 300 + 600);
+  });
+
+  it("reads cadence targets and gives steps without a time duration 300s", async () => {
+    const buffer = encodeWorkout("Cadence Drills", [
+      timeStep(180, { intensity: INTENSITY.INTERVAL, targetType: TARGET.CADENCE, customTargetValueLow: 100, customTargetValueHigh: 110 }),
+      timeStep(240, {
+        intensity: INTENSITY.ACTIVE,
+        ...powerRange(85, 85),
+        secondaryTargetType: TARGET.CADENCE,
+        secondaryCustomTargetValueLow: 70,
+        secondaryCustomTargetValueHigh: 75,
+      }),
+      { durationType: DURATION.OPEN, intensity: INTENSITY.RECOVERY, targetType: TARGET.OPEN },
+      { durationType: DURATION.DISTANCE, durationValue: 500000, intensity: INTENSITY.ACTIVE, ...powerRange(90, 90) },
+      timeStep(0, { intensity: INTENSITY.ACTIVE, ...powerRange(70, 70) }),
+    ]);
+
+    const workout = await parseFitFile(buffer, FTP);
+    const [drill, lowCadence, open, distance] = workout.segments;
+
+    expect(workout.segments).toHaveLength(4);
+    expect(drill).toMatchObject({
+      type: "interval",
+      duration: 180,
+      cadenceTarget: { min: 100, max: 110 },
+      targetPower: { type: "percent_ftp", value: 65 },
+    });
+    expect(lowCadence).toMatchObject({
+      duration: 240,
+      cadenceTarget: { min: 70, max: 75 },
+      targetPower: { type: "percent_ftp", value: 85 },
+    });
+    expect(open).toMatchObject({
+      type: "recovery",
+      duration: 300,
+      instructions: "Open-ended step - skip ahead when done",
+    });
+    expect(distance).toMatchObject({ duration: 300, targetPower: { type: "percent_ftp", value: 90 } });
+  });
+
+  it("refuses a recorded activity", async () => {
+    const encoder = new Encoder();
+    encoder.onMesg(Profile.MesgNum.FILE_ID, fileId(FILE_ACTIVITY));
+    encoder.onMesg(Profile.MesgNum.RECORD, powerRecord);
+
+    await expect(parseFitFile(toArrayBuffer(encoder.close()), FTP)).rejects.toThrow(
+      "This FIT file is a recorded activity, not a structured workout"
+    );
+  });
+
+  it("refuses activity data without a file_id", async () => {
+    const encoder = new Encoder();
+    encoder.onMesg(Profile.MesgNum.RECORD, powerRecord);
+
+    await expect(parseFitFile(toArrayBuffer(encoder.close()), FTP)).rejects.toThrow("recorded activity");
+  });
+
+  it("rejects a file with a broken CRC", async () => {
+    const bytes = new Uint8Array(
+      encodeWorkout("Broken", [timeStep(60, { intensity: INTENSITY.ACTIVE, ...powerRange(60, 60) })])
+    );
+    bytes[bytes.length - 3] ^= 0xff;
+
+    await expect(parseFitFile(bytes.buffer, FTP)).rejects.toThrow("CRC mismatch");
+  });
+});
@@ -1,12 +1,364 @@
-import { Workout } from "@/types/workout";
+import {
+  Workout,
+  WorkoutItem,
+  Segment,
+  SegmentType,
+  PowerTarget,
+  CadenceTarget,
+  isSegmentBlock,
+  generateId,
+} from "@/types/workout";
+import { calculateTSS, calculateIntensityFactor, calculateTotalDuration } from "@/lib/workout-utils";
+import { FIT_MESG, FIT_FILE_TYPE, FIT_BASE_TYPE, calculateFitCrc } from "@/lib/fit-protocol";
 
 // FIT file parser
-// Note: Full FIT parsing requires a proper SDK (e.g., fit-file-parser npm package)
-// The binary format includes field definitions, developer fields, and compressed timestamps
+// Decodes the binary FIT protocol (definition + data messages) and converts
+// workout / workout_step messages into Workout segments.
+// Reference: Garmin FIT SDK profile (Profile.xlsx) - only the messages and
+// fields needed for structured workouts are interpreted here.
 
-export async function parseFitFile(buffer: ArrayBuffer, _ftp: number): Promise<Workout> {
+// workout_step field numbers
+const STEP_FIELD = {
+  MESSAGE_INDEX: 254,
+  NAME: 0,
+  DURATION_TYPE: 1,
+  DURATION_VALUE: 2,
+  TARGET_TYPE: 3,
+  TARGET_VALUE: 4,
+  CUSTOM_TARGET_LOW: 5,
+  CUSTOM_TARGET_HIGH: 6,
+  INTENSITY: 7,
+  NOTES: 8,
+  SECONDARY_TARGET_TYPE: 19,
+  SECONDARY_TARGET_VALUE: 20,
+  SECONDARY_CUSTOM_TARGET_LOW: 21,
+  SECONDARY_CUSTOM_TARGET_HIGH: 22,
+} as const;
+
+// wkt_step_duration values
+const DURATION_TIME = 0;
+const DURATION_OPEN = 5;
+const DURATION_REPEAT_UNTIL_STEPS_CMPLT = 6;
+
+// wkt_step_target values
+const TARGET_HEART_RATE = 1;
+const TARGET_OPEN = 2;
+const TARGET_CADENCE = 3;
+const TARGET_POWER = 4;
+
+// intensity values
+const INTENSITY = {
+  ACTIVE: 0,
+  REST: 1,
+  WARMUP: 2,
+  COOLDOWN: 3,
+  RECOVERY: 4,
+  INTERVAL: 5,
+} as const;
+
+// Power targets: 0-1000 = % FTP, >1000 = watts + 1000
+const WATTS_OFFSET = 1000;
+
+// Heart rate targets: 0-100 = % max HR, >100 = bpm + 100
+const HEART_RATE_OFFSET = 100;
+
+// Steps without a usable time duration (open, distance, HR-based...) fall back to this
+const DEFAULT_OPEN_STEP_DURATION = 300;
+
+type FitValue = number | string | null;
+
+interface FitFieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FitFieldDefinition[];
+  developerDataSize: number;
+}
+
+interface FitMessage {
+  globalNum: number;
+  fields: Map<number, FitValue>;
+}
+
+export async function parseFitFile(buffer: ArrayBuffer, ftp: number): Promise<Workout> {
+  const messages = decodeFitMessages(buffer);
+
+  const fileId = messages.find((m) => m.globalNum === FIT_MESG.FILE_ID);
+  const fileType = fileId ? fileId.fields.get(0) : null;
+  const hasActivityData = messages.some(
+    (m) =>
+      m.globalNum === FIT_MESG.RECORD ||
+      m.globalNum === FIT_MESG.SESSION ||
+      m.globalNum === FIT_MESG.LAP ||
+      m.globalNum === FIT_MESG.ACTIVITY
+  );
+
+  if (fileType === FIT_FILE_TYPE.ACTIVITY || (fileType === null && hasActivityData)) {
+    throw new Error(
+      "This FIT file is a recorded activity, not a structured workout. Export the workout itself (e.g. from Garmin Connect or TrainingPeaks) as a FIT workout file."
+    );
+  }
+
+  if (fileType !== null && fileType !== FIT_FILE_TYPE.WORKOUT) {
+    throw new Error(`Unsupported FIT file type (${fileType}). Only FIT workout files can be imported.`);
+  }
+
+  const steps = messages.filter((m) => m.globalNum === FIT_MESG.WORKOUT_STEP);
+  if (steps.length === 0) {
+    throw new Error("No workout steps found in FIT file");
+  }
+
+  const workoutMesg = messages.find((m) => m.globalNum === FIT_MESG.WORKOUT);
+  const name = asString(workoutMesg?.fields.get(8)) || "Imported Workout";
+
+  const segments = convertWorkoutSteps(steps, ftp);
+  if (segments.length === 0) {
+    throw new Error("FIT workout contains no timed steps");
+  }
+
+  return {
+    id: generateId(),
+    name,
+    description: "",
+    segments,
+    totalDuration: calculateTotalDuration(segments),
+    estimatedTSS: calculateTSS(segments, ftp),
+    intensityFactor: calculateIntensityFactor(segments, ftp),
+    createdAt: new Date().toISOString(),
+    source: "file",
+  };
+}
+
+/**
+ * Convert workout_step messages to segments, resolving repeat steps.
+ * Repeat steps point back at an earlier step's message_index; single-step
+ * repeats use Segment.repeat, multi-step repeats become (nested) blocks.
+ */
+function convertWorkoutSteps(steps: FitMessage[], ftp: number): WorkoutItem[] {
+  const segments: WorkoutItem[] = [];
+  // message_index -> position of the step's first segment in `segments`
+  const stepPositions = new Map<number, number>();
+
+  steps.forEach((step, i) => {
+    const messageIndex = asNumber(step.fields.get(STEP_FIELD.MESSAGE_INDEX)) ?? i;
+    stepPositions.set(messageIndex, segments.length);
+
+    const durationType = asNumber(step.fields.get(STEP_FIELD.DURATION_TYPE)) ?? DURATION_OPEN;
+
+    if (durationType === DURATION_REPEAT_UNTIL_STEPS_CMPLT) {
+      const fromStep = asNumber(step.fields.get(STEP_FIELD.DURATION_VALUE)) ?? 0;
+      const count = asNumber(step.fields.get(STEP_FIELD.TARGET_VALUE)) ?? 1;
+      const start = stepPositions.get(fromStep);
+      if (start === undefined || count <= 1) return;
+
+      const repeated = segments.splice(start);
+      const first = repeated[0];
+      if (repeated.length === 1 && !isSegmentBlock(first)) {
+        segments.push({ ...first, repeat: (first.repeat || 1) * count });
+        return;
+      }
+      segments.push({ id: generateId(), type: "block", repeat: count, segments: repeated });
+      return;
+    }
+
+    const segment = convertStep(step, durationType, ftp);
+    if (segment) {
+      segments.push(segment);
+    }
+  });
+
+  return segments;
+}
+
+function convertStep(step: FitMessage, durationType: number, ftp: number): Segment | null {
+  const intensity = asNumber(step.fields.get(STEP_FIELD.INTENSITY)) ?? INTENSITY.ACTIVE;
+  const type = intensityToSegmentType(intensity);
+  const notes: string[] = [];
+
+  const stepName = asString(step.fields.get(STEP_FIELD.NAME));
+  const stepNotes = asString(step.fields.get(STEP_FIELD.NOTES));
+  if (stepName) notes.push(stepName);
+  if (stepNotes) notes.push(stepNotes);
+
+  let duration: number;
+  if (durationType === DURATION_TIME) {
+    const ms = asNumber(step.fields.get(STEP_FIELD.DURATION_VALUE)) ?? 0;
+    duration = Math.round(ms / 1000);
+    if (duration <= 0) return null;
+  } else {
+    duration = DEFAULT_OPEN_STEP_DURATION;
+    notes.push("Open-ended step - skip ahead when done");
+  }
+
+  const targets = [
+    {
+      type: asNumber(step.fields.get(STEP_FIELD.TARGET_TYPE)) ?? TARGET_OPEN,
+      value: asNumber(step.fields.get(STEP_FIELD.TARGET_VALUE)) ?? 0,
+      low: asNumber(step.fields.get(STEP_FIELD.CUSTOM_TARGET_LOW)) ?? 0,
+      high: asNumber(step.fields.get(STEP_FIELD.CUSTOM_TARGET_HIGH)) ?? 0,
+    },
+    {
+      type: asNumber(step.fields.get(STEP_FIELD.SECONDARY_TARGET_TYPE)) ?? TARGET_OPEN,
+      value: asNumber(step.fields.get(STEP_FIELD.SECONDARY_TARGET_VALUE)) ?? 0,
+      low: asNumber(step.fields.get(STEP_FIELD.SECONDARY_CUSTOM_TARGET_LOW)) ?? 0,
+      high: asNumber(step.fields.get(STEP_FIELD.SECONDARY_CUSTOM_TARGET_HIGH)) ?? 0,
+    },
+  ];
+
+  let targetPower: PowerTarget | null = null;
+  let heartRateTarget: PowerTarget | null = null;
+  let cadenceTarget: CadenceTarget | undefined;
+
+  for (const target of targets) {
+    if (target.type === TARGET_POWER && !targetPower) {
+      targetPower = convertPowerTarget(target.value, target.low, target.high, type, ftp, notes);
+    } else if (target.type === TARGET_CADENCE && !cadenceTarget && target.low > 0) {
+      cadenceTarget = { min: target.low, max: target.high || target.low };
+    } else if (target.type === TARGET_HEART_RATE && (target.low > 0 || target.value > 0)) {
+      // bpm bands can be ridden as heart-rate targets; % max HR stays a note
+      if (target.low > HEART_RATE_OFFSET && target.high > HEART_RATE_OFFSET) {
+        heartRateTarget = {
+          type: "heart_rate",
+          value: target.low - HEART_RATE_OFFSET,
+          valueHigh: target.high - HEART_RATE_OFFSET,
+          heartRateUnit: "bpm",
+          fallbackPower: defaultPowerTarget(type).value,
+        };
+      } else {
+        notes.push(describeHeartRateTarget(target.value, target.low, target.high));
+      }
+    }
+  }
+
+  // A power target wins - the HR band is then only a note
+  if (heartRateTarget && targetPower) {
+    notes.push(`Heart rate ${heartRateTarget.value}-${heartRateTarget.valueHigh} bpm`);
+  }
+
+  return {
+    id: generateId(),
+    type,
+    duration,
+    targetPower: targetPower ?? heartRateTarget ?? defaultPowerTarget(type),
+    cadenceTarget,
+    instructions: notes.length > 0 ? notes.join(" - ") : undefined,
+  };
+}
+
+function convertPowerTarget(
+  zone: number,
+  low: number,
+  high: number,
+  type: SegmentType,
+  ftp: number,
+  notes: string[]
+): PowerTarget {
+  // Zone target (1-7) when no custom range is given
+  if (low === 0 && high === 0 && zone >= 1 && zone <= 7) {
+    return { type: "zone", value: zone };
+  }
+
+  const lowIsWatts = low > WATTS_OFFSET;
+  const highIsWatts = high > WATTS_OFFSET;
+
+  if (high === 0 || high === low) {
+    return lowIsWatts
+      ? { type: "absolute_watts", value: low - WATTS_OFFSET }
+      : { type: "percent_ftp", value: low };
+  }
+
+  // Mixed units are normalised to % FTP
+  let target: PowerTarget;
+  if (lowIsWatts && highIsWatts) {
+    target = { type: "absolute_watts", value: low - WATTS_OFFSET, valueHigh: high - WATTS_OFFSET };
+  } else if (!lowIsWatts && !highIsWatts) {
+    target = { type: "percent_ftp", value: low, valueHigh: high };
+  } else {
+    const toPercent = (v: number) =>
+      v > WATTS_OFFSET ? Math.round(((v - WATTS_OFFSET) / ftp) * 100) : v;
+    target = { type: "percent_ftp", value: toPercent(low), valueHigh: toPercent(high) };
+  }
+
+  // Warmup/cooldown ranges are ridden as ramps; other ranges hold the midpoint
+  if (type === "warmup") {
+    return target;
+  }
+  if (type === "cooldown") {
+    return { ...target, value: target.valueHigh as number, valueHigh: target.value };
+  }
+
+  const unit = target.type === "absolute_watts" ? "W" : "% FTP";
+  notes.push(`Target range ${target.value}-${target.valueHigh}${unit}`);
+  return {
+    type: target.type,
+    value: Math.round((target.value + (target.valueHigh as number)) / 2),
+  };
+}
+
+function describeHeartRateTarget(zone: number, low: number, high: number): string {
+  const format = (v: number) => (v > HEART_RATE_OFFSET ? `${v - HEART_RATE_OFFSET} bpm` : `${v}% max HR`);
+  if (low === 0 && high === 0) {
+    return `Heart rate zone ${zone}`;
+  }
+  return `Heart rate ${format(low)} - ${format(high)}`;
+}
+
+function defaultPowerTarget(type: SegmentType): PowerTarget {
+  switch (type) {
+    case "warmup":
+      return { type: "percent_ftp", value: 50, valueHigh: 70 };
+    case "cooldown":
+      return { type: "percent_ftp", value: 65, valueHigh: 45 };
+    case "recovery":
+      return { type: "percent_ftp", value: 50 };
+    default:
+      return { type: "percent_ftp", value: 65 };
+  }
+}
+
+function intensityToSegmentType(intensity: number): SegmentType {
+  switch (intensity) {
+    case INTENSITY.WARMUP:
+      return "warmup";
+    case INTENSITY.COOLDOWN:
+      return "cooldown";
+    case INTENSITY.REST:
+    case INTENSITY.RECOVERY:
+      return "recovery";
+    case INTENSITY.INTERVAL:
+      return "interval";
+    default:
+      return "steady";
+  }
+}
+
+function asNumber(value: FitValue | undefined): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+function asString(value: FitValue | undefined): string | null {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+/**
+ * Decode all data messages in a FIT file.
+ * Developer fields are skipped; multi-value (array) fields keep their first value.
+ */
+function decodeFitMessages(buffer: ArrayBuffer): FitMessage[] {
   const view = new DataView(buffer);
 
+  if (buffer.byteLength < 12) {
+    throw new Error("Invalid FIT file format");
+  }
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+
   // Check for ".FIT" signature at offset 8
   const signature = String.fromCharCode(
     view.getUint8(8),
@@ -15,13 +367,162 @@ export async function parseFitFile(buffer: ArrayBuffer, _ftp: number): Promise<W
     view.getUint8(11)
   );
 
-  if (signature !== ".FIT") {
+  if (signature !== ".FIT" || headerSize < 12) {
     throw new Error("Invalid FIT file format");
   }
 
-  // FIT file parsing requires a proper SDK implementation
-  // The binary format is complex with field definitions, developer fields, etc.
-  throw new Error(
-    "FIT file import is not yet fully supported. Please export your workout as a .zwo file from Zwift/TrainerRoad, or use the AI to describe your workout."
-  );
+  const end = headerSize + dataSize;
+  if (end + 2 > buffer.byteLength) {
+    throw new Error("FIT file is truncated");
+  }
+
+  const expectedCrc = view.getUint16(end, true);
+  if (expectedCrc !== 0 && calculateFitCrc(new Uint8Array(buffer, 0, end)) !== expectedCrc) {
+    throw new Error("FIT file is corrupted (CRC mismatch)");
+  }
+
+  const definitions = new Map<number, FitDefinition>();
+  const messages: FitMessage[] = [];
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+
+    // Compressed timestamp header: data message, local type in bits 5-6
+    if (header & 0x80) {
+      const localType = (header >> 5) & 0x03;
+      offset = readDataMessage(view, offset, definitions.get(localType), messages);
+      continue;
+    }
+
+    const localType = header & 0x0f;
+
+    if (header & 0x40) {
+      // Definition message
+      const hasDeveloperData = (header & 0x20) !== 0;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNum = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FitFieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          num: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+
+      let developerDataSize = 0;
+      if (hasDeveloperData) {
+        const devFieldCount = view.getUint8(offset++);
+        for (let i = 0; i < devFieldCount; i++) {
+          developerDataSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, { globalNum, littleEndian, fields, developerDataSize });
+    } else {
+      offset = readDataMessage(view, offset, definitions.get(localType), messages);
+    }
+  }
+
+  return messages;
+}
+
+function readDataMessage(
+  view: DataView,
+  offset: number,
+  definition: FitDefinition | undefined,
+  messages: FitMessage[]
+): number {
+  if (!definition) {
+    throw new Error("FIT file is corrupted (data message without definition)");
+  }
+
+  const fields = new Map<number, FitValue>();
+  for (const field of definition.fields) {
+    fields.set(field.num, readFieldValue(view, offset, field, definition.littleEndian));
+    offset += field.size;
+  }
+  offset += definition.developerDataSize;
+
+  messages.push({ globalNum: definition.globalNum, fields });
+  return offset;
+}
+
+function readFieldValue(
+  view: DataView,
+  offset: number,
+  field: FitFieldDefinition,
+  littleEndian: boolean
+): FitValue {
+  switch (field.baseType) {
+    case FIT_BASE_TYPE.ENUM:
+    case FIT_BASE_TYPE.UINT8:
+    case FIT_BASE_TYPE.BYTE: {
+      const v = view.getUint8(offset);
+      return v === 0xff ? null : v;
+    }
+    case FIT_BASE_TYPE.UINT8Z: {
+      const v = view.getUint8(offset);
+      return v === 0 ? null : v;
+    }
+    case FIT_BASE_TYPE.SINT8: {
+      const v = view.getInt8(offset);
+      return v === 0x7f ? null : v;
+    }
+    case FIT_BASE_TYPE.SINT16: {
+      if (field.size < 2) return null;
+      const v = view.getInt16(offset, littleEndian);
+      return v === 0x7fff ? null : v;
+    }
+    case FIT_BASE_TYPE.UINT16: {
+      if (field.size < 2) return null;
+      const v = view.getUint16(offset, littleEndian);
+      return v === 0xffff ? null : v;
+    }
+    case FIT_BASE_TYPE.UINT16Z: {
+      if (field.size < 2) return null;
+      const v = view.getUint16(offset, littleEndian);
+      return v === 0 ? null : v;
+    }
+    case FIT_BASE_TYPE.SINT32: {
+      if (field.size < 4) return null;
+      const v = view.getInt32(offset, littleEndian);
+      return v === 0x7fffffff ? null : v;
+    }
+    case FIT_BASE_TYPE.UINT32: {
+      if (field.size < 4) return null;
+      const v = view.getUint32(offset, littleEndian);
+      return v === 0xffffffff ? null : v;
+    }
+    case FIT_BASE_TYPE.UINT32Z: {
+      if (field.size < 4) return null;
+      const v = view.getUint32(offset, littleEndian);
+      return v === 0 ? null : v;
+    }
+    case FIT_BASE_TYPE.FLOAT32: {
+      if (field.size < 4) return null;
+      const v = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(v) ? v : null;
+    }
+    case FIT_BASE_TYPE.FLOAT64: {
+      if (field.size < 8) return null;
+      const v = view.getFloat64(offset, littleEndian);
+      return Number.isFinite(v) ? v : null;
+    }
+    case FIT_BASE_TYPE.STRING: { // null-terminated UTF-8
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+      const terminator = bytes.indexOf(0);
+      const text = new TextDecoder().decode(terminator >= 0 ? bytes.subarray(0, terminator) : bytes);
+      return text.length > 0 ? text : null;
+    }
+    default:
+      // 64-bit integers and unknown types are not needed for workouts
+      return null;
+  }
 }
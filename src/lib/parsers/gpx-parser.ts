@@ -0,0 +1,131 @@
+import { Workout, Segment, Route, RoutePoint, generateId } from "@/types/workout";
+import { DEFAULT_SIMULATION } from "@/types/trainer";
+import { calculateTSS, calculateIntensityFactor, calculateTotalDuration } from "@/lib/workout-utils";
+import { calculateSpeedFromPower } from "@/lib/cycling-physics";
+import { haversineDistance, getRoutePointAt } from "@/lib/route-utils";
+
+// GPX parser
+// The track becomes a route ridden in SIM mode: its elevation is sampled every
+// SECTION_LENGTH metres into gradient sections, and runs of sections with the
+// same (rounded) gradient are merged into one slope segment. Segment durations
+// are estimates at ROUTE_INTENSITY - the player moves through them by distance.
+
+const SECTION_LENGTH = 200; // metres
+const GRADE_STEP = 0.5; // percent
+const MAX_GRADE = 20; // percent
+const MIN_POINT_SPACING = 25; // metres between stored route points
+const ROUTE_INTENSITY = 70; // % FTP assumed for duration and TSS estimates
+
+export function parseGpxFile(content: string, ftp: number): Workout {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(content, "text/xml");
+
+  if (doc.querySelector("parsererror")) {
+    throw new Error("Invalid GPX file: could not parse XML");
+  }
+
+  let trackPoints = Array.from(doc.querySelectorAll("trkpt"));
+  if (trackPoints.length === 0) {
+    trackPoints = Array.from(doc.querySelectorAll("rtept"));
+  }
+
+  const route = buildRoute(trackPoints);
+  if (route.points.length < 2 || route.totalDistance < SECTION_LENGTH / 2) {
+    throw new Error("GPX file contains no usable track");
+  }
+
+  const segments = routeToSegments(route, ftp);
+  const name =
+    doc.querySelector("trk > name")?.textContent?.trim() ||
+    doc.querySelector("metadata > name")?.textContent?.trim() ||
+    "Imported Route";
+
+  return {
+    id: generateId(),
+    name,
+    description: `${(route.totalDistance / 1000).toFixed(1)} km, ${Math.round(route.elevationGain)} m climbing`,
+    segments,
+    totalDuration: calculateTotalDuration(segments),
+    estimatedTSS: calculateTSS(segments, ftp),
+    intensityFactor: calculateIntensityFactor(segments, ftp),
+    createdAt: new Date().toISOString(),
+    source: "file",
+    route,
+  };
+}
+
+function buildRoute(elements: Element[]): Route {
+  const points: RoutePoint[] = [];
+  let distance = 0;
+  let elevationGain = 0;
+  let previous: { lat: number; lon: number; elevation: number } | null = null;
+
+  for (const element of elements) {
+    const lat = parseFloat(element.getAttribute("lat") || "");
+    const lon = parseFloat(element.getAttribute("lon") || "");
+    if (isNaN(lat) || isNaN(lon)) continue;
+
+    // Tracks without elevation ride flat
+    const ele = parseFloat(element.querySelector("ele")?.textContent || "");
+    const elevation: number = isNaN(ele) ? previous?.elevation ?? 0 : ele;
+
+    if (previous) {
+      distance += haversineDistance(previous.lat, previous.lon, lat, lon);
+      elevationGain += Math.max(0, elevation - previous.elevation);
+    }
+    previous = { lat, lon, elevation };
+
+    // Thin out dense tracks to keep the stored route small
+    const last = points[points.length - 1];
+    if (!last || distance - last.distance >= MIN_POINT_SPACING) {
+      points.push({ lat, lon, elevation, distance });
+    }
+  }
+
+  // Always keep the finish
+  if (previous && points[points.length - 1]?.distance !== distance) {
+    points.push({ ...previous, distance });
+  }
+
+  return { points, totalDistance: distance, elevationGain };
+}
+
+function routeToSegments(route: Route, ftp: number): Segment[] {
+  const segments: Segment[] = [];
+  const power = (ROUTE_INTENSITY / 100) * ftp;
+
+  for (let start = 0; start < route.totalDistance; start += SECTION_LENGTH) {
+    const end = Math.min(start + SECTION_LENGTH, route.totalDistance);
+    const length = end - start;
+    const rise = getRoutePointAt(route, end).elevation - getRoutePointAt(route, start).elevation;
+    const grade = roundGrade((rise / length) * 100);
+
+    const previous = segments[segments.length - 1];
+    if (previous?.simulation && previous.simulation.grade === grade) {
+      previous.simulation.distance = (previous.simulation.distance ?? 0) + length;
+      continue;
+    }
+
+    segments.push({
+      id: generateId(),
+      type: "steady",
+      duration: 0,
+      targetPower: { type: "percent_ftp", value: ROUTE_INTENSITY },
+      simulation: { grade, distance: length },
+    });
+  }
+
+  // Estimate how long each section takes at the assumed intensity
+  for (const segment of segments) {
+    const simulation = segment.simulation!;
+    const speed = calculateSpeedFromPower(power, { ...DEFAULT_SIMULATION, grade: simulation.grade });
+    segment.duration = Math.max(1, Math.round((simulation.distance ?? 0) / speed));
+  }
+
+  return segments;
+}
+
+function roundGrade(grade: number): number {
+  const rounded = Math.round(grade / GRADE_STEP) * GRADE_STEP;
+  return Math.max(-MAX_GRADE, Math.min(MAX_GRADE, rounded)) || 0;
+}
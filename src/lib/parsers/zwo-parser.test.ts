@@ -0,0 +1,155 @@
+// @vitest-environment jsdom
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { parseZwoFile } from "./zwo-parser";
+import { exportToZwo } from "@/lib/exporters/zwo-exporter";
+import { WorkoutItem, isSegmentBlock } from "@/types/workout";
+
+const FTP = 250;
+const ZWIFT_EXPORTS = ["zwift-over-unders.zwo", "zwift-cadence-pyramid.zwo"];
+const FIXTURES = ["sweet-spot-intervals.zwo", "free-ride-ramps.zwo", ...ZWIFT_EXPORTS];
+
+function readFixture(name: string): string {
+  return readFileSync(join(__dirname, "__fixtures__", name), "utf8");
+}
+
+// Tag, attributes and text events of each <workout> child. Numbers are
+// compared at the two decimals the export writes (Zwift saves 0.89999998)
+function workoutElements(xml: string): unknown[] {
+  const doc = new DOMParser().parseFromString(xml, "text/xml");
+  const attributesOf = (element: Element) =>
+    Object.fromEntries(
+      Array.from(element.attributes).map(({ name, value }) => [
+        name,
+        value.trim() !== "" && !isNaN(Number(value)) ? Number(Number(value).toFixed(2)) : value,
+      ])
+    );
+
+  return Array.from(doc.querySelector("workout")?.children ?? []).map((element) => ({
+    tag: element.tagName,
+    attributes: attributesOf(element),
+    textEvents: Array.from(element.children).map(attributesOf),
+  }));
+}
+
+// Ids are generated on every parse - everything else has to survive
+function withoutIds(items: WorkoutItem[]): unknown[] {
+  return items.map((item) => {
+    const rest: Partial<WorkoutItem> = { ...item };
+    delete rest.id;
+    return isSegmentBlock(item) ? { ...rest, segments: withoutIds(item.segments) } : rest;
+  });
+}
+
+describe("ZWO round-trip", () => {
+  it.each(FIXTURES)("keeps %s through parse, export and parse again", (fixture) => {
+    const parsed = parseZwoFile(readFixture(fixture), FTP);
+    const reparsed = parseZwoFile(exportToZwo(parsed, FTP), FTP);
+
+    expect(reparsed.name).toBe(parsed.name);
+    expect(reparsed.description).toBe(parsed.description);
+    expect(reparsed.totalDuration).toBe(parsed.totalDuration);
+    expect(withoutIds(reparsed.segments)).toEqual(withoutIds(parsed.segments));
+  });
+
+  it.each(FIXTURES)("exports %s the same way twice", (fixture) => {
+    const exported = exportToZwo(parseZwoFile(readFixture(fixture), FTP), FTP);
+    expect(exportToZwo(parseZwoFile(exported, FTP), FTP)).toBe(exported);
+  });
+
+  it("keeps IntervalsT as a block with its cadences and text events", () => {
+    const workout = parseZwoFile(readFixture("sweet-spot-intervals.zwo"), FTP);
+    const [, openers, , , sweetSpot] = workout.segments;
+
+    expect(openers).toMatchObject({
+      type: "block",
+      repeat: 3,
+      segments: [
+        { type: "interval", duration: 30, targetPower: { value: 110 }, cadenceTarget: { min: 105, max: 105 } },
+        { type: "recovery", duration: 30, targetPower: { value: 55 }, cadenceTarget: { min: 85, max: 85 } },
+      ],
+    });
+    expect(sweetSpot).toMatchObject({
+      type: "block",
+      repeat: 2,
+      textEvents: [{ timeOffset: 0, message: "Settle into sweet spot" }],
+    });
+
+    const exported = exportToZwo(workout, FTP);
+    expect(exported).toContain(
+      '<IntervalsT Repeat="3" OnDuration="30" OffDuration="30" OnPower="1.10" OffPower="0.55" Cadence="105" CadenceResting="85"/>'
+    );
+  });
+
+  it("keeps free ride, text events and cadence ranges", () => {
+    const workout = parseZwoFile(readFixture("free-ride-ramps.zwo"), FTP);
+    const [warmup, freeRide, effort, , cooldown] = workout.segments;
+
+    expect(warmup).toMatchObject({ type: "steady", targetPower: { value: 40, valueHigh: 70 } });
+    expect(freeRide).toMatchObject({
+      type: "freeride",
+      duration: 900,
+      cadenceTarget: { min: 90, max: 90 },
+      textEvents: [
+        { timeOffset: 60, message: "Ride by feel" },
+        { timeOffset: 600, message: "Last five minutes", duration: 15 },
+      ],
+    });
+    expect(effort).toMatchObject({ type: "steady", cadenceTarget: { min: 95, max: 110 } });
+    expect(cooldown).toMatchObject({
+      type: "steady",
+      targetPower: { value: 70, valueHigh: 35 },
+      cadenceTarget: { min: 80, max: 80 },
+    });
+
+    const exported = exportToZwo(workout, FTP);
+    expect(exported).toContain('<FreeRide Duration="300"/>');
+    expect(exported).toContain('message="Last five minutes" duration="15"');
+  });
+
+  it.each(ZWIFT_EXPORTS)("writes every element of %s back as Zwift wrote it", (fixture) => {
+    const source = readFixture(fixture);
+    const exported = exportToZwo(parseZwoFile(source, FTP), FTP);
+
+    expect(workoutElements(source)).toContainEqual(expect.objectContaining({ tag: "Ramp" }));
+    expect(workoutElements(exported)).toEqual(workoutElements(source));
+  });
+
+  it("keeps ramps, interval cadences and attributes it doesn't use from a Zwift export", () => {
+    const workout = parseZwoFile(readFixture("zwift-over-unders.zwo"), FTP);
+    const [warmup, openers, , overUnders, , ramp, freeRide, cooldown] = workout.segments;
+
+    expect(workout.name).toBe("Over-Unders 4x8");
+    expect(warmup).toMatchObject({ type: "warmup", targetPower: { value: 25, valueHigh: 75 }, zwoAttributes: { pace: "0" } });
+    expect(openers).toMatchObject({
+      type: "block",
+      repeat: 3,
+      segments: [
+        { type: "interval", duration: 60, targetPower: { value: 105 }, cadenceTarget: { min: 100, max: 100 } },
+        { type: "recovery", duration: 60, targetPower: { value: 55 }, cadenceTarget: { min: 85, max: 85 } },
+      ],
+      textEvents: [
+        { timeOffset: 0, message: "Openers - quick feet at 100rpm" },
+        { timeOffset: 300, message: "Last one", duration: 5 },
+      ],
+      zwoAttributes: { pace: "0" },
+    });
+    expect(overUnders).toMatchObject({ repeat: 4, segments: [{ targetPower: { value: 105 } }, { targetPower: { value: 90 } }] });
+    expect(ramp).toMatchObject({
+      type: "steady",
+      duration: 300,
+      targetPower: { type: "percent_ftp", value: 60, valueHigh: 95 },
+      textEvents: [{ timeOffset: 0, message: "Build steadily to just under threshold" }],
+    });
+    expect(freeRide).toMatchObject({ type: "freeride", zwoAttributes: { FlatRoad: "1" } });
+    expect(cooldown).toMatchObject({ type: "cooldown", targetPower: { value: 25, valueHigh: 70 } });
+    expect(workout.totalDuration).toBe(600 + 3 * 120 + 240 + 4 * 240 + 300 + 300 + 600 + 420);
+  });
+
+  it("escapes the workout name on export", () => {
+    const workout = parseZwoFile(readFixture("sweet-spot-intervals.zwo"), FTP);
+    expect(workout.name).toBe("Sweet Spot 3x10 & Openers");
+    expect(exportToZwo(workout, FTP)).toContain("<name>Sweet Spot 3x10 &amp; Openers</name>");
+  });
+});
@@ -1,4 +1,4 @@
-import { Workout, Segment, generateId } from "@/types/workout";
+import { Workout, WorkoutItem, CadenceTarget, TextEvent, DEFAULT_FREE_RIDE_INTENSITY, generateId } from "@/types/workout";
 import { calculateTSS, calculateIntensityFactor, calculateTotalDuration } from "@/lib/workout-utils";
 
 interface ZwoSegment {
@@ -18,6 +18,25 @@ interface ZwoSegment {
   segments?: ZwoSegment[];
 }
 
+// Attributes read below - any others are kept on the segment for the export
+const KNOWN_ATTRIBUTES = new Set([
+  "Duration",
+  "Power",
+  "PowerLow",
+  "PowerHigh",
+  "Cadence",
+  "CadenceLow",
+  "CadenceHigh",
+  "CadenceResting",
+  "CadenceRestingLow",
+  "CadenceRestingHigh",
+  "Repeat",
+  "OnDuration",
+  "OffDuration",
+  "OnPower",
+  "OffPower",
+]);
+
 export function parseZwoFile(content: string, ftp: number): Workout {
   const parser = new DOMParser();
   const doc = parser.parseFromString(content, "text/xml");
@@ -33,7 +52,7 @@ export function parseZwoFile(content: string, ftp: number): Workout {
     throw new Error("No workout element found in ZWO file");
   }
 
-  const segments: Segment[] = [];
+  const segments: WorkoutItem[] = [];
 
   for (const child of Array.from(workoutEl.children)) {
     const parsed = parseZwoElement(child);
@@ -55,9 +74,11 @@ export function parseZwoFile(content: string, ftp: number): Workout {
   return workout;
 }
 
-function parseZwoElement(element: Element): Segment[] {
+function parseZwoElement(element: Element): WorkoutItem[] {
   const tag = element.tagName.toLowerCase();
-  const segments: Segment[] = [];
+  const segments: WorkoutItem[] = [];
+  const textEvents = parseTextEvents(element);
+  const zwoAttributes = parseUnknownAttributes(element);
 
   switch (tag) {
     case "warmup": {
@@ -74,6 +95,9 @@ function parseZwoElement(element: Element): Segment[] {
           value: Math.round(powerLow),
           valueHigh: Math.round(powerHigh),
         },
+        cadenceTarget: parseCadence(element, "Cadence"),
+        textEvents,
+        zwoAttributes,
       });
       break;
     }
@@ -92,6 +116,9 @@ function parseZwoElement(element: Element): Segment[] {
           value: Math.round(powerHigh),
           valueHigh: Math.round(powerLow),
         },
+        cadenceTarget: parseCadence(element, "Cadence"),
+        textEvents,
+        zwoAttributes,
       });
       break;
     }
@@ -108,22 +135,29 @@ function parseZwoElement(element: Element): Segment[] {
           type: "percent_ftp",
           value: Math.round(power),
         },
+        cadenceTarget: parseCadence(element, "Cadence"),
+        textEvents,
+        zwoAttributes,
       });
       break;
     }
 
-    case "freeride": {
+    case "freeride":
+    case "intfreeride": {
+      // IntFreeRide is the same as FreeRide but used within interval blocks
       const duration = parseInt(element.getAttribute("Duration") || "0");
 
       segments.push({
         id: generateId(),
-        type: "recovery",
+        type: "freeride",
         duration,
         targetPower: {
           type: "percent_ftp",
-          value: 50,
+          value: DEFAULT_FREE_RIDE_INTENSITY,
         },
-        instructions: "Free ride - choose your own intensity",
+        cadenceTarget: parseCadence(element, "Cadence"),
+        textEvents,
+        zwoAttributes,
       });
       break;
     }
@@ -134,38 +168,37 @@ function parseZwoElement(element: Element): Segment[] {
       const offDuration = parseInt(element.getAttribute("OffDuration") || "0");
       const onPower = parseFloat(element.getAttribute("OnPower") || "1") * 100;
       const offPower = parseFloat(element.getAttribute("OffPower") || "0.5") * 100;
-      const cadence = element.getAttribute("Cadence");
-      const cadenceResting = element.getAttribute("CadenceResting");
-
-      for (let i = 0; i < repeat; i++) {
-        // On interval
-        segments.push({
-          id: generateId(),
-          type: "interval",
-          duration: onDuration,
-          targetPower: {
-            type: "percent_ftp",
-            value: Math.round(onPower),
+
+      // Kept as a block so the export can write the IntervalsT back out
+      segments.push({
+        id: generateId(),
+        type: "block",
+        repeat,
+        segments: [
+          {
+            id: generateId(),
+            type: "interval",
+            duration: onDuration,
+            targetPower: {
+              type: "percent_ftp",
+              value: Math.round(onPower),
+            },
+            cadenceTarget: parseCadence(element, "Cadence"),
           },
-          cadenceTarget: cadence
-            ? { min: parseInt(cadence), max: parseInt(cadence) + 10 }
-            : undefined,
-        });
-
-        // Off interval (recovery)
-        segments.push({
-          id: generateId(),
-          type: "recovery",
-          duration: offDuration,
-          targetPower: {
-            type: "percent_ftp",
-            value: Math.round(offPower),
+          {
+            id: generateId(),
+            type: "recovery",
+            duration: offDuration,
+            targetPower: {
+              type: "percent_ftp",
+              value: Math.round(offPower),
+            },
+            cadenceTarget: parseCadence(element, "CadenceResting"),
           },
-          cadenceTarget: cadenceResting
-            ? { min: parseInt(cadenceResting), max: parseInt(cadenceResting) + 10 }
-            : undefined,
-        });
-      }
+        ],
+        textEvents,
+        zwoAttributes,
+      });
       break;
     }
 
@@ -174,31 +207,19 @@ function parseZwoElement(element: Element): Segment[] {
       const powerLow = parseFloat(element.getAttribute("PowerLow") || "0.5") * 100;
       const powerHigh = parseFloat(element.getAttribute("PowerHigh") || "1") * 100;
 
+      // Not a warmup/cooldown, so the export writes a Ramp again
       segments.push({
         id: generateId(),
-        type: powerHigh > powerLow ? "warmup" : "cooldown",
+        type: "steady",
         duration,
         targetPower: {
           type: "percent_ftp",
           value: Math.round(powerLow),
           valueHigh: Math.round(powerHigh),
         },
-      });
-      break;
-    }
-
-    case "intfreeride": {
-      // IntFreeRide is similar to FreeRide but used within interval blocks
-      const duration = parseInt(element.getAttribute("Duration") || "0");
-
-      segments.push({
-        id: generateId(),
-        type: "recovery",
-        duration,
-        targetPower: {
-          type: "percent_ftp",
-          value: 50,
-        },
+        cadenceTarget: parseCadence(element, "Cadence"),
+        textEvents,
+        zwoAttributes,
       });
       break;
     }
@@ -211,3 +232,52 @@ function parseZwoElement(element: Element): Segment[] {
 
   return segments;
 }
+
+/**
+ * Read a cadence attribute, or its Low/High pair (e.g. CadenceLow/CadenceHigh)
+ */
+function parseCadence(element: Element, attribute: string): CadenceTarget | undefined {
+  const exact = element.getAttribute(attribute);
+  if (exact) {
+    const cadence = parseInt(exact);
+    return { min: cadence, max: cadence };
+  }
+
+  const low = element.getAttribute(`${attribute}Low`);
+  const high = element.getAttribute(`${attribute}High`);
+  if (low && high) {
+    return { min: parseInt(low), max: parseInt(high) };
+  }
+
+  return undefined;
+}
+
+function parseUnknownAttributes(element: Element): Record<string, string> | undefined {
+  const attributes: Record<string, string> = {};
+  for (const attribute of Array.from(element.attributes)) {
+    if (!KNOWN_ATTRIBUTES.has(attribute.name)) {
+      attributes[attribute.name] = attribute.value;
+    }
+  }
+  return Object.keys(attributes).length > 0 ? attributes : undefined;
+}
+
+function parseTextEvents(element: Element): TextEvent[] | undefined {
+  const events: TextEvent[] = [];
+
+  for (const child of Array.from(element.children)) {
+    if (child.tagName.toLowerCase() !== "textevent") continue;
+
+    const message = child.getAttribute("message");
+    if (!message) continue;
+
+    const duration = child.getAttribute("duration");
+    events.push({
+      timeOffset: parseInt(child.getAttribute("timeoffset") || "0"),
+      message,
+      ...(duration ? { duration: parseInt(duration) } : {}),
+    });
+  }
+
+  return events.length > 0 ? events : undefined;
+}
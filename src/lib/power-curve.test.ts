@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { RecordedDataPoint } from "@/types/trainer";
+import { Workout } from "@/types/workout";
+import { findPersonalBests, fitCriticalPower, PowerCurvePoint } from "./power-curve";
+import { calculateWorkoutSummary } from "./workout-storage";
+
+// Power for `seconds` at each wattage in turn, 1 Hz
+function record(...stretches: [watts: number, seconds: number][]): RecordedDataPoint[] {
+  const data: RecordedDataPoint[] = [];
+  for (const [watts, seconds] of stretches) {
+    for (let i = 0; i < seconds; i++) {
+      const elapsedTime = data.length + 1;
+      data.push({
+        timestamp: elapsedTime * 1000,
+        elapsedTime,
+        targetPower: 0,
+        actualPower: watts,
+        cadence: 90,
+        heartRate: null,
+        segmentIndex: 0,
+      });
+    }
+  }
+  return data;
+}
+
+function ride(id: string, startedAt: string, recordedData: RecordedDataPoint[], simulated?: boolean): Workout {
+  return {
+    id,
+    name: id,
+    description: "",
+    segments: [],
+    totalDuration: recordedData.length,
+    estimatedTSS: 0,
+    intensityFactor: 0,
+    createdAt: startedAt,
+    source: "file",
+    completion: {
+      startedAt,
+      completedAt: startedAt,
+      summary: calculateWorkoutSummary(recordedData, 250),
+      recordedData,
+      ...(simulated ? { simulated } : {}),
+    },
+  };
+}
+
+describe("fitCriticalPower", () => {
+  // P(t) = CP + W'/t
+  const curveFor = (cp: number, wPrime: number, durations: number[]): PowerCurvePoint[] =>
+    durations.map((duration) => ({ duration, power: cp + wPrime / duration }));
+
+  it("recovers CP and W' from an all-out curve", () => {
+    const model = fitCriticalPower(curveFor(260, 20000, [180, 300, 600, 1200]));
+    expect(model).toEqual({ cp: 260, wPrime: 20000, suggestedFtp: 247 });
+  });
+
+  it("fits only the 3-20 minute efforts", () => {
+    const curve = [
+      { duration: 5, power: 1100 },
+      { duration: 60, power: 520 },
+      ...curveFor(300, 15000, [180, 600]),
+      { duration: 3600, power: 240 },
+    ];
+    expect(fitCriticalPower(curve)).toEqual({ cp: 300, wPrime: 15000, suggestedFtp: 285 });
+  });
+
+  it("stays close on a curve rounded to whole watts", () => {
+    const curve = curveFor(245, 18000, [180, 300, 600, 1200]).map((p) => ({ ...p, power: Math.round(p.power) }));
+    const model = fitCriticalPower(curve);
+    expect(model?.cp).toBeCloseTo(245, -1);
+    expect(Math.abs((model?.wPrime ?? 0) - 18000)).toBeLessThan(200);
+  });
+
+  it("needs two efforts in range", () => {
+    expect(fitCriticalPower(curveFor(260, 20000, [60, 300, 3600]))).toBeNull();
+    expect(fitCriticalPower([])).toBeNull();
+  });
+
+  it("gives up when the curve doesn't fit the model", () => {
+    // Less work over 20 minutes than over 3 - CP would be negative
+    expect(fitCriticalPower([{ duration: 180, power: 1000 }, { duration: 1200, power: 100 }])).toBeNull();
+    // Power rising with duration - W' would be negative
+    expect(fitCriticalPower([{ duration: 180, power: 200 }, { duration: 1200, power: 250 }])).toBeNull();
+  });
+});
+
+describe("findPersonalBests", () => {
+  const steady = ride("steady", "2026-10-01T06:00:00Z", record([250, 700]));
+  // A minute's surge, then easy
+  const surge = ride("surge", "2026-10-02T06:00:00Z", record([400, 60], [100, 640]));
+  const surgeDurations = [5, 10, 15, 30, 60];
+
+  it("sets nothing on the first ride", () => {
+    expect(findPersonalBests(steady, [steady])).toEqual([]);
+    expect(findPersonalBests(surge, [surge])).toEqual([]);
+  });
+
+  it("records the durations that beat every earlier ride", () => {
+    const bests = findPersonalBests(surge, [steady, surge]);
+    expect(bests.map((p) => p.duration)).toEqual(surgeDurations);
+    expect(bests.every((p) => p.power === 400)).toBe(true);
+  });
+
+  it("needs to beat the earlier best, not match it", () => {
+    const again = ride("again", "2026-10-03T06:00:00Z", record([250, 700]));
+    expect(findPersonalBests(again, [steady, again])).toEqual([]);
+  });
+
+  it("leaves simulated rides out on both sides", () => {
+    const simulatedSurge = { ...surge, id: "sim", completion: { ...surge.completion!, simulated: true } };
+    const simulatedBig = ride("sim-big", "2026-09-30T06:00:00Z", record([600, 700]), true);
+
+    expect(findPersonalBests(simulatedSurge, [steady, simulatedSurge])).toEqual([]);
+    expect(findPersonalBests(surge, [simulatedBig, steady, surge]).map((p) => p.duration)).toEqual(surgeDurations);
+    // A simulated ride alone is nothing to beat
+    expect(findPersonalBests(surge, [simulatedBig, surge])).toEqual([]);
+  });
+
+  it("only compares with rides started before it", () => {
+    const later = ride("later", "2026-10-05T06:00:00Z", record([500, 700]));
+    const unridden: Workout = { ...steady, id: "plan", completion: undefined };
+
+    expect(findPersonalBests(surge, [steady, surge, later, unridden]).map((p) => p.duration)).toEqual(surgeDurations);
+    expect(findPersonalBests(later, [steady, surge, later]).map((p) => p.duration)).toEqual([
+      5, 10, 15, 30, 60, 120, 180, 300, 600,
+    ]);
+  });
+});
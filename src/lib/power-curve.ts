@@ -0,0 +1,142 @@
+import { Workout } from "@/types/workout";
+import { RecordedDataPoint } from "@/types/trainer";
+import { toSecondRuns, getBestAverage } from "@/lib/rolling-metrics";
+
+// Mean-maximal power curve
+// The best average for each duration comes from the rolling-window engine,
+// which spreads stored 5-second averages back out to one value per second.
+
+export const POWER_CURVE_DURATIONS = [
+  5, 10, 15, 30, 60, 120, 180, 300, 600, 1200, 1800, 3600, 5400, 7200,
+];
+
+// Efforts between these durations are fitted for critical power - shorter
+// ones are anaerobic-limited, longer ones fatigue-limited
+const CP_MIN_DURATION = 180;
+const CP_MAX_DURATION = 1200;
+const CP_TO_FTP = 0.95;
+
+export interface PowerCurvePoint {
+  duration: number; // seconds
+  power: number; // watts
+}
+
+export interface BestEffort extends PowerCurvePoint {
+  workoutId: string;
+  workoutName: string;
+  date: string; // completion start, ISO
+}
+
+export interface CriticalPowerModel {
+  cp: number; // watts sustainable "indefinitely"
+  wPrime: number; // joules available above CP
+  suggestedFtp: number;
+}
+
+/**
+ * Best average power for each standard duration the ride is long enough for
+ */
+export function calculatePowerCurve(data: RecordedDataPoint[]): PowerCurvePoint[] {
+  const runs = toSecondRuns(data, (point) => point.actualPower);
+
+  const curve: PowerCurvePoint[] = [];
+  for (const duration of POWER_CURVE_DURATIONS) {
+    const best = getBestAverage(runs, duration);
+    if (best === null) break;
+    if (best > 0) {
+      curve.push({ duration, power: Math.round(best) });
+    }
+  }
+  return curve;
+}
+
+/**
+ * Best effort at each duration across completed workouts, leaving out
+ * simulated ones, optionally only those started on or after `since`
+ */
+export function buildPowerCurve(workouts: Workout[], since?: Date): BestEffort[] {
+  const best = new Map<number, BestEffort>();
+
+  for (const workout of workouts) {
+    const completion = workout.completion;
+    if (!completion || completion.simulated) continue;
+    if (since && new Date(completion.startedAt) < since) continue;
+
+    for (const point of calculatePowerCurve(completion.recordedData)) {
+      const current = best.get(point.duration);
+      if (!current || point.power > current.power) {
+        best.set(point.duration, {
+          ...point,
+          workoutId: workout.id,
+          workoutName: workout.name,
+          date: completion.startedAt,
+        });
+      }
+    }
+  }
+
+  return POWER_CURVE_DURATIONS.filter((d) => best.has(d)).map((d) => best.get(d)!);
+}
+
+/**
+ * Durations where a completed workout beat every ride before it. The first
+ * ride has nothing to beat and sets no records, nor do simulated ones
+ */
+export function findPersonalBests(workout: Workout, workouts: Workout[]): PowerCurvePoint[] {
+  const completion = workout.completion;
+  if (!completion || completion.simulated) return [];
+
+  const startedAt = new Date(completion.startedAt);
+  const earlier = workouts.filter(
+    (w) =>
+      w.id !== workout.id &&
+      w.completion &&
+      !w.completion.simulated &&
+      new Date(w.completion.startedAt) < startedAt
+  );
+  if (earlier.length === 0) return [];
+
+  const previousBest = new Map(buildPowerCurve(earlier).map((effort) => [effort.duration, effort.power]));
+  return calculatePowerCurve(completion.recordedData).filter(
+    (point) => point.power > (previousBest.get(point.duration) ?? 0)
+  );
+}
+
+/**
+ * Fit the two-parameter critical power model (work = CP * t + W') to the
+ * curve's 3-20 minute efforts by least squares. Needs at least two of them
+ */
+export function fitCriticalPower(curve: PowerCurvePoint[]): CriticalPowerModel | null {
+  const points = curve.filter((p) => p.duration >= CP_MIN_DURATION && p.duration <= CP_MAX_DURATION);
+  if (points.length < 2) return null;
+
+  const n = points.length;
+  const meanT = points.reduce((sum, p) => sum + p.duration, 0) / n;
+  const meanWork = points.reduce((sum, p) => sum + p.power * p.duration, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of points) {
+    covariance += (p.duration - meanT) * (p.power * p.duration - meanWork);
+    variance += (p.duration - meanT) ** 2;
+  }
+
+  const cp = covariance / variance;
+  const wPrime = meanWork - cp * meanT;
+  // Efforts that weren't all-out can give a curve the model can't describe
+  if (cp <= 0 || wPrime <= 0) return null;
+
+  return {
+    cp: Math.round(cp),
+    wPrime: Math.round(wPrime),
+    suggestedFtp: Math.round(cp * CP_TO_FTP),
+  };
+}
+
+/**
+ * Short label for an effort duration - 5s, 20m, 1.5h
+ */
+export function formatEffortDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${seconds / 60}m`;
+  return `${seconds / 3600}h`;
+}
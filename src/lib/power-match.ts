@@ -0,0 +1,59 @@
+import { PowerMatchSettings } from "@/types/trainer";
+
+// Power match
+// Trainers and power meters commonly disagree by a few percent, roughly in
+// proportion to power. Both readings are smoothed and their ratio scales the
+// ERG target, so the trainer holds whatever it has to for the power meter to
+// read the target.
+
+// Below this the ratio is mostly noise (freewheeling, stopping)
+const MIN_MATCH_POWER = 50; // watts
+
+export interface PowerMatchState {
+  trainerPower: number | null; // smoothed watts
+  meterPower: number | null;   // smoothed watts
+}
+
+export function createPowerMatchState(): PowerMatchState {
+  return { trainerPower: null, meterPower: null };
+}
+
+/**
+ * Fold a pair of readings `dt` seconds after the last into the smoothed
+ * powers. Readings where either side is missing or too low are skipped
+ */
+export function updatePowerMatch(
+  state: PowerMatchState,
+  trainerPower: number | null,
+  meterPower: number | null,
+  settings: PowerMatchSettings,
+  dt: number
+): PowerMatchState {
+  if (trainerPower === null || meterPower === null) return state;
+  if (trainerPower < MIN_MATCH_POWER || meterPower < MIN_MATCH_POWER) return state;
+  if (state.trainerPower === null || state.meterPower === null) {
+    return { trainerPower, meterPower };
+  }
+
+  const weight = 1 - Math.exp(-Math.max(0, dt) / Math.max(1, settings.smoothingSeconds));
+  return {
+    trainerPower: state.trainerPower + (trainerPower - state.trainerPower) * weight,
+    meterPower: state.meterPower + (meterPower - state.meterPower) * weight,
+  };
+}
+
+/**
+ * Watts to send the trainer for the power meter to read `targetWatts`,
+ * within the maximum correction either way
+ */
+export function getPowerMatchTarget(
+  targetWatts: number,
+  state: PowerMatchState,
+  settings: PowerMatchSettings
+): number {
+  if (targetWatts <= 0 || !state.trainerPower || !state.meterPower) return targetWatts;
+
+  const maxCorrection = (settings.maxCorrectionPercent / 100) * targetWatts;
+  const correction = targetWatts * (state.trainerPower / state.meterPower) - targetWatts;
+  return Math.round(targetWatts + Math.max(-maxCorrection, Math.min(maxCorrection, correction)));
+}
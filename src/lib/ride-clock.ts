@@ -0,0 +1,59 @@
+// Ride clock
+// Timers on the page are throttled when the tab is in the background or the
+// screen is locked - Chrome can hold them to once a minute - which starves
+// recording and ERG updates. Timers in a dedicated worker aren't throttled
+// that way, so the clock ticks from a small inline worker and only falls back
+// to a page timer where workers aren't available.
+
+const WORKER_SOURCE = `
+let timer = null;
+self.onmessage = (event) => {
+  clearInterval(timer);
+  timer = event.data > 0 ? setInterval(() => self.postMessage("tick"), event.data) : null;
+};
+`;
+
+export interface RideClock {
+  start: () => void;
+  stop: () => void;
+}
+
+export function createRideClock(onTick: () => void, intervalMs: number = 1000): RideClock {
+  let worker: Worker | null = null;
+  let workerUrl: string | null = null;
+  let fallbackTimer: ReturnType<typeof setInterval> | null = null;
+
+  const start = () => {
+    stop();
+    if (typeof Worker !== "undefined") {
+      try {
+        workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: "text/javascript" }));
+        worker = new Worker(workerUrl);
+        worker.onmessage = () => onTick();
+        worker.postMessage(intervalMs);
+        return;
+      } catch (err) {
+        console.error("Ride clock worker unavailable, using a page timer:", err);
+        stop();
+      }
+    }
+    fallbackTimer = setInterval(onTick, intervalMs);
+  };
+
+  const stop = () => {
+    if (worker) {
+      worker.terminate();
+      worker = null;
+    }
+    if (workerUrl) {
+      URL.revokeObjectURL(workerUrl);
+      workerUrl = null;
+    }
+    if (fallbackTimer) {
+      clearInterval(fallbackTimer);
+      fallbackTimer = null;
+    }
+  };
+
+  return { start, stop };
+}
@@ -0,0 +1,130 @@
+import { Workout } from "@/types/workout";
+import { PlayerState, RecordedDataPoint } from "@/types/trainer";
+
+// Crash-safe recording
+// The ride in progress lives in IndexedDB so a crashed tab, a reload or a
+// laptop going to sleep doesn't lose it. The workout and the other details
+// fixed for the ride are written once when it starts; the player's progress
+// is one small record rewritten as the ride goes, and samples are appended to
+// their own store so each save only writes what's new, however long the ride.
+
+const DB_NAME = "browserturbo";
+const DB_VERSION = 1;
+const RIDE_STORE = "active-ride";
+const SAMPLE_STORE = "active-ride-samples";
+const INFO_KEY = "info";
+const PROGRESS_KEY = "progress";
+
+// Fixed for the ride - the simulated flag is the only thing that changes
+export interface ActiveRideInfo {
+  workout: Workout;
+  startedAt: string; // ISO
+  ftp: number; // FTP the targets were worked out from
+  simulated?: boolean; // virtual devices were used
+}
+
+export interface ActiveRideProgress {
+  updatedAt: string; // ISO
+  playerState: PlayerState;
+  virtualDistance: number; // metres
+  intensityOffset: number;
+}
+
+export interface ActiveRide extends ActiveRideInfo, ActiveRideProgress {
+  recordedData: RecordedDataPoint[];
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RIDE_STORE)) {
+          db.createObjectStore(RIDE_STORE);
+        }
+        if (!db.objectStoreNames.contains(SAMPLE_STORE)) {
+          db.createObjectStore(SAMPLE_STORE, { autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error ?? new Error("Failed to open IndexedDB"));
+      };
+    });
+  }
+  return databasePromise;
+}
+
+function completeTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+/**
+ * Save the ride's fixed details. `restart` drops the progress and samples of
+ * whatever ride was saved before
+ */
+export async function saveActiveRideInfo(info: ActiveRideInfo, restart = false): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RIDE_STORE, SAMPLE_STORE], "readwrite");
+  const rides = transaction.objectStore(RIDE_STORE);
+  if (restart) {
+    rides.clear();
+    transaction.objectStore(SAMPLE_STORE).clear();
+  }
+  rides.put(info, INFO_KEY);
+  return completeTransaction(transaction);
+}
+
+/**
+ * Save the player's progress and append samples recorded since the last save
+ */
+export async function saveActiveRideProgress(
+  progress: ActiveRideProgress,
+  newSamples: RecordedDataPoint[]
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RIDE_STORE, SAMPLE_STORE], "readwrite");
+  const samples = transaction.objectStore(SAMPLE_STORE);
+  for (const sample of newSamples) {
+    samples.add(sample);
+  }
+  transaction.objectStore(RIDE_STORE).put(progress, PROGRESS_KEY);
+  return completeTransaction(transaction);
+}
+
+/**
+ * The ride left unfinished last time, or null if there isn't one
+ */
+export async function loadActiveRide(): Promise<ActiveRide | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RIDE_STORE, SAMPLE_STORE], "readonly");
+  const rides = transaction.objectStore(RIDE_STORE);
+  const infoRequest = rides.get(INFO_KEY);
+  const progressRequest = rides.get(PROGRESS_KEY);
+  const samplesRequest = transaction.objectStore(SAMPLE_STORE).getAll();
+  await completeTransaction(transaction);
+
+  const info = infoRequest.result as ActiveRideInfo | undefined;
+  const progress = progressRequest.result as ActiveRideProgress | undefined;
+  if (!info || !progress) return null;
+  return { ...info, ...progress, recordedData: samplesRequest.result as RecordedDataPoint[] };
+}
+
+export async function clearActiveRide(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RIDE_STORE, SAMPLE_STORE], "readwrite");
+  transaction.objectStore(RIDE_STORE).clear();
+  transaction.objectStore(SAMPLE_STORE).clear();
+  return completeTransaction(transaction);
+}
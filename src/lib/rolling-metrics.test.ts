@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { RecordedDataPoint } from "@/types/trainer";
+import { getBestAverage, getRunLength, toSecondRuns } from "./rolling-metrics";
+import { calculateNormalizedPower, calculatePeakPower } from "./workout-storage";
+import { calculatePowerZoneTimes } from "./zones";
+
+// Power sampled `hz` times a second, each second's watts held for all of its samples
+function record(watts: number[], hz = 1): RecordedDataPoint[] {
+  const data: RecordedDataPoint[] = [];
+  watts.forEach((power, second) => {
+    for (let i = 0; i < hz; i++) {
+      const elapsedTime = second + (i + 1) / hz;
+      data.push({
+        timestamp: elapsedTime * 1000,
+        elapsedTime,
+        targetPower: 0,
+        actualPower: power,
+        cadence: 90,
+        heartRate: null,
+        segmentIndex: 0,
+      });
+    }
+  });
+  return data;
+}
+
+function constant(watts: number, seconds: number): number[] {
+  return Array.from({ length: seconds }, () => watts);
+}
+
+// A ride with surges and noise, the same every run
+function intervalRide(): number[] {
+  let seed = 42;
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return (seed / 2147483648 - 0.5) * 40;
+  };
+  const watts = [...constant(150, 600)];
+  for (let i = 0; i < 5; i++) {
+    watts.push(...constant(400, 60), ...constant(120, 60));
+  }
+  watts.push(...constant(150, 600));
+  return watts.map((w) => Math.round(w + noise()));
+}
+
+// Straightforward O(n * window) versions to check the engine against
+function referenceNormalizedPower(watts: number[]): number {
+  let total = 0;
+  let count = 0;
+  for (let end = 30; end <= watts.length; end++) {
+    const average = watts.slice(end - 30, end).reduce((a, b) => a + b, 0) / 30;
+    total += Math.pow(average, 4);
+    count++;
+  }
+  return Math.round(Math.pow(total / count, 0.25));
+}
+
+function referencePeak(watts: number[], duration: number): number {
+  let best = 0;
+  for (let end = duration; end <= watts.length; end++) {
+    best = Math.max(best, watts.slice(end - duration, end).reduce((a, b) => a + b, 0) / duration);
+  }
+  return Math.round(best);
+}
+
+describe("rolling metrics", () => {
+  it("gives steady power as its own NP and peaks", () => {
+    const data = record(constant(200, 1200));
+    expect(calculateNormalizedPower(data)).toBe(200);
+    expect(calculatePeakPower(data, 5)).toBe(200);
+    expect(calculatePeakPower(data, 1200)).toBe(200);
+    expect(calculatePeakPower(data, 1201)).toBeNull();
+  });
+
+  it("matches the reference for a two-block ride", () => {
+    // 10 min at 300 W then 10 min at 100 W
+    const watts = [...constant(300, 600), ...constant(100, 600)];
+    const data = record(watts);
+    expect(calculateNormalizedPower(data)).toBe(referenceNormalizedPower(watts));
+    expect(calculateNormalizedPower(data)).toBe(252);
+    expect(calculatePeakPower(data, 600)).toBe(300);
+    expect(calculatePeakPower(data, 1200)).toBe(200);
+  });
+
+  it("matches the reference NP and peak powers on an interval ride", () => {
+    const watts = intervalRide();
+    const data = record(watts);
+    expect(calculateNormalizedPower(data)).toBe(referenceNormalizedPower(watts));
+    for (const duration of [5, 30, 60, 300, 1200]) {
+      expect(calculatePeakPower(data, duration)).toBe(referencePeak(watts, duration));
+    }
+  });
+
+  it.each([2, 3, 4])("gives %i Hz data the same results as 1 Hz data", (hz) => {
+    const watts = intervalRide();
+    const data = record(watts, hz);
+
+    const runs = toSecondRuns(data, (point) => point.actualPower);
+    expect(runs).toHaveLength(1);
+    expect(getRunLength(runs[0])).toBe(watts.length);
+    expect(calculateNormalizedPower(data)).toBe(referenceNormalizedPower(watts));
+    expect(calculatePeakPower(data, 60)).toBe(referencePeak(watts, 60));
+    expect(calculatePowerZoneTimes(data, 250)).toEqual(calculatePowerZoneTimes(record(watts), 250));
+  });
+
+  it("time-weights samples that don't line up with whole seconds", () => {
+    // 400 W for 0.75 s then 200 W for 0.25 s, over and over
+    const data: RecordedDataPoint[] = [];
+    for (let second = 0; second < 120; second++) {
+      data.push({ ...record([400])[0], elapsedTime: second + 0.75 });
+      data.push({ ...record([200])[0], elapsedTime: second + 1 });
+    }
+    expect(calculatePeakPower(data, 60)).toBe(350);
+  });
+
+  it("spreads stored 5-second averages back out to one value a second", () => {
+    // 5 min at 250 W then 5 min at 150 W, as stored after a ride
+    const stored = record([...constant(250, 60), ...constant(150, 60)]).map((point) => ({
+      ...point,
+      elapsedTime: point.elapsedTime * 5,
+    }));
+    expect(getRunLength(toSecondRuns(stored, (point) => point.actualPower)[0])).toBe(600);
+    expect(calculatePeakPower(stored, 300)).toBe(250);
+    expect(calculatePeakPower(stored, 600)).toBe(200);
+    expect(calculatePowerZoneTimes(stored, 250)).toEqual(calculatePowerZoneTimes(
+      record([...constant(250, 300), ...constant(150, 300)]), 250
+    ));
+  });
+
+  it("never lets a window span a gap", () => {
+    const data = record(constant(300, 80));
+    data[40] = { ...data[40], gap: true };
+    const runs = toSecondRuns(data, (point) => point.actualPower);
+    expect(runs.map(getRunLength)).toEqual([40, 39]); // the sample after a gap covers no time
+    expect(getBestAverage(runs, 60)).toBeNull();
+    expect(calculatePeakPower(data, 30)).toBe(300);
+  });
+
+  it("splits runs on a jump longer than the sample gap limit", () => {
+    const first = record(constant(200, 30));
+    const second = record(constant(200, 30)).map((point) => ({ ...point, elapsedTime: point.elapsedTime + 60 }));
+    const runs = toSecondRuns([...first, ...second], (point) => point.actualPower);
+    expect(runs.map(getRunLength)).toEqual([30, 29]);
+  });
+});
@@ -0,0 +1,128 @@
+import { RecordedDataPoint } from "@/types/trainer";
+
+// Rolling-window engine
+// Recorded data is resampled to one value per second - each sample covers
+// the time since the one before it, so live 1-second data, faster sensor data
+// and stored 5-second averages line up. Samples under a second apart are
+// time-weighted into the second they fall in. A sample flagged as a gap, a jump longer than
+// MAX_SAMPLE_GAP (a skipped segment) or a step back in time ends the current
+// run; windows never span two runs. Averages over a window come from running
+// sums, so every metric is a single pass however long the ride.
+
+export const MAX_SAMPLE_GAP = 10; // seconds
+
+// Float error allowed when deciding a second is filled
+const SECOND_EPSILON = 1e-6;
+
+// Running sums over one contiguous run of 1-second values - sums[i] is the
+// total of the first i values
+export type SecondRun = Float64Array;
+
+/**
+ * Seconds a sample covers - the time since the one before it, or 0 when it
+ * follows a gap. The first sample takes the usual spacing
+ */
+export function getSampleSeconds(data: RecordedDataPoint[], index: number): number {
+  if (index === 0) return data.length > 1 ? getSampleSeconds(data, 1) : 1;
+  if (data[index].gap) return 0;
+  const gap = data[index].elapsedTime - data[index - 1].elapsedTime;
+  return gap > 0 && gap <= MAX_SAMPLE_GAP ? gap : 0;
+}
+
+/**
+ * Split a recording into runs of 1-second values, given as running sums.
+ * Samples without a value count as 0 (coasting, a dropped reading). A second
+ * left part-filled when a run ends is dropped
+ */
+export function toSecondRuns(
+  data: RecordedDataPoint[],
+  getValue: (point: RecordedDataPoint) => number | null
+): SecondRun[] {
+  const runs: SecondRun[] = [];
+  let values: number[] = [];
+  // The second being filled - how much of it is covered, and the weighted total
+  let filled = 0;
+  let partial = 0;
+
+  const endRun = () => {
+    filled = 0;
+    partial = 0;
+    if (values.length === 0) return;
+    const sums = new Float64Array(values.length + 1);
+    for (let i = 0; i < values.length; i++) {
+      sums[i + 1] = sums[i] + values[i];
+    }
+    runs.push(sums);
+    values = [];
+  };
+
+  for (let i = 0; i < data.length; i++) {
+    let remaining = getSampleSeconds(data, i);
+    if (remaining <= 0) {
+      endRun();
+      continue;
+    }
+    const value = getValue(data[i]) ?? 0;
+    while (remaining > SECOND_EPSILON) {
+      const take = Math.min(1 - filled, remaining);
+      partial += value * take;
+      filled += take;
+      remaining -= take;
+      if (filled >= 1 - SECOND_EPSILON) {
+        values.push(partial);
+        filled = 0;
+        partial = 0;
+      }
+    }
+  }
+  endRun();
+  return runs;
+}
+
+export function getRunLength(run: SecondRun): number {
+  return run.length - 1;
+}
+
+/**
+ * Highest average over any `duration` seconds inside a single run. Null when
+ * no run is that long
+ */
+export function getBestAverage(runs: SecondRun[], duration: number): number | null {
+  let best: number | null = null;
+  for (const sums of runs) {
+    for (let end = duration; end < sums.length; end++) {
+      const average = (sums[end] - sums[end - duration]) / duration;
+      if (best === null || average > best) best = average;
+    }
+  }
+  return best;
+}
+
+/**
+ * Call `visit` with the trailing `window`-second average at every second
+ * where a full window fits inside the run
+ */
+export function forEachRollingAverage(
+  runs: SecondRun[],
+  window: number,
+  visit: (average: number) => void
+): void {
+  for (const sums of runs) {
+    for (let end = window; end < sums.length; end++) {
+      visit((sums[end] - sums[end - window]) / window);
+    }
+  }
+}
+
+/**
+ * Average value across all runs - null when there is no data
+ */
+export function getRunsAverage(runs: SecondRun[]): number | null {
+  let total = 0;
+  let seconds = 0;
+  for (const sums of runs) {
+    total += sums[sums.length - 1];
+    seconds += getRunLength(sums);
+  }
+  return seconds > 0 ? total / seconds : null;
+}
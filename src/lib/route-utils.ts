@@ -0,0 +1,49 @@
+import { Route, RoutePoint } from "@/types/workout";
+
+const EARTH_RADIUS = 6371000; // metres
+
+/**
+ * Great-circle distance between two coordinates in metres
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Position on the route a given distance from the start, interpolated
+ * between track points and clamped to the route ends
+ */
+export function getRoutePointAt(route: Route, distance: number): RoutePoint {
+  const { points } = route;
+  if (distance <= 0) return points[0];
+  if (distance >= route.totalDistance) return points[points.length - 1];
+
+  // Binary search for the last point at or before the distance
+  let low = 0;
+  let high = points.length - 1;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (points[mid].distance <= distance) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const from = points[low];
+  const to = points[high];
+  const span = to.distance - from.distance;
+  const t = span > 0 ? (distance - from.distance) / span : 0;
+  return {
+    lat: from.lat + (to.lat - from.lat) * t,
+    lon: from.lon + (to.lon - from.lon) * t,
+    elevation: from.elevation + (to.elevation - from.elevation) * t,
+    distance,
+  };
+}
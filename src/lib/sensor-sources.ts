@@ -0,0 +1,69 @@
+import {
+  CadenceSource,
+  HeartRateSource,
+  PowerSource,
+  SensorSources,
+  TrainerMetrics,
+} from "@/types/trainer";
+
+// Sensor sources
+// Each metric is read from the source the rider picked. When that source
+// has nothing (not paired, or dropped out) the next one that does fills in,
+// so a dead cadence sensor doesn't blank cadence the trainer also reports.
+
+export const POWER_SOURCE_LABELS: Record<PowerSource, string> = {
+  trainer: "Trainer",
+  power_meter: "Power meter",
+};
+
+export const CADENCE_SOURCE_LABELS: Record<CadenceSource, string> = {
+  trainer: "Trainer",
+  power_meter: "Power meter",
+  speed_cadence: "Cadence sensor",
+};
+
+export const HEART_RATE_SOURCE_LABELS: Record<HeartRateSource, string> = {
+  heart_rate_monitor: "HR monitor",
+  trainer: "Trainer",
+};
+
+export interface SensorReadings {
+  trainer: TrainerMetrics;
+  powerMeter: TrainerMetrics;
+  speedCadence: TrainerMetrics;
+  heartRateMonitor: number | null;
+}
+
+function pickValue<S extends string>(
+  preferred: S,
+  values: Record<S, number | null>
+): number | null {
+  const value = values[preferred];
+  if (value !== null) return value;
+  for (const source of Object.keys(values) as S[]) {
+    if (values[source] !== null) return values[source];
+  }
+  return null;
+}
+
+export function combineSensorMetrics(sources: SensorSources, readings: SensorReadings): TrainerMetrics {
+  const { trainer, powerMeter, speedCadence, heartRateMonitor } = readings;
+
+  return {
+    power: pickValue<PowerSource>(sources.power, {
+      trainer: trainer.power,
+      power_meter: powerMeter.power,
+    }),
+    cadence: pickValue<CadenceSource>(sources.cadence, {
+      trainer: trainer.cadence,
+      power_meter: powerMeter.cadence,
+      speed_cadence: speedCadence.cadence,
+    }),
+    speed: trainer.speed ?? speedCadence.speed,
+    heartRate: pickValue<HeartRateSource>(sources.heartRate, {
+      heart_rate_monitor: heartRateMonitor,
+      trainer: trainer.heartRate,
+    }),
+    timestamp: Math.max(trainer.timestamp, powerMeter.timestamp, speedCadence.timestamp),
+  };
+}
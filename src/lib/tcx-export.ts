@@ -1,5 +1,6 @@
 import { RecordedDataPoint } from "@/types/trainer";
-import { Segment } from "@/types/workout";
+import { Route, Segment } from "@/types/workout";
+import { getRoutePointAt } from "@/lib/route-utils";
 
 interface TCXExportOptions {
   workoutName: string;
@@ -7,6 +8,7 @@ interface TCXExportOptions {
   recordedData: RecordedDataPoint[];
   segments: Segment[];
   ftp: number;
+  route?: Route; // route rides get positions so the activity has a map
 }
 
 function formatTCXDateTime(date: Date): string {
@@ -28,6 +30,7 @@ export function generateTCX({
   recordedData,
   segments,
   ftp,
+  route,
 }: TCXExportOptions): string {
   if (recordedData.length === 0) {
     throw new Error("No recorded data to export");
@@ -84,7 +87,7 @@ export function generateTCX({
 
       trackpointsXml += `
           <Trackpoint>
-            <Time>${formatTCXDateTime(pointTime)}</Time>${
+            <Time>${formatTCXDateTime(pointTime)}</Time>${positionXml(point, route)}${
               point.heartRate !== null ? `
             <HeartRateBpm>
               <Value>${Math.round(point.heartRate)}</Value>
@@ -106,7 +109,7 @@ export function generateTCX({
     lapsXml += `
       <Lap StartTime="${formatTCXDateTime(lapStartTime)}">
         <TotalTimeSeconds>${lapDuration}</TotalTimeSeconds>
-        <DistanceMeters>0</DistanceMeters>
+        <DistanceMeters>${route ? lapDistance(points).toFixed(1) : 0}</DistanceMeters>
         <MaximumSpeed>0</MaximumSpeed>
         <Calories>0</Calories>${
           lapAvgHr > 0 ? `
@@ -176,6 +179,27 @@ export function generateTCX({
   return tcx;
 }
 
+// Position, altitude and distance along the route for a recorded point
+function positionXml(point: RecordedDataPoint, route?: Route): string {
+  if (!route || point.distance === undefined) return "";
+
+  const position = getRoutePointAt(route, point.distance);
+  return `
+            <Position>
+              <LatitudeDegrees>${position.lat.toFixed(7)}</LatitudeDegrees>
+              <LongitudeDegrees>${position.lon.toFixed(7)}</LongitudeDegrees>
+            </Position>
+            <AltitudeMeters>${position.elevation.toFixed(1)}</AltitudeMeters>
+            <DistanceMeters>${Math.min(point.distance, route.totalDistance).toFixed(1)}</DistanceMeters>`;
+}
+
+function lapDistance(points: RecordedDataPoint[]): number {
+  const first = points[0].distance;
+  const last = points[points.length - 1].distance;
+  if (first === undefined || last === undefined) return 0;
+  return Math.max(0, last - first);
+}
+
 export function downloadTCX(tcxContent: string, filename: string): void {
   const blob = new Blob([tcxContent], { type: "application/vnd.garmin.tcx+xml" });
   const url = URL.createObjectURL(blob);
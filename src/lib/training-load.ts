@@ -0,0 +1,62 @@
+import { Workout } from "@/types/workout";
+import { getDateKey } from "@/lib/workout-utils";
+
+// Performance management chart
+// Fitness (CTL) and fatigue (ATL) are exponentially weighted averages of daily
+// TSS over CTL_DAYS and ATL_DAYS. Form (TSB) is yesterday's fitness minus
+// yesterday's fatigue - how fresh the rider is going into the day.
+
+export const CTL_DAYS = 42;
+export const ATL_DAYS = 7;
+
+export interface TrainingLoadDay {
+  date: string; // YYYY-MM-DD
+  tss: number;
+  ctl: number; // fitness
+  atl: number; // fatigue
+  tsb: number; // form
+}
+
+/**
+ * Total actual TSS per local calendar day across completed workouts
+ */
+export function getDailyTSS(workouts: Workout[]): Map<string, number> {
+  const daily = new Map<string, number>();
+  for (const workout of workouts) {
+    const tss = workout.completion?.summary.actualTSS;
+    if (!workout.completion || workout.completion.simulated || !tss) continue;
+
+    const date = getDateKey(new Date(workout.completion.startedAt));
+    daily.set(date, (daily.get(date) ?? 0) + tss);
+  }
+  return daily;
+}
+
+/**
+ * Day-by-day training load from the first completed workout through `until`
+ * (today by default). Empty when nothing has been completed
+ */
+export function calculateTrainingLoad(workouts: Workout[], until: Date = new Date()): TrainingLoadDay[] {
+  const dailyTSS = getDailyTSS(workouts);
+  if (dailyTSS.size === 0) return [];
+
+  const firstDate = Array.from(dailyTSS.keys()).sort()[0];
+  const [year, month, day] = firstDate.split("-").map(Number);
+  const lastDate = getDateKey(until);
+
+  const days: TrainingLoadDay[] = [];
+  let ctl = 0;
+  let atl = 0;
+  // Step through local days - constructing each date avoids DST drift
+  for (let offset = 0; ; offset++) {
+    const date = getDateKey(new Date(year, month - 1, day + offset));
+    if (date > lastDate) break;
+
+    const tss = dailyTSS.get(date) ?? 0;
+    const tsb = ctl - atl;
+    ctl += (tss - ctl) / CTL_DAYS;
+    atl += (tss - atl) / ATL_DAYS;
+    days.push({ date, tss, ctl, atl, tsb });
+  }
+  return days;
+}
@@ -0,0 +1,168 @@
+import { SimulationParams, VirtualRiderModel } from "@/types/trainer";
+
+// Virtual rider
+// Stands behind the virtual trainer and HR monitor. Power settles on what the
+// trainer asks for (ERG) or what the rider chooses to push (resistance, SIM)
+// with a first-order lag, heart rate follows power more slowly, and the model
+// decides how the rider falls short.
+
+export const VIRTUAL_RIDER_MODELS: Record<VirtualRiderModel, { name: string; description: string }> = {
+  steady: {
+    name: "Steady",
+    description: "Holds every target",
+  },
+  fatiguing: {
+    name: "Fatiguing",
+    description: "Loses power and drifts in heart rate as the ride goes on",
+  },
+  dropouts: {
+    name: "Drops out",
+    description: "Sensor readings cut out every few minutes",
+  },
+  fails_intervals: {
+    name: "Fails intervals",
+    description: "Cracks partway through efforts above threshold",
+  },
+};
+
+const ERG_RESPONSE_SECONDS = 3; // time constant of the trainer settling on a target
+const RIDER_RESPONSE_SECONDS = 1.5;
+const HEART_RATE_RESPONSE_SECONDS = 30;
+const RESTING_HEART_RATE = 60;
+const THRESHOLD_HEART_RATE = 165;
+const POWER_NOISE = 0.04; // ± fraction of power
+
+// fatiguing - capacity starts just above FTP and falls, heart rate drifts up
+const FRESH_CAPACITY = 1.1; // × FTP
+const CAPACITY_LOSS_PER_HOUR = 0.15; // × FTP
+const HEART_RATE_DRIFT_PER_HOUR = 0.08;
+
+// fails_intervals - W' is spent above FTP; once empty the rider sags to
+// CRACKED_CAPACITY until half of it has come back
+const W_PRIME = 15000; // joules
+const W_PRIME_RECOVERY = 0.5; // fraction of the deficit below FTP recovered
+const CRACKED_CAPACITY = 0.8; // × FTP
+
+// dropouts - seconds between dropouts and how long they last
+const DROPOUT_INTERVAL = { min: 90, max: 240 };
+const DROPOUT_LENGTH = { min: 4, max: 15 };
+
+export type VirtualControl =
+  | { mode: "erg"; watts: number }
+  | { mode: "resistance"; level: number } // 0-100
+  | { mode: "simulation"; params: SimulationParams };
+
+export interface VirtualRiderState {
+  elapsed: number; // seconds since the devices connected
+  power: number; // watts before noise
+  heartRate: number;
+  wPrimeBalance: number; // joules
+  cracked: boolean;
+  nextDropoutAt: number;
+  dropoutUntil: number;
+}
+
+export interface VirtualRiderReading {
+  power: number | null;
+  cadence: number | null;
+  heartRate: number | null;
+}
+
+function randomBetween(range: { min: number; max: number }): number {
+  return range.min + Math.random() * (range.max - range.min);
+}
+
+export function createVirtualRiderState(): VirtualRiderState {
+  return {
+    elapsed: 0,
+    power: 0,
+    heartRate: RESTING_HEART_RATE,
+    wPrimeBalance: W_PRIME,
+    cracked: false,
+    nextDropoutAt: randomBetween(DROPOUT_INTERVAL),
+    dropoutUntil: 0,
+  };
+}
+
+// Power the rider sets out to ride - the trainer's target in ERG, otherwise
+// a comfortable effort for the resistance or gradient
+function getDemandedPower(control: VirtualControl, ftp: number): number {
+  switch (control.mode) {
+    case "erg":
+      return control.watts;
+    case "resistance":
+      return ftp * (0.5 + control.level / 200);
+    case "simulation": {
+      const grade = control.params.grade;
+      if (grade < -2) return ftp * 0.2;
+      return ftp * Math.max(0.4, Math.min(1.05, 0.7 + grade * 0.04));
+    }
+  }
+}
+
+function getCapacity(state: VirtualRiderState, model: VirtualRiderModel, ftp: number): number {
+  if (model === "fatiguing") {
+    return ftp * Math.max(0.5, FRESH_CAPACITY - CAPACITY_LOSS_PER_HOUR * (state.elapsed / 3600));
+  }
+  if (model === "fails_intervals" && state.cracked) {
+    return ftp * CRACKED_CAPACITY;
+  }
+  return Infinity;
+}
+
+/**
+ * Advance the rider by `dt` seconds under the trainer's current control
+ */
+export function stepVirtualRider(
+  state: VirtualRiderState,
+  model: VirtualRiderModel,
+  control: VirtualControl,
+  ftp: number,
+  dt: number
+): { state: VirtualRiderState; reading: VirtualRiderReading } {
+  const next = { ...state, elapsed: state.elapsed + dt };
+
+  const demand = Math.max(0, getDemandedPower(control, ftp));
+  const effort = Math.min(demand, getCapacity(state, model, ftp));
+  const responseSeconds = control.mode === "erg" ? ERG_RESPONSE_SECONDS : RIDER_RESPONSE_SECONDS;
+  next.power = state.power + (effort - state.power) * (1 - Math.exp(-dt / responseSeconds));
+
+  if (model === "fails_intervals") {
+    const deficit = next.power - ftp;
+    next.wPrimeBalance = Math.min(
+      W_PRIME,
+      state.wPrimeBalance - (deficit > 0 ? deficit : deficit * W_PRIME_RECOVERY) * dt
+    );
+    if (next.wPrimeBalance <= 0) {
+      next.cracked = true;
+    } else if (next.wPrimeBalance >= W_PRIME / 2) {
+      next.cracked = false;
+    }
+  }
+
+  const drift = model === "fatiguing" ? 1 + HEART_RATE_DRIFT_PER_HOUR * (next.elapsed / 3600) : 1;
+  const steadyHeartRate =
+    (RESTING_HEART_RATE + (THRESHOLD_HEART_RATE - RESTING_HEART_RATE) * (next.power / ftp)) * drift;
+  next.heartRate = state.heartRate +
+    (steadyHeartRate - state.heartRate) * (1 - Math.exp(-dt / HEART_RATE_RESPONSE_SECONDS));
+
+  if (model === "dropouts" && next.elapsed >= next.nextDropoutAt) {
+    next.dropoutUntil = next.elapsed + randomBetween(DROPOUT_LENGTH);
+    next.nextDropoutAt = next.dropoutUntil + randomBetween(DROPOUT_INTERVAL);
+  }
+  if (next.elapsed < next.dropoutUntil) {
+    return { state: next, reading: { power: null, cadence: null, heartRate: null } };
+  }
+
+  // Cadence sags when the rider can't turn over what's asked of them
+  const isStruggling = effort < demand * 0.9;
+  const power = Math.round(next.power * (1 + (Math.random() - 0.5) * POWER_NOISE));
+  return {
+    state: next,
+    reading: {
+      power: Math.max(0, power),
+      cadence: next.power < 5 ? 0 : Math.round((isStruggling ? 65 : 88) + (Math.random() - 0.5) * 6),
+      heartRate: Math.round(next.heartRate),
+    },
+  };
+}
@@ -1,9 +1,9 @@
 "use client";
 
-import { CompletedWorkoutSummary } from "@/types/workout";
+import { CompletedWorkoutSummary, POWER_ZONES, HEART_RATE_ZONES } from "@/types/workout";
 import { formatDuration } from "@/lib/workout-utils";
 
-export type WorkoutImageType = "summary" | "peaks" | "logo" | "none";
+export type WorkoutImageType = "summary" | "peaks" | "zones" | "logo" | "none";
 
 interface GenerateWorkoutImageOptions {
   type: WorkoutImageType;
@@ -114,6 +114,60 @@ export async function generateWorkoutImage(options: GenerateWorkoutImageOptions)
     ctx.font = "20px system-ui, sans-serif";
     ctx.fillText("BrowserTurbo", size / 2, size - 60);
 
+  } else if (type === "zones") {
+    // Time in zone histograms - power, then heart rate when recorded
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "bold 48px system-ui, sans-serif";
+    ctx.fillText("Time in Zones", size / 2, 120);
+
+    const histograms = [
+      { title: "Power", times: summary.powerZoneTimes, zones: Object.values(POWER_ZONES) },
+      { title: "Heart Rate", times: summary.heartRateZoneTimes, zones: Object.values(HEART_RATE_ZONES) },
+    ].filter((h): h is typeof h & { times: number[] } => !!h.times);
+
+    if (histograms.length > 0) {
+      const barLeft = 200;
+      const barMaxWidth = 640;
+      const rowHeight = histograms.length > 1 ? 52 : 80;
+      let y = 220;
+
+      for (const histogram of histograms) {
+        ctx.fillStyle = "#888888";
+        ctx.font = "28px system-ui, sans-serif";
+        ctx.fillText(histogram.title.toUpperCase(), size / 2, y);
+        y += 50;
+
+        const longest = Math.max(1, ...histogram.times);
+        histogram.zones.forEach((zone, i) => {
+          const seconds = histogram.times[i] ?? 0;
+          ctx.textAlign = "left";
+          ctx.fillStyle = "#ffffff";
+          ctx.font = "bold 28px system-ui, sans-serif";
+          ctx.fillText(`Z${i + 1}`, 120, y);
+
+          ctx.fillStyle = zone.color;
+          ctx.fillRect(barLeft, y - 16, Math.max(4, (seconds / longest) * barMaxWidth), 32);
+
+          ctx.textAlign = "right";
+          ctx.fillStyle = "#cccccc";
+          ctx.font = "26px system-ui, sans-serif";
+          ctx.fillText(formatDuration(seconds), size - 100, y);
+          y += rowHeight;
+        });
+        ctx.textAlign = "center";
+        y += 40;
+      }
+    } else {
+      ctx.fillStyle = "#666666";
+      ctx.font = "32px system-ui, sans-serif";
+      ctx.fillText("No zone data available", size / 2, size / 2);
+    }
+
+    // Branding
+    ctx.fillStyle = "#666666";
+    ctx.font = "20px system-ui, sans-serif";
+    ctx.fillText("BrowserTurbo", size / 2, size - 60);
+
   } else if (type === "logo") {
     // Simple logo/branding image
     ctx.fillStyle = "#ffffff";
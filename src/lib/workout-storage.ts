@@ -1,5 +1,12 @@
 import { RecordedDataPoint } from "@/types/trainer";
-import { CompletedWorkoutSummary, PeakPower } from "@/types/workout";
+import { CompletedWorkoutSummary, PeakPower, WorkoutCompletion, WorkoutItem } from "@/types/workout";
+import { expandRepeatedSegments } from "@/lib/workout-utils";
+import { calculatePowerZoneTimes, calculateHeartRateZoneTimes } from "@/lib/zones";
+import { calculateAerobicDecoupling } from "@/lib/decoupling";
+import { calculateSegmentCompliance, calculateComplianceScore } from "@/lib/compliance";
+import { toSecondRuns, getBestAverage, forEachRollingAverage, getRunsAverage } from "@/lib/rolling-metrics";
+
+const NP_WINDOW = 30; // seconds
 
 /**
  * Downsample recorded data to 5-second intervals for storage efficiency
@@ -20,7 +27,8 @@ export function downsampleRecordedData(
     const bucketIndex = Math.floor(point.elapsedTime / intervalSeconds);
     const currentBucketStart = bucketIndex * intervalSeconds;
 
-    if (currentBucketStart !== bucketStart && bucketPoints.length > 0) {
+    // Never average across a gap in recording
+    if ((currentBucketStart !== bucketStart || point.gap) && bucketPoints.length > 0) {
       // Average the bucket and add to result
       downsampled.push(averageDataPoints(bucketPoints));
       bucketPoints = [];
@@ -66,15 +74,22 @@ function averageDataPoints(points: RecordedDataPoint[]): RecordedDataPoint {
     cadence: cadenceValues.length > 0 ? Math.round(cadenceValues.reduce((a, b) => a + b, 0) / cadenceValues.length) : null,
     heartRate: hrValues.length > 0 ? Math.round(hrValues.reduce((a, b) => a + b, 0) / hrValues.length) : null,
     segmentIndex: points[points.length - 1].segmentIndex, // Use last segment index
+    distance: points[points.length - 1].distance,
+    ...(points[0].gap ? { gap: true } : {}),
+    ...(cadenceValues.length === 0 && points.some(p => p.cadenceGap) ? { cadenceGap: true } : {}),
+    ...(hrValues.length === 0 && points.some(p => p.heartRateGap) ? { heartRateGap: true } : {}),
   };
 }
 
 /**
- * Calculate workout summary statistics from recorded data
+ * Calculate workout summary statistics from recorded data. TSS uses the FTP
+ * in effect when the data was recorded, not the rider's current one. Heart-rate
+ * zone times need the zone bounds from the rider's HR zone settings
  */
 export function calculateWorkoutSummary(
   data: RecordedDataPoint[],
-  ftp: number
+  ftp: number,
+  heartRateZoneBounds?: number[] | null
 ): CompletedWorkoutSummary {
   if (data.length === 0) {
     return {
@@ -127,7 +142,16 @@ export function calculateWorkoutSummary(
     : null;
 
   // Calculate peak powers for various durations
-  const peakPowers = calculatePeakPowers(data, actualDuration);
+  const peakPowers = calculatePeakPowers(data);
+
+  // Time in zone
+  const powerZoneTimes = powerValues.length > 0 ? calculatePowerZoneTimes(data, ftp) : undefined;
+  const heartRateZoneTimes = heartRateZoneBounds
+    ? calculateHeartRateZoneTimes(data, heartRateZoneBounds) ?? undefined
+    : undefined;
+
+  // Pa:HR decoupling - needs a heart-rate source
+  const aerobicDecoupling = calculateAerobicDecoupling(data);
 
   return {
     actualDuration,
@@ -139,6 +163,39 @@ export function calculateWorkoutSummary(
     normalizedPower,
     actualTSS,
     peakPowers,
+    ...(powerZoneTimes ? { powerZoneTimes } : {}),
+    ...(heartRateZoneTimes ? { heartRateZoneTimes } : {}),
+    ...(aerobicDecoupling ? { aerobicDecoupling } : {}),
+  };
+}
+
+/**
+ * Build the completion saved with a ridden workout - summary, compliance and
+ * downsampled data. Used at the end of a ride and when saving a recovered one
+ */
+export function createWorkoutCompletion(
+  segments: WorkoutItem[],
+  recordedData: RecordedDataPoint[],
+  startedAt: string,
+  ftp: number,
+  heartRateZoneBounds: number[] | null,
+  lthr: number | null,
+  completedAt: string = new Date().toISOString()
+): WorkoutCompletion {
+  const summary = calculateWorkoutSummary(recordedData, ftp, heartRateZoneBounds);
+  const expandedSegments = expandRepeatedSegments(segments);
+  const complianceScore = calculateComplianceScore(
+    expandedSegments,
+    calculateSegmentCompliance(expandedSegments, recordedData, ftp, lthr)
+  );
+
+  return {
+    completedAt,
+    startedAt,
+    summary,
+    recordedData: downsampleRecordedData(recordedData, 5),
+    ftp,
+    ...(complianceScore !== null ? { complianceScore } : {}),
   };
 }
 
@@ -146,39 +203,24 @@ export function calculateWorkoutSummary(
  * Calculate Normalized Power using 30-second rolling average
  * NP = fourth root of average of (30-sec rolling avg power)^4
  */
-function calculateNormalizedPower(data: RecordedDataPoint[]): number | null {
-  const powerValues = data
-    .filter(p => p.actualPower !== null && p.actualPower > 0)
-    .map(p => ({ time: p.elapsedTime, power: p.actualPower as number }));
-
-  if (powerValues.length < 30) {
+export function calculateNormalizedPower(data: RecordedDataPoint[]): number | null {
+  if (!data.some(p => p.actualPower !== null && p.actualPower > 0)) return null;
+
+  const runs = toSecondRuns(data, p => p.actualPower);
+  let fourthPowerSum = 0;
+  let count = 0;
+  forEachRollingAverage(runs, NP_WINDOW, (average) => {
+    fourthPowerSum += Math.pow(average, 4);
+    count++;
+  });
+
+  if (count === 0) {
     // Not enough data for proper NP calculation, return average power
-    if (powerValues.length === 0) return null;
-    return Math.round(powerValues.reduce((sum, p) => sum + p.power, 0) / powerValues.length);
-  }
-
-  // Create 30-second rolling averages
-  const rollingAverages: number[] = [];
-
-  for (let i = 0; i < powerValues.length; i++) {
-    const windowStart = powerValues[i].time - 30;
-    const windowPoints = powerValues.filter(p => p.time > windowStart && p.time <= powerValues[i].time);
-
-    if (windowPoints.length > 0) {
-      const avg = windowPoints.reduce((sum, p) => sum + p.power, 0) / windowPoints.length;
-      rollingAverages.push(avg);
-    }
+    const average = getRunsAverage(runs);
+    return average ? Math.round(average) : null;
   }
 
-  if (rollingAverages.length === 0) return null;
-
-  // Calculate fourth power average
-  const fourthPowerAvg = rollingAverages.reduce((sum, p) => sum + Math.pow(p, 4), 0) / rollingAverages.length;
-
-  // Take fourth root
-  const np = Math.pow(fourthPowerAvg, 0.25);
-
-  return Math.round(np);
+  return Math.round(Math.pow(fourthPowerSum / count, 0.25));
 }
 
 /**
@@ -194,67 +236,27 @@ function calculateTSS(normalizedPower: number, durationSeconds: number, ftp: num
 
 /**
  * Calculate best (peak) power for a specific duration
- * Uses a sliding window approach to find the highest average power
+ * The window has to fit inside one stretch of recording without gaps
  */
-function calculatePeakPower(data: RecordedDataPoint[], durationSeconds: number): number | null {
-  // Need at least the duration's worth of data points
-  const powerValues = data
-    .filter(p => p.actualPower !== null && p.actualPower > 0)
-    .map(p => ({ time: p.elapsedTime, power: p.actualPower as number }));
-
-  if (powerValues.length === 0) return null;
-
-  // For very short durations (< 5s), just return max power
-  if (durationSeconds <= 5) {
-    return Math.max(...powerValues.map(p => p.power));
-  }
-
-  let maxAvgPower = 0;
-
-  // Sliding window to find best average
-  for (let i = 0; i < powerValues.length; i++) {
-    const windowEnd = powerValues[i].time;
-    const windowStart = windowEnd - durationSeconds;
-
-    // Get all points in the window
-    const windowPoints = powerValues.filter(p => p.time > windowStart && p.time <= windowEnd);
-
-    // Only consider if we have enough data in the window (at least 80% coverage)
-    if (windowPoints.length >= durationSeconds * 0.8) {
-      const avgPower = windowPoints.reduce((sum, p) => sum + p.power, 0) / windowPoints.length;
-      maxAvgPower = Math.max(maxAvgPower, avgPower);
-    }
-  }
-
-  return maxAvgPower > 0 ? Math.round(maxAvgPower) : null;
+export function calculatePeakPower(data: RecordedDataPoint[], durationSeconds: number): number | null {
+  const best = getBestAverage(toSecondRuns(data, p => p.actualPower), durationSeconds);
+  return best !== null && best > 0 ? Math.round(best) : null;
 }
 
 /**
  * Calculate peak powers for standard time intervals
  * Returns only intervals that have enough data
  */
-function calculatePeakPowers(data: RecordedDataPoint[], workoutDuration: number): PeakPower[] {
+function calculatePeakPowers(data: RecordedDataPoint[]): PeakPower[] {
   // Standard intervals: 5s, 30s, 1min, 5min, 10min, 20min, 30min, 60min
-  const intervals = [
-    { duration: 5, label: "5s" },
-    { duration: 30, label: "30s" },
-    { duration: 60, label: "1min" },
-    { duration: 300, label: "5min" },
-    { duration: 600, label: "10min" },
-    { duration: 1200, label: "20min" },
-    { duration: 1800, label: "30min" },
-    { duration: 3600, label: "60min" },
-  ];
+  const intervals = [5, 30, 60, 300, 600, 1200, 1800, 3600];
+  const runs = toSecondRuns(data, p => p.actualPower);
 
   const peakPowers: PeakPower[] = [];
-
-  for (const interval of intervals) {
-    // Only calculate if workout is long enough for this interval
-    if (workoutDuration >= interval.duration) {
-      const power = calculatePeakPower(data, interval.duration);
-      if (power !== null) {
-        peakPowers.push({ duration: interval.duration, power });
-      }
+  for (const duration of intervals) {
+    const best = getBestAverage(runs, duration);
+    if (best !== null && best > 0) {
+      peakPowers.push({ duration, power: Math.round(best) });
     }
   }
 
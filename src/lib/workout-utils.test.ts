@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { Segment, SegmentBlock, WorkoutItem } from "@/types/workout";
+import { calculateTotalDuration, expandRepeatedSegments, placeTextEvents } from "./workout-utils";
+
+function segment(id: string, duration: number, repeat?: number): Segment {
+  return { id, type: "interval", duration, targetPower: { type: "percent_ftp", value: 100 }, repeat };
+}
+
+describe("placeTextEvents", () => {
+  it("moves each event onto the segment it falls in, timed from that segment", () => {
+    const items = [segment("on", 30), segment("off", 30), segment("on", 30), segment("off", 30)];
+
+    const placed = placeTextEvents(items, [
+      { timeOffset: 0, message: "Go" },
+      { timeOffset: 45, message: "Recover" },
+      { timeOffset: 100, message: "Last one", duration: 5 },
+    ]);
+
+    expect(placed.map((item) => item.textEvents)).toEqual([
+      [{ timeOffset: 0, message: "Go" }],
+      [{ timeOffset: 15, message: "Recover" }],
+      undefined,
+      [{ timeOffset: 10, message: "Last one", duration: 5 }],
+    ]);
+  });
+
+  it("hands events to nested blocks across all their repeats", () => {
+    const inner: SegmentBlock = { id: "inner", type: "block", repeat: 2, segments: [segment("a", 20)] };
+    const placed = placeTextEvents<WorkoutItem>([segment("warm", 60), inner], [{ timeOffset: 90, message: "Again" }]);
+
+    expect(placed[1]).toMatchObject({ id: "inner", textEvents: [{ timeOffset: 30, message: "Again" }] });
+  });
+
+  it("splits a repeated segment so the event only plays on its own repeat", () => {
+    const placed = placeTextEvents([segment("rep", 60, 4)], [{ timeOffset: 150, message: "Halfway" }]);
+
+    expect(placed.map((item) => [(item as Segment).repeat, item.textEvents])).toEqual([
+      [2, undefined],
+      [1, [{ timeOffset: 30, message: "Halfway" }]],
+      [1, undefined],
+    ]);
+    expect(calculateTotalDuration(placed)).toBe(240);
+  });
+
+  it("drops events past the end", () => {
+    expect(placeTextEvents([segment("a", 30)], [{ timeOffset: 30, message: "Late" }])).toEqual([segment("a", 30)]);
+  });
+});
+
+describe("expandRepeatedSegments", () => {
+  it("hands block text events to the expanded segment they fall in", () => {
+    const block: SegmentBlock = {
+      id: "block",
+      type: "block",
+      repeat: 2,
+      segments: [segment("on", 30), segment("off", 30)],
+      textEvents: [{ timeOffset: 70, message: "Second round" }],
+    };
+
+    const expanded = expandRepeatedSegments([block]);
+
+    expect(expanded.map((s) => s.id)).toEqual(["on-0-0", "off-0-0", "on-0-1", "off-0-1"]);
+    expect(expanded[2].textEvents).toEqual([{ timeOffset: 10, message: "Second round" }]);
+    expect(expanded.filter((s) => s.textEvents)).toHaveLength(1);
+  });
+});
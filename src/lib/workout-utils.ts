@@ -1,12 +1,29 @@
-import { Segment, Workout, getZoneForPower, POWER_ZONES } from "@/types/workout";
+import {
+  Segment,
+  SegmentBlock,
+  TextEvent,
+  Workout,
+  WorkoutItem,
+  isSegmentBlock,
+  generateId,
+  getZoneForPower,
+  POWER_ZONES,
+  DEFAULT_HEART_RATE_FALLBACK_POWER,
+} from "@/types/workout";
+
+// Zwift shows text events for 10 seconds unless told otherwise
+const DEFAULT_TEXT_EVENT_DURATION = 10;
 
 /**
  * Calculate total duration of a workout in seconds
  */
-export function calculateTotalDuration(segments: Segment[]): number {
-  return segments.reduce((total, segment) => {
-    const repeat = segment.repeat || 1;
-    return total + segment.duration * repeat;
+export function calculateTotalDuration(segments: WorkoutItem[]): number {
+  return segments.reduce((total, item) => {
+    if (isSegmentBlock(item)) {
+      return total + calculateTotalDuration(item.segments) * item.repeat;
+    }
+    const repeat = item.repeat || 1;
+    return total + item.duration * repeat;
   }, 0);
 }
 
@@ -64,15 +81,16 @@ export function parseDuration(input: string): number {
  * Calculate Normalized Power for a workout
  * Simplified calculation assuming steady power in each segment
  */
-export function calculateNormalizedPower(segments: Segment[], ftp: number): number {
+export function calculateNormalizedPower(segments: WorkoutItem[], ftp: number): number {
   let totalWeightedPower = 0;
   let totalDuration = 0;
 
-  for (const segment of segments) {
-    const repeat = segment.repeat || 1;
-    const duration = segment.duration * repeat;
+  for (const segment of expandRepeatedSegments(segments)) {
+    const duration = segment.duration;
     let powerWatts: number;
 
+    // Free-ride segments count at their target power, which holds the assumed
+    // intensity rather than a trainer target
     if (segment.targetPower.type === "percent_ftp") {
       const avgPercent = segment.targetPower.valueHigh
         ? (segment.targetPower.value + segment.targetPower.valueHigh) / 2
@@ -80,6 +98,8 @@ export function calculateNormalizedPower(segments: Segment[], ftp: number): numb
       powerWatts = (avgPercent / 100) * ftp;
     } else if (segment.targetPower.type === "absolute_watts") {
       powerWatts = segment.targetPower.value;
+    } else if (segment.targetPower.type === "heart_rate") {
+      powerWatts = (getHeartRateFallbackPower(segment) / 100) * ftp;
     } else {
       // Zone-based - use midpoint of zone
       const zone = segment.targetPower.value as keyof typeof POWER_ZONES;
@@ -99,7 +119,7 @@ export function calculateNormalizedPower(segments: Segment[], ftp: number): numb
 /**
  * Calculate Intensity Factor (IF = NP / FTP)
  */
-export function calculateIntensityFactor(segments: Segment[], ftp: number): number {
+export function calculateIntensityFactor(segments: WorkoutItem[], ftp: number): number {
   const np = calculateNormalizedPower(segments, ftp);
   return np / ftp;
 }
@@ -108,7 +128,7 @@ export function calculateIntensityFactor(segments: Segment[], ftp: number): numb
  * Calculate Training Stress Score (TSS)
  * TSS = (duration_hours * NP * IF) / (FTP * 3600) * 100
  */
-export function calculateTSS(segments: Segment[], ftp: number): number {
+export function calculateTSS(segments: WorkoutItem[], ftp: number): number {
   const duration = calculateTotalDuration(segments);
   const np = calculateNormalizedPower(segments, ftp);
   const intensityFactor = np / ftp;
@@ -135,6 +155,8 @@ export function getPowerAsPercentFTP(segment: Segment, ftp: number): number {
     return segment.targetPower.value;
   } else if (segment.targetPower.type === "absolute_watts") {
     return (segment.targetPower.value / ftp) * 100;
+  } else if (segment.targetPower.type === "heart_rate") {
+    return getHeartRateFallbackPower(segment);
   } else {
     const zone = segment.targetPower.value as keyof typeof POWER_ZONES;
     const zoneData = POWER_ZONES[zone];
@@ -142,6 +164,38 @@ export function getPowerAsPercentFTP(segment: Segment, ftp: number): number {
   }
 }
 
+/**
+ * Get start/end power of a segment as percentage of FTP (equal for non-ramps)
+ */
+export function getPowerRangeAsPercentFTP(segment: Segment, ftp: number): { start: number; end: number } {
+  const { type, value, valueHigh } = segment.targetPower;
+  if (type === "absolute_watts") {
+    return { start: (value / ftp) * 100, end: ((valueHigh ?? value) / ftp) * 100 };
+  }
+  if (type === "percent_ftp") {
+    return { start: value, end: valueHigh ?? value };
+  }
+  const percent = getPowerAsPercentFTP(segment, ftp);
+  return { start: percent, end: percent };
+}
+
+/**
+ * Power (% FTP) a heart-rate segment starts from and falls back to - also
+ * used to draw it and estimate TSS
+ */
+export function getHeartRateFallbackPower(segment: Segment): number {
+  return segment.targetPower.fallbackPower ?? DEFAULT_HEART_RATE_FALLBACK_POWER;
+}
+
+/**
+ * Format a heart-rate target band, e.g. "130-145 bpm" or "80-88% LTHR"
+ */
+export function formatHeartRateTarget(segment: Segment): string {
+  const { value, valueHigh, heartRateUnit } = segment.targetPower;
+  const range = valueHigh !== undefined ? `${value}-${valueHigh}` : `${value}`;
+  return heartRateUnit === "percent_lthr" ? `${range}% LTHR` : `${range} bpm`;
+}
+
 /**
  * Get power value as watts
  */
@@ -150,6 +204,8 @@ export function getPowerAsWatts(segment: Segment, ftp: number): number {
     return segment.targetPower.value;
   } else if (segment.targetPower.type === "percent_ftp") {
     return Math.round((segment.targetPower.value / 100) * ftp);
+  } else if (segment.targetPower.type === "heart_rate") {
+    return Math.round((getHeartRateFallbackPower(segment) / 100) * ftp);
   } else {
     const zone = segment.targetPower.value as keyof typeof POWER_ZONES;
     const zoneData = POWER_ZONES[zone];
@@ -158,29 +214,37 @@ export function getPowerAsWatts(segment: Segment, ftp: number): number {
 }
 
 /**
- * Recalculate workout stats
+ * Recalculate workout stats. A completed workout keeps the FTP it was ridden
+ * at - pass the FTP for its date when the completion predates recording it
  */
 export function recalculateWorkoutStats(workout: Workout, ftp: number): Workout {
+  const workoutFtp = workout.completion?.ftp ?? ftp;
   return {
     ...workout,
     totalDuration: calculateTotalDuration(workout.segments),
-    estimatedTSS: calculateTSS(workout.segments, ftp),
-    intensityFactor: calculateIntensityFactor(workout.segments, ftp),
+    estimatedTSS: calculateTSS(workout.segments, workoutFtp),
+    intensityFactor: calculateIntensityFactor(workout.segments, workoutFtp),
   };
 }
 
 /**
- * Expand repeated segments into individual segments for visualization
+ * Expand repeated segments and blocks into individual segments for
+ * visualization and playback
  */
-export function expandRepeatedSegments(segments: Segment[]): Segment[] {
+export function expandRepeatedSegments(segments: WorkoutItem[]): Segment[] {
   const expanded: Segment[] = [];
 
-  for (const segment of segments) {
-    const repeat = segment.repeat || 1;
+  for (const item of segments) {
+    if (isSegmentBlock(item)) {
+      expanded.push(...expandBlock(item));
+      continue;
+    }
+
+    const repeat = item.repeat || 1;
     for (let i = 0; i < repeat; i++) {
       expanded.push({
-        ...segment,
-        id: `${segment.id}-${i}`,
+        ...item,
+        id: `${item.id}-${i}`,
         repeat: 1,
       });
     }
@@ -189,6 +253,115 @@ export function expandRepeatedSegments(segments: Segment[]): Segment[] {
   return expanded;
 }
 
+function expandBlock(block: SegmentBlock): Segment[] {
+  const children = expandRepeatedSegments(block.segments);
+  const expanded: Segment[] = [];
+  for (let i = 0; i < block.repeat; i++) {
+    expanded.push(...children.map((child) => ({ ...child, id: `${child.id}-${i}` })));
+  }
+
+  // Block text events are timed from the block start
+  return placeTextEvents(expanded, block.textEvents ?? []);
+}
+
+/**
+ * Hand each text event, timed from the start of `items`, to the item it falls
+ * in. A repeated segment is split so the event only fires on its own repeat.
+ */
+export function placeTextEvents<T extends WorkoutItem>(items: T[], events: TextEvent[]): T[] {
+  const placed = [...items];
+
+  for (const event of events) {
+    let itemStart = 0;
+    for (let i = 0; i < placed.length; i++) {
+      const item = placed[i];
+      const duration = calculateTotalDuration([item]);
+      if (event.timeOffset < itemStart + duration) {
+        placed.splice(i, 1, ...addTextEvent(item, { ...event, timeOffset: event.timeOffset - itemStart }));
+        break;
+      }
+      itemStart += duration;
+    }
+  }
+
+  return placed;
+}
+
+function addTextEvent<T extends WorkoutItem>(item: T, event: TextEvent): T[] {
+  const withEvent = (target: T, timeOffset: number): T => ({
+    ...target,
+    textEvents: [...(target.textEvents ?? []), { ...event, timeOffset }],
+  });
+
+  if (isSegmentBlock(item) || (item.repeat || 1) === 1) {
+    return [withEvent(item, event.timeOffset)];
+  }
+
+  const repeat = item.repeat || 1;
+  const round = Math.floor(event.timeOffset / item.duration);
+  const copies = (count: number): T[] => (count > 0 ? [{ ...item, id: generateId(), repeat: count }] : []);
+  return [
+    ...copies(round),
+    withEvent({ ...item, id: generateId(), repeat: 1 }, event.timeOffset - round * item.duration),
+    ...copies(repeat - round - 1),
+  ];
+}
+
+export interface BlockRange {
+  startTime: number; // seconds
+  endTime: number;
+  repeat: number;
+  depth: number; // 0 for top-level blocks
+}
+
+/**
+ * Time ranges covered by blocks (all repeats), for drawing block brackets
+ */
+export function getBlockRanges(segments: WorkoutItem[], offset = 0, depth = 0): BlockRange[] {
+  const ranges: BlockRange[] = [];
+  let time = offset;
+
+  for (const item of segments) {
+    const duration = calculateTotalDuration([item]);
+    if (isSegmentBlock(item)) {
+      ranges.push({ startTime: time, endTime: time + duration, repeat: item.repeat, depth });
+      const repeatDuration = calculateTotalDuration(item.segments);
+      for (let i = 0; i < item.repeat; i++) {
+        ranges.push(...getBlockRanges(item.segments, time + i * repeatDuration, depth + 1));
+      }
+    }
+    time += duration;
+  }
+
+  return ranges;
+}
+
+/**
+ * Apply a change to every segment, including those nested in blocks
+ */
+export function mapSegments(
+  segments: WorkoutItem[],
+  fn: (segment: Segment) => Segment
+): WorkoutItem[] {
+  return segments.map((item) =>
+    isSegmentBlock(item)
+      ? { ...item, segments: mapSegments(item.segments, fn) }
+      : fn(item)
+  );
+}
+
+/**
+ * Get the text event on screen at a point within a segment
+ */
+export function getActiveTextEvent(segment: Segment, segmentElapsed: number): TextEvent | null {
+  const active = (segment.textEvents ?? []).filter(
+    (event) =>
+      segmentElapsed >= event.timeOffset &&
+      segmentElapsed < event.timeOffset + (event.duration ?? DEFAULT_TEXT_EVENT_DURATION)
+  );
+  return active.length > 0 ? active[active.length - 1] : null;
+}
+
 /**
  * Get segment type display name
  */
@@ -199,6 +372,17 @@ export function getSegmentTypeName(type: string): string {
     recovery: "Recovery",
     cooldown: "Cool Down",
     steady: "Steady State",
+    freeride: "Free Ride",
+    block: "Block",
   };
   return names[type] || type;
 }
+
+/**
+ * Local calendar date as YYYY-MM-DD - the key for dated FTP history entries
+ */
+export function getDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
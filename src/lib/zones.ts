@@ -0,0 +1,103 @@
+import { RecordedDataPoint, HeartRateZoneSettings } from "@/types/trainer";
+import { Workout, POWER_ZONES, HEART_RATE_ZONES, getZoneForPower } from "@/types/workout";
+import { getDateKey } from "@/lib/workout-utils";
+import { getSampleSeconds } from "@/lib/rolling-metrics";
+
+// Time in zone
+// Each sample counts for the time since the one before it (see
+// rolling-metrics), so live 1-second data and stored 5-second averages give
+// the same totals. Longer gaps are left out rather than credited to the next
+// sample.
+
+export const POWER_ZONE_COUNT = Object.keys(POWER_ZONES).length;
+export const HEART_RATE_ZONE_COUNT = Object.keys(HEART_RATE_ZONES).length;
+
+/**
+ * Lower bound in bpm of each heart-rate zone, zone 1 first. Null when the
+ * chosen basis (LTHR or max HR) isn't set
+ */
+export function getHeartRateZoneBounds(settings: HeartRateZoneSettings, lthr: number | null): number[] | null {
+  const reference = settings.basis === "lthr" ? lthr : settings.maxHeartRate;
+  if (!reference) return null;
+
+  return Object.values(HEART_RATE_ZONES).map((zone) =>
+    Math.round(((settings.basis === "lthr" ? zone.lthr : zone.maxHr) / 100) * reference)
+  );
+}
+
+export function calculatePowerZoneTimes(data: RecordedDataPoint[], ftp: number): number[] {
+  const times = new Array<number>(POWER_ZONE_COUNT).fill(0);
+  if (ftp <= 0) return times;
+
+  data.forEach((point, i) => {
+    if (point.actualPower === null) return;
+    const zone = getZoneForPower((point.actualPower / ftp) * 100);
+    times[zone - 1] += getSampleSeconds(data, i);
+  });
+  return times.map(Math.round);
+}
+
+/**
+ * Seconds in each heart-rate zone - null when the ride has no HR data
+ */
+export function calculateHeartRateZoneTimes(data: RecordedDataPoint[], bounds: number[]): number[] | null {
+  const times = new Array<number>(bounds.length).fill(0);
+  let hasHeartRate = false;
+
+  data.forEach((point, i) => {
+    if (!point.heartRate) return;
+    hasHeartRate = true;
+    let zone = 0;
+    while (zone + 1 < bounds.length && point.heartRate >= bounds[zone + 1]) {
+      zone++;
+    }
+    times[zone] += getSampleSeconds(data, i);
+  });
+  return hasHeartRate ? times.map(Math.round) : null;
+}
+
+/**
+ * Add one set of zone times into a running total
+ */
+export function addZoneTimes(total: number[], times: number[]): number[] {
+  return total.map((seconds, i) => seconds + (times[i] ?? 0));
+}
+
+export interface WeeklyZoneTimes {
+  weekStart: string; // YYYY-MM-DD of the Monday
+  times: number[];
+}
+
+/**
+ * Zone times summed per week (Monday to Sunday) for the last `weeks` weeks up
+ * to `until`, oldest first. `getZoneTimes` returns a workout's zone times, or
+ * null to leave it out
+ */
+export function aggregateWeeklyZoneTimes(
+  workouts: Workout[],
+  getZoneTimes: (workout: Workout) => number[] | null,
+  zoneCount: number,
+  weeks: number,
+  until: Date = new Date()
+): WeeklyZoneTimes[] {
+  const lastMonday = new Date(until.getFullYear(), until.getMonth(), until.getDate() - ((until.getDay() + 6) % 7));
+  const result: WeeklyZoneTimes[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    const monday = new Date(lastMonday.getFullYear(), lastMonday.getMonth(), lastMonday.getDate() - i * 7);
+    result.push({ weekStart: getDateKey(monday), times: new Array<number>(zoneCount).fill(0) });
+  }
+
+  for (const workout of workouts) {
+    if (!workout.completion || workout.completion.simulated) continue;
+    const date = getDateKey(new Date(workout.completion.startedAt));
+    // Latest week starting on or before the ride
+    const week = [...result].reverse().find((w) => w.weekStart <= date);
+    if (!week || date > getDateKey(until)) continue;
+
+    const times = getZoneTimes(workout);
+    if (times) {
+      week.times = addZoneTimes(week.times, times);
+    }
+  }
+  return result;
+}
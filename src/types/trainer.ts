@@ -1,5 +1,5 @@
 // Trainer connection states
-export type TrainerConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type TrainerConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
 
 // Control mode for trainer resistance
 export type ControlMode = 'erg' | 'manual';
@@ -18,9 +18,48 @@ export interface TrainerCapabilities {
   hasFTMS: boolean;            // Fitness Machine Service support
   hasWahooExtension: boolean;  // Wahoo-specific control extension
   hasCyclingPower: boolean;    // Cycling Power Service support
+  hasSpinDown: boolean;        // FTMS spin-down calibration support
   controlProtocol: 'ftms' | 'wahoo' | 'none';
 }
 
+// Bluetooth devices connected before, remembered so they can be connected
+// again without the chooser. Ids only mean something to the browser that saw them
+export type KnownDeviceKind = 'trainer' | 'heart_rate_monitor';
+
+export interface KnownDevice {
+  id: string;                          // BluetoothDevice.id
+  kind: KnownDeviceKind;
+  name: string;                        // Name the device advertised
+  nickname: string | null;             // Friendly name set by the rider
+  lastSeenAt: string;                  // ISO
+  capabilities?: TrainerCapabilities;  // Trainers only, as detected on the last connection
+}
+
+// Fitness Machine Status events the player reacts to
+export type FitnessMachineEvent = 'reset' | 'stopped' | 'paused' | 'started' | 'control_lost';
+
+export interface FitnessMachineStatus {
+  event: FitnessMachineEvent;
+  timestamp: number;
+}
+
+// Spin-down calibration progress - the trainer may ask for one. Once started
+// it gives the speed range to spin up to, then asks the rider to stop
+// pedalling and coast down
+export type SpinDownStatus = 'idle' | 'requested' | 'starting' | 'speed_up' | 'stop_pedaling' | 'success' | 'error';
+
+export interface SpinDownState {
+  status: SpinDownStatus;
+  targetSpeedLow: number | null;  // km/h
+  targetSpeedHigh: number | null; // km/h
+}
+
+export const IDLE_SPIN_DOWN: SpinDownState = {
+  status: 'idle',
+  targetSpeedLow: null,
+  targetSpeedHigh: null,
+};
+
 // Player status for workout execution
 export type PlayerStatus = 'stopped' | 'playing' | 'paused' | 'completed';
 
@@ -34,6 +73,66 @@ export interface PlayerState {
   targetPower: number;          // Current target power in watts
 }
 
+// Closed-loop ERG settings for heart-rate targeted segments
+export interface HeartRateControlSettings {
+  lthr: number | null;           // Lactate threshold HR, needed for %LTHR targets
+  adjustIntervalSeconds: number; // How often the ERG target is re-evaluated
+  maxStepWatts: number;          // Largest single change to the ERG target
+  ceilingPercentFTP: number;     // Never target more than this
+}
+
+export const DEFAULT_HEART_RATE_CONTROL: HeartRateControlSettings = {
+  lthr: null,
+  adjustIntervalSeconds: 10,
+  maxStepWatts: 10,
+  ceilingPercentFTP: 85,
+};
+
+// How heart-rate zones are worked out - from LTHR (set with the HR control
+// settings) or from max HR
+export type HeartRateZoneBasis = "lthr" | "max_hr";
+
+export interface HeartRateZoneSettings {
+  basis: HeartRateZoneBasis;
+  maxHeartRate: number | null;
+}
+
+export const DEFAULT_HEART_RATE_ZONES: HeartRateZoneSettings = {
+  basis: "lthr",
+  maxHeartRate: null,
+};
+
+// Virtual devices stand in for a trainer and HR monitor on machines without
+// Bluetooth - the model picks how the simulated rider behaves
+export type VirtualRiderModel = "steady" | "fatiguing" | "dropouts" | "fails_intervals";
+
+export interface VirtualDeviceSettings {
+  enabled: boolean;
+  model: VirtualRiderModel;
+}
+
+export const DEFAULT_VIRTUAL_DEVICES: VirtualDeviceSettings = {
+  enabled: false,
+  model: "steady",
+};
+
+// Physics parameters sent to the trainer in SIM mode
+export interface SimulationParams {
+  grade: number;       // percent
+  riderWeight: number; // kg, rider only - the bike is added by the physics model
+  crr: number;
+  cda: number;         // m²
+  windSpeed: number;   // m/s, positive is a headwind
+}
+
+export const DEFAULT_SIMULATION: SimulationParams = {
+  grade: 0,
+  riderWeight: 75,
+  crr: 0.004,
+  cda: 0.32,
+  windSpeed: 0,
+};
+
 // Recorded data point for post-workout analysis
 export interface RecordedDataPoint {
   timestamp: number;
@@ -43,14 +142,53 @@ export interface RecordedDataPoint {
   cadence: number | null;
   heartRate: number | null;
   segmentIndex: number;
+  distance?: number; // virtual metres covered, from power through the physics model
+  gap?: boolean; // nothing was recorded between the previous sample and this one
+  cadenceGap?: boolean; // cadence is missing because its device was reconnecting
+  heartRateGap?: boolean; // heart rate is missing because its device was reconnecting
 }
 
+// Extra sensors paired alongside the trainer and HR monitor
+export type SensorKind = "power_meter" | "speed_cadence";
+
+// Where each recorded metric is read from - the trainer, or a separate sensor
+export type PowerSource = "trainer" | "power_meter";
+export type CadenceSource = "trainer" | "power_meter" | "speed_cadence";
+export type HeartRateSource = "heart_rate_monitor" | "trainer";
+
+export interface SensorSources {
+  power: PowerSource;
+  cadence: CadenceSource;
+  heartRate: HeartRateSource;
+}
+
+export const DEFAULT_SENSOR_SOURCES: SensorSources = {
+  power: "trainer",
+  cadence: "trainer",
+  heartRate: "heart_rate_monitor",
+};
+
+// Power match - ERG targets are corrected so the power meter, rather than
+// the trainer, reads the target
+export interface PowerMatchSettings {
+  enabled: boolean;
+  smoothingSeconds: number;     // Time constant the trainer/meter readings are averaged over
+  maxCorrectionPercent: number; // Largest correction to the target, either way
+}
+
+export const DEFAULT_POWER_MATCH: PowerMatchSettings = {
+  enabled: false,
+  smoothingSeconds: 10,
+  maxCorrectionPercent: 10,
+};
+
 // Bluetooth UUIDs for trainer services and characteristics
 export const BLUETOOTH_UUIDS = {
   // Services
   FTMS_SERVICE: '00001826-0000-1000-8000-00805f9b34fb',
   CYCLING_POWER_SERVICE: '00001818-0000-1000-8000-00805f9b34fb',
   HEART_RATE_SERVICE: '0000180d-0000-1000-8000-00805f9b34fb',
+  CYCLING_SPEED_CADENCE_SERVICE: '00001816-0000-1000-8000-00805f9b34fb',
   WAHOO_EXTENSION_SERVICE: 'a026ee0b-0a7d-4ab3-97fa-f1500f9feb8b',
 
   // FTMS Characteristics
@@ -67,6 +205,9 @@ export const BLUETOOTH_UUIDS = {
   // Heart Rate Characteristics
   HEART_RATE_MEASUREMENT: '00002a37-0000-1000-8000-00805f9b34fb',
 
+  // Cycling Speed and Cadence Characteristics
+  CSC_MEASUREMENT: '00002a5b-0000-1000-8000-00805f9b34fb',
+
   // Wahoo Extension Characteristics
   WAHOO_TRAINER: 'a026e005-0a7d-4ab3-97fa-f1500f9feb8b',
 } as const;
@@ -82,12 +223,34 @@ export const FTMS_OPCODES = {
   SET_TARGET_HEART_RATE: 0x06,
   START_RESUME: 0x07,
   STOP_PAUSE: 0x08,
+  SET_INDOOR_BIKE_SIMULATION: 0x11,
+  SPIN_DOWN_CONTROL: 0x13,
   RESPONSE_CODE: 0x80,
 } as const;
 
+// FTMS Control Point result codes, sent back with RESPONSE_CODE
+export const FTMS_RESULT_CODES = {
+  SUCCESS: 0x01,
+  NOT_SUPPORTED: 0x02,
+  INVALID_PARAMETER: 0x03,
+  OPERATION_FAILED: 0x04,
+  CONTROL_NOT_PERMITTED: 0x05,
+} as const;
+
+// FTMS Fitness Machine Status opcodes
+export const FTMS_STATUS_OPCODES = {
+  RESET: 0x01,
+  STOPPED_OR_PAUSED: 0x02,
+  STOPPED_BY_SAFETY_KEY: 0x03,
+  STARTED_OR_RESUMED: 0x04,
+  SPIN_DOWN_STATUS: 0x14,
+  CONTROL_PERMISSION_LOST: 0xff,
+} as const;
+
 // Wahoo ERG Control Opcodes
 export const WAHOO_OPCODES = {
   SET_ERG_MODE: 0x42,
   SET_RESISTANCE_MODE: 0x40,
   SET_SIM_MODE: 0x43,
+  SET_SIM_GRADE: 0x46,
 } as const;
@@ -1,8 +1,10 @@
 import { RecordedDataPoint } from "./trainer";
 
-export type SegmentType = "warmup" | "interval" | "recovery" | "cooldown" | "steady";
+export type SegmentType = "warmup" | "interval" | "recovery" | "cooldown" | "steady" | "freeride";
 
-export type PowerTargetType = "percent_ftp" | "absolute_watts" | "zone";
+export type PowerTargetType = "percent_ftp" | "absolute_watts" | "zone" | "heart_rate";
+
+export type HeartRateUnit = "bpm" | "percent_lthr";
 
 // Peak power for a specific duration
 export interface PeakPower {
@@ -10,6 +12,25 @@ export interface PeakPower {
   power: number;    // watts
 }
 
+// Built-in FTP test protocols - see lib/ftp-tests
+export type FtpTestProtocol = "ramp" | "twenty_minute" | "eight_minute";
+
+// Dated FTP value - applies from its date until the next entry. Completed
+// workouts are measured against the entry in effect on the day they were ridden
+export interface FtpHistoryEntry {
+  date: string; // YYYY-MM-DD the FTP applies from
+  ftp: number;
+  source: "manual" | "test" | "model"; // model: suggested by the critical power fit
+  protocol?: FtpTestProtocol;
+}
+
+// Pa:HR analysis of a ride with power and heart rate - see lib/decoupling
+export interface AerobicDecoupling {
+  efficiencyFactor: number; // NP / average HR
+  decoupling: number;       // percent drop in EF from the first half to the second
+  heartRateDrift: number;   // percent rise in average HR from the first half to the second
+}
+
 // Completion data types
 export interface CompletedWorkoutSummary {
   actualDuration: number;
@@ -21,6 +42,9 @@ export interface CompletedWorkoutSummary {
   normalizedPower: number | null;
   actualTSS: number | null;
   peakPowers: PeakPower[];
+  powerZoneTimes?: number[];     // seconds in each POWER_ZONES zone, zone 1 first
+  heartRateZoneTimes?: number[]; // seconds in each HEART_RATE_ZONES zone, when HR zones were set
+  aerobicDecoupling?: AerobicDecoupling; // rides with 20+ minutes of power and HR
 }
 
 export interface WorkoutCompletion {
@@ -28,6 +52,9 @@ export interface WorkoutCompletion {
   startedAt: string;
   summary: CompletedWorkoutSummary;
   recordedData: RecordedDataPoint[];
+  ftp?: number; // FTP in effect when ridden - older completions look it up in the FTP history
+  complianceScore?: number; // 0-100, time inside the target range across scored segments
+  simulated?: boolean; // ridden with virtual devices - not real data
   stravaActivityId?: number;
   stravaActivityUrl?: string;
 }
@@ -36,6 +63,10 @@ export interface PowerTarget {
   type: PowerTargetType;
   value: number;
   valueHigh?: number; // For ranges (e.g., 88-94% FTP)
+  // heart_rate targets: value/valueHigh are the HR band, ridden in ERG with the
+  // wattage adjusted to hold it
+  heartRateUnit?: HeartRateUnit; // defaults to bpm
+  fallbackPower?: number; // % FTP to start from and fall back to without HR
 }
 
 export interface CadenceTarget {
@@ -43,6 +74,13 @@ export interface CadenceTarget {
   max: number;
 }
 
+// Timed on-screen message (ZWO <textevent>)
+export interface TextEvent {
+  timeOffset: number; // seconds from the start of the segment or block
+  message: string;
+  duration?: number; // seconds on screen, defaults to 10
+}
+
 export interface Segment {
   id: string;
   type: SegmentType;
@@ -50,7 +88,51 @@ export interface Segment {
   targetPower: PowerTarget;
   cadenceTarget?: CadenceTarget;
   instructions?: string;
-  repeat?: number; // For interval blocks
+  textEvents?: TextEvent[];
+  simulation?: SegmentSimulation; // Ridden in SIM mode instead of ERG
+  repeat?: number; // Repeats this single segment
+  zwoAttributes?: Record<string, string>; // Unused ZWO attributes (e.g. pace), written back on ZWO export
+}
+
+// Slope segment - the trainer simulates the gradient and the rider chooses
+// the effort. targetPower holds the assumed intensity for TSS and the graph
+export interface SegmentSimulation {
+  grade: number;        // percent, e.g. 8 for an 8% climb
+  riderWeight?: number; // kg, defaults to DEFAULT_SIMULATION
+  crr?: number;         // rolling resistance coefficient
+  cda?: number;         // drag area in m²
+  distance?: number;    // metres - route sections are ridden by distance, not time
+}
+
+// GPX track ridden in SIM mode. The workout's segments are its gradient
+// sections, each carrying its length in simulation.distance
+export interface RoutePoint {
+  lat: number;
+  lon: number;
+  elevation: number; // metres
+  distance: number;  // metres from the start
+}
+
+export interface Route {
+  points: RoutePoint[];
+  totalDistance: number; // metres
+  elevationGain: number; // metres
+}
+
+// Group of segments repeated as a unit (e.g. ZWO IntervalsT on/off pairs)
+export interface SegmentBlock {
+  id: string;
+  type: "block";
+  repeat: number;
+  segments: WorkoutItem[];
+  textEvents?: TextEvent[]; // Offsets span all repeats of the block
+  zwoAttributes?: Record<string, string>; // Unused IntervalsT attributes, written back on ZWO export
+}
+
+export type WorkoutItem = Segment | SegmentBlock;
+
+export function isSegmentBlock(item: WorkoutItem): item is SegmentBlock {
+  return item.type === "block";
 }
 
 export interface Workout {
@@ -60,9 +142,11 @@ export interface Workout {
   totalDuration: number; // seconds
   estimatedTSS: number;
   intensityFactor: number;
-  segments: Segment[];
+  segments: WorkoutItem[];
   createdAt: string;
-  source: "ai" | "file" | "image";
+  source: "ai" | "file" | "image" | "test";
+  route?: Route;
+  ftpTest?: FtpTestProtocol; // ridden as an FTP test - the player estimates FTP at the end
   completion?: WorkoutCompletion;
 }
 
@@ -92,6 +176,13 @@ export interface ParseImageResponse {
   rawDescription: string;
 }
 
+// Assumed %FTP for free-ride segments when estimating TSS - editable per
+// segment as its target power
+export const DEFAULT_FREE_RIDE_INTENSITY = 60;
+
+// Starting/fail-safe %FTP for heart-rate segments that don't set one
+export const DEFAULT_HEART_RATE_FALLBACK_POWER = 65;
+
 // Zone definitions based on percent of FTP
 // Refined, tasteful palette - muted but vivid
 export const POWER_ZONES = {
@@ -106,6 +197,15 @@ export const POWER_ZONES = {
 
 export type ZoneNumber = keyof typeof POWER_ZONES;
 
+// Heart-rate zones - lower bounds as percent of LTHR (Friel) or of max HR
+export const HEART_RATE_ZONES = {
+  1: { name: "Recovery", lthr: 0, maxHr: 0, color: "#6b7a8a" },
+  2: { name: "Aerobic", lthr: 81, maxHr: 60, color: "#2a9d8f" },
+  3: { name: "Tempo", lthr: 90, maxHr: 70, color: "#4ade80" },
+  4: { name: "Threshold", lthr: 94, maxHr: 80, color: "#e9a23b" },
+  5: { name: "VO2max", lthr: 100, maxHr: 90, color: "#c44da8" },
+} as const;
+
 export function getZoneForPower(percentFTP: number): ZoneNumber {
   if (percentFTP < 55) return 1;
   if (percentFTP < 75) return 2;
@@ -0,0 +1,4 @@
+-- GPX routes ridden in SIM mode are stored with their workout. Null for
+-- workouts without a route
+alter table public.workouts
+  add column if not exists route jsonb;
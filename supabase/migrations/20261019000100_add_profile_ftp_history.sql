@@ -0,0 +1,5 @@
+-- Dated FTP history - completed workouts are measured against the FTP of
+-- their day. Null until the rider first saves one, so the app falls back to
+-- the history kept in the browser
+alter table public.profiles
+  add column if not exists ftp_history jsonb;